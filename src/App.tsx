@@ -1,15 +1,44 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './context/AuthContext';
 import Navigation from './navigation/Navigation';
 import { Platform, StatusBar } from 'react-native';
+import { watchConnectivity } from './lib/connectivity';
+import { MAX_CACHE_AGE_MS, restoreQueryCache, subscribeToQueryCache } from './lib/queryPersistence';
 
-// Initialize React Query client
-const queryClient = new QueryClient();
+// Initialize React Query client. Screens share cached trips, profiles and
+// messages, so navigating back and forth doesn't refetch within 30 seconds.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      // Keep restored data around for the lifetime of the persisted snapshot
+      gcTime: MAX_CACHE_AGE_MS,
+      retry: 1,
+    },
+  },
+});
+
+watchConnectivity();
 
 const App = () => {
+  const [cacheRestored, setCacheRestored] = useState(false);
+
+  // Restore previously loaded data before the first render so screens can
+  // show it straight away, including when the app starts offline
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    restoreQueryCache(queryClient).finally(() => {
+      unsubscribe = subscribeToQueryCache(queryClient);
+      setCacheRestored(true);
+    });
+    return () => unsubscribe?.();
+  }, []);
+
+  if (!cacheRestored) return null;
+
   return (
     <SafeAreaProvider>
       <StatusBar
@@ -0,0 +1,240 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Database, Tables } from '../integrations/supabase/types';
+import { ProfileSummary, fetchProfileSummaries } from './profiles';
+
+export type ChatMessageRow = Tables<'chat_messages'>;
+
+export type ChatMessage = ChatMessageRow & {
+  sender: ProfileSummary | null;
+};
+
+/**
+ * Keyset cursor pointing at the oldest message loaded so far. The id breaks
+ * ties between messages sent at the same moment.
+ */
+export type MessageCursor = {
+  sent_at: string;
+  id: string;
+};
+
+export type MessagePage = {
+  // Oldest first, ready to render
+  messages: ChatMessage[];
+  olderCursor: MessageCursor | null;
+};
+
+export const MESSAGES_PAGE_SIZE = 30;
+
+// A room in the inbox with its latest message, if any
+export type ChatInboxRoom = Database['public']['Functions']['chat_inbox']['Returns'][number];
+
+// How far a member has read a room
+export type ChatReadMarker = Database['public']['Functions']['chat_read_markers']['Returns'][number];
+
+export const getTripChatRoomId = async (tripId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('get_or_create_trip_chat_room', { p_trip_id: tripId });
+  if (error) throw error;
+  return data;
+};
+
+export const isChatRoomMember = async (roomId: string, userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('chat_room_participants')
+    .select('user_id')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/**
+ * Every room the current user belongs to, most recently active first.
+ */
+export const fetchChatInbox = async (): Promise<ChatInboxRoom[]> => {
+  const { data, error } = await supabase.rpc('chat_inbox');
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Marks the room as read by the current user up to readAt, or up to now
+ * without it. The server never moves a marker backwards.
+ */
+export const markChatRoomRead = async (roomId: string, readAt?: string) => {
+  const { error } = await supabase.rpc('mark_chat_room_read', {
+    p_room_id: roomId,
+    ...(readAt && { p_read_at: readAt }),
+  });
+  if (error) throw error;
+};
+
+export const fetchReadMarkers = async (roomId: string): Promise<ChatReadMarker[]> => {
+  const { data, error } = await supabase.rpc('chat_read_markers', { p_room_id: roomId });
+  if (error) throw error;
+  return data || [];
+};
+
+export const withSenders = async (rows: ChatMessageRow[]): Promise<ChatMessage[]> => {
+  const profiles = await fetchProfileSummaries(rows.map(row => row.sender_id));
+  return rows.map(row => ({ ...row, sender: profiles.get(row.sender_id) ?? null }));
+};
+
+/**
+ * Loads the newest messages in a room, or the ones sent before the cursor
+ * when scrolling back through the history.
+ */
+export const fetchMessagesPage = async (
+  roomId: string,
+  before: MessageCursor | null = null,
+  limit = MESSAGES_PAGE_SIZE
+): Promise<MessagePage> => {
+  let query = supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('room_id', roomId);
+
+  if (before) {
+    query = query.or(
+      `sent_at.lt."${before.sent_at}",and(sent_at.eq."${before.sent_at}",id.lt.${before.id})`
+    );
+  }
+
+  // One extra row tells us whether older messages exist
+  const { data, error } = await query
+    .order('sent_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, limit).reverse();
+  const oldest = page[0];
+
+  return {
+    messages: await withSenders(page),
+    olderCursor: rows.length > limit ? { sent_at: oldest.sent_at, id: oldest.id } : null,
+  };
+};
+
+export const fetchMessage = async (messageId: string): Promise<ChatMessageRow> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('id', messageId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Inserts a message. Passing a client-generated id makes retries safe: a
+ * second insert with the same id fails with a unique violation instead of
+ * posting the message twice.
+ */
+export const sendMessage = async (
+  roomId: string,
+  senderId: string,
+  text: string,
+  messageId?: string
+): Promise<ChatMessageRow> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert([
+      {
+        ...(messageId && { id: messageId }),
+        room_id: roomId,
+        sender_id: senderId,
+        message_text: text,
+      },
+    ])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Calls onChange whenever a message is posted in one of roomIds or the
+ * user's room memberships change, so a new room can be added to roomIds.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToInbox = (userId: string, roomIds: string[], onChange: () => void) => {
+  const channel = supabase
+    .channel(`inbox-${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_room_participants', filter: `user_id=eq.${userId}` },
+      onChange
+    );
+
+  for (let start = 0; start < roomIds.length; start += ROOM_FILTER_LIMIT) {
+    const ids = roomIds.slice(start, start + ROOM_FILTER_LIMIT);
+    channel.on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `room_id=in.(${ids.join(',')})` },
+      onChange
+    );
+  }
+
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Calls onChange whenever a member joins the room or their read marker
+ * moves. Returns the unsubscribe function.
+ */
+export const subscribeToReadMarkers = (roomId: string, onChange: (marker: ChatReadMarker) => void) => {
+  const handleChange = (payload: { new: Tables<'chat_room_participants'> }) =>
+    onChange({ user_id: payload.new.user_id, last_read_at: payload.new.last_read_at });
+  const filter = { schema: 'public', table: 'chat_room_participants', filter: `room_id=eq.${roomId}` };
+
+  const channel = supabase
+    .channel(`read-markers-${roomId}`)
+    .on<Tables<'chat_room_participants'>>('postgres_changes', { event: 'INSERT', ...filter }, handleChange)
+    .on<Tables<'chat_room_participants'>>('postgres_changes', { event: 'UPDATE', ...filter }, handleChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Subscribes to new messages in a room. Returns the unsubscribe function.
+ */
+export const subscribeToMessages = (roomId: string, onMessage: (message: ChatMessage) => void) => {
+  const channel = supabase
+    .channel(`room-${roomId}`)
+    .on<ChatMessageRow>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'chat_messages',
+        filter: `room_id=eq.${roomId}`,
+      },
+      async (payload) => {
+        try {
+          const [message] = await withSenders([payload.new]);
+          onMessage(message);
+        } catch (error) {
+          console.error('Error loading message sender:', error);
+          onMessage({ ...payload.new, sender: null });
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
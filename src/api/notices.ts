@@ -0,0 +1,28 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+
+// Tells a rider or applicant about a trip that no longer exists
+export type TripNotice = Tables<'trip_notices'>;
+
+/**
+ * Notices the current user hasn't dismissed yet, newest first.
+ */
+export const fetchTripNotices = async (): Promise<TripNotice[]> => {
+  const { data, error } = await supabase
+    .from('trip_notices')
+    .select('*')
+    .is('dismissed_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const dismissTripNotice = async (noticeId: string) => {
+  const { error } = await supabase
+    .from('trip_notices')
+    .update({ dismissed_at: new Date().toISOString() })
+    .eq('id', noticeId);
+
+  if (error) throw error;
+};
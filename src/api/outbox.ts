@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onlineManager } from '@tanstack/react-query';
+import { OutboxConflictError, OutboxOperation, OutboxTransport, createOutbox } from '../lib/outbox';
+import { applyForTrip } from './participants';
+import { fetchMessage, sendMessage } from './chat';
+import { Profile, fetchProfile, updateProfile, updateProfileIfUnchanged } from './profiles';
+
+// Postgres unique_violation: the operation already reached the server
+const UNIQUE_VIOLATION = '23505';
+
+const isUniqueViolation = (error: unknown) =>
+  !!error && typeof error === 'object' && 'code' in error && error.code === UNIQUE_VIOLATION;
+
+/**
+ * Replays a queued operation against Supabase. Each one is idempotent, so an
+ * operation that was sent but never acknowledged can safely be sent again.
+ */
+export const sendOutboxOperation: OutboxTransport = async (operation: OutboxOperation, { force }) => {
+  switch (operation.type) {
+    case 'join_trip':
+      try {
+        return await applyForTrip(operation.tripId, operation.userId);
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+      }
+      return null;
+
+    case 'send_message':
+      try {
+        return await sendMessage(operation.roomId, operation.senderId, operation.text, operation.messageId);
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+        return fetchMessage(operation.messageId);
+      }
+
+    case 'update_profile': {
+      if (force) return updateProfile(operation.userId, operation.changes);
+
+      const profile = await updateProfileIfUnchanged(operation.userId, operation.changes, operation.baseModifiedOn);
+      if (profile) return profile;
+
+      // A previous attempt may have been applied without us hearing back
+      const current = await fetchProfile(operation.userId);
+      const alreadyApplied = Object.entries(operation.changes).every(
+        ([field, value]) => current[field as keyof Profile] === value
+      );
+      if (alreadyApplied) return current;
+
+      throw new OutboxConflictError('Your profile was changed elsewhere after these edits were made');
+    }
+  }
+};
+
+export const outbox = createOutbox({
+  transport: sendOutboxOperation,
+  storage: AsyncStorage,
+  isOnline: () => onlineManager.isOnline(),
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = { trip_id: string; user_id: string; approved: boolean };
+
+/**
+ * In-memory stand-in for the approval RPCs. approve_participant mirrors
+ * enforce_trip_capacity: it takes the trip's row lock, counts the seats
+ * already taken and raises trip_full past max_participants. The awaits
+ * let parallel calls interleave the way concurrent requests would.
+ */
+const backend = vi.hoisted(() => {
+  const trips = new Map<string, { maxParticipants: number; lock: Promise<void> }>();
+  let participants: Row[] = [];
+
+  const tick = () => new Promise(resolve => setTimeout(resolve, Math.random() * 5));
+
+  const withTripLock = async <T,>(tripId: string, fn: () => Promise<T>) => {
+    const trip = trips.get(tripId);
+    const previous = trip.lock;
+    let release: () => void;
+    trip.lock = new Promise(resolve => { release = resolve; });
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+
+  const approve = async ({ p_trip_id, p_user_id }: { p_trip_id: string; p_user_id: string }) => {
+    await tick();
+    return withTripLock(p_trip_id, async () => {
+      await tick();
+      const taken = participants.filter(p => p.trip_id === p_trip_id && p.approved).length;
+      if (taken >= trips.get(p_trip_id).maxParticipants) {
+        return { data: null, error: { message: 'trip_full', code: 'P0001' } };
+      }
+      await tick();
+      participants = participants.map(p =>
+        p.trip_id === p_trip_id && p.user_id === p_user_id ? { ...p, approved: true } : p
+      );
+      return { data: null, error: null };
+    });
+  };
+
+  return {
+    reset(tripId: string, maxParticipants: number, rows: Row[]) {
+      trips.clear();
+      trips.set(tripId, { maxParticipants, lock: Promise.resolve() });
+      participants = rows;
+    },
+    approvedCount: (tripId: string) => participants.filter(p => p.trip_id === tripId && p.approved).length,
+    rpc: async (name: string, args: { p_trip_id: string; p_user_id: string }) => {
+      if (name === 'approve_participant') return approve(args);
+      if (name === 'add_participant_to_chat') return { data: null, error: null };
+      throw new Error(`Unexpected rpc ${name}`);
+    },
+  };
+});
+
+vi.mock('../integrations/supabase/client', () => ({
+  supabase: { rpc: backend.rpc },
+}));
+
+import { TripFullError, approveParticipant } from './participants';
+
+describe('approveParticipant', () => {
+  const tripId = 'trip-1';
+
+  beforeEach(() => {
+    backend.reset(tripId, 3, [
+      { trip_id: tripId, user_id: 'rider-0', approved: true },
+      ...Array.from({ length: 6 }, (_, i) => ({ trip_id: tripId, user_id: `rider-${i + 1}`, approved: false })),
+    ]);
+  });
+
+  it('never seats more riders than the trip takes when approvals race', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, (_, i) => approveParticipant(tripId, `rider-${i + 1}`))
+    );
+
+    const approved = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(approved).toHaveLength(2);
+    expect(rejected).toHaveLength(4);
+    rejected.forEach(result => expect(result.reason).toBeInstanceOf(TripFullError));
+    expect(backend.approvedCount(tripId)).toBe(3);
+  });
+
+  it('rejects with TripFullError once the last seat is taken', async () => {
+    await approveParticipant(tripId, 'rider-1');
+    await approveParticipant(tripId, 'rider-2');
+
+    await expect(approveParticipant(tripId, 'rider-3')).rejects.toBeInstanceOf(TripFullError);
+    expect(backend.approvedCount(tripId)).toBe(3);
+  });
+});
@@ -0,0 +1,165 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+import { ProfileSummary, fetchProfileSummaries } from './profiles';
+
+export type Participant = Tables<'trip_participants'> & {
+  user: ProfileSummary | null;
+};
+
+export type ParticipantState = 'approved' | 'pending' | 'waitlisted' | 'rejected';
+
+/**
+ * Thrown when seating someone would go over max_participants. The database
+ * checks capacity while holding a lock on the trip, so this is reliable
+ * even when the participant list on screen is out of date.
+ */
+export class TripFullError extends Error {
+  constructor() {
+    super('All seats on this trip are taken');
+    this.name = 'TripFullError';
+  }
+}
+
+const isTripFull = (error: { message: string }) => error.message === 'trip_full';
+
+export const getParticipantState = (participant: Tables<'trip_participants'>): ParticipantState => {
+  if (participant.approved) return 'approved';
+  if (participant.rejected_at) return 'rejected';
+  if (participant.waitlisted_at) return 'waitlisted';
+  return 'pending';
+};
+
+/**
+ * Waitlisted participants in the order seats will be offered to them.
+ */
+export const getWaitlist = (participants: Participant[]) =>
+  participants
+    .filter(p => getParticipantState(p) === 'waitlisted')
+    .sort((a, b) => a.waitlisted_at.localeCompare(b.waitlisted_at));
+
+export const fetchParticipants = async (tripId: string): Promise<Participant[]> => {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+
+  const profiles = await fetchProfileSummaries((data || []).map(p => p.user_id));
+  return (data || []).map(participant => ({
+    ...participant,
+    user: profiles.get(participant.user_id) ?? null,
+  }));
+};
+
+// Errors apply_for_trip and join_trip_waitlist raise for applicants who can't join
+const joinErrorMessages: Record<string, string> = {
+  trip_not_open: 'This trip is no longer accepting participants',
+  trip_started: 'This trip has already started',
+  trip_not_full: 'This trip still has free seats, so you can request to join instead',
+  rating_too_low: "Your rating doesn't meet this trip's minimum",
+  profile_incomplete: 'This trip requires a complete profile',
+};
+
+const seatErrorMessages: Record<string, string> = {
+  seat_taken: 'Someone else just took that seat',
+  seat_unavailable: "That seat isn't available on this trip",
+};
+
+const toJoinError = (error: { message: string }) => {
+  if (isTripFull(error)) return new TripFullError();
+  return joinErrorMessages[error.message] ? new Error(joinErrorMessages[error.message]) : error;
+};
+
+/**
+ * Applies for a trip and reports where the applicant ended up. Trips with
+ * automatic approval seat the applicant straight away, so they are added
+ * to the chat here just like after a manual approval.
+ */
+export const applyForTrip = async (tripId: string, userId: string): Promise<ParticipantState> => {
+  const { data, error } = await supabase.rpc('apply_for_trip', { p_trip_id: tripId });
+  if (error) throw toJoinError(error);
+
+  const state = data as ParticipantState;
+  if (state === 'approved') {
+    const { error: chatError } = await supabase.rpc('add_participant_to_chat', {
+      p_trip_id: tripId,
+      p_user_id: userId,
+    });
+    if (chatError) throw chatError;
+  }
+  return state;
+};
+
+/**
+ * Approves a pending participant and adds them to the trip's chat room.
+ * Throws TripFullError when the last seat has already been taken.
+ */
+export const approveParticipant = async (tripId: string, userId: string) => {
+  const { error } = await supabase.rpc('approve_participant', {
+    p_trip_id: tripId,
+    p_user_id: userId,
+  });
+  if (error) throw isTripFull(error) ? new TripFullError() : error;
+
+  const { error: chatError } = await supabase.rpc('add_participant_to_chat', {
+    p_trip_id: tripId,
+    p_user_id: userId,
+  });
+  if (chatError) throw chatError;
+};
+
+/**
+ * Declines a pending or waitlisted request. The row is kept so the
+ * traveller can't simply apply again.
+ */
+export const rejectParticipant = async (tripId: string, userId: string) => {
+  const { error } = await supabase.rpc('reject_participant', {
+    p_trip_id: tripId,
+    p_user_id: userId,
+  });
+  if (error) throw error;
+};
+
+/**
+ * Removes a member or waitlisted traveller from the trip and its chat room.
+ * The freed seat goes to the next person on the waitlist.
+ */
+export const removeParticipant = async (tripId: string, userId: string) => {
+  const { error } = await supabase.rpc('remove_participant', {
+    p_trip_id: tripId,
+    p_user_id: userId,
+  });
+  if (error) throw error;
+};
+
+/**
+ * Queues the current user for a full trip. Fails with trip_not_full while a
+ * seat is free; applying is the way in then.
+ */
+export const joinWaitlist = async (tripId: string) => {
+  const { error } = await supabase.rpc('join_trip_waitlist', { p_trip_id: tripId });
+  if (error) throw toJoinError(error);
+};
+
+/**
+ * Leaves the trip, or withdraws the request if it hasn't been approved yet.
+ * Riders in the trip chat are told either way.
+ */
+export const leaveTrip = async (tripId: string): Promise<'left' | 'withdrawn'> => {
+  const { data, error } = await supabase.rpc('leave_trip', { p_trip_id: tripId });
+  if (error) throw error;
+  return data as 'left' | 'withdrawn';
+};
+
+/**
+ * Moves the current user to another free seat. Approved riders are given a
+ * seat automatically, so this is only needed to change it.
+ */
+export const chooseSeat = async (tripId: string, seatId: string) => {
+  const { error } = await supabase.rpc('choose_seat', { p_trip_id: tripId, p_seat_id: seatId });
+  if (error) {
+    throw seatErrorMessages[error.message] ? new Error(seatErrorMessages[error.message]) : error;
+  }
+};
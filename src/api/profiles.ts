@@ -0,0 +1,120 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables, TablesUpdate } from '../integrations/supabase/types';
+
+export type Profile = Tables<'profiles'>;
+
+export type ProfileSummary = Pick<Profile, 'id' | 'firstname' | 'lastname' | 'avatar_url' | 'rating_average'>;
+
+// What other travellers see; age is null unless its owner shows it
+export type PublicProfile = Tables<'public_profiles'>;
+
+export type ProfileUpdate = Pick<TablesUpdate<'profiles'>, 'firstname' | 'lastname' | 'age' | 'show_age' | 'bio' | 'avatar_url'>;
+
+// Only the signed-in user's own row is readable; everyone else goes through
+// fetchPublicProfile
+export const fetchProfile = async (userId: string): Promise<Profile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchPublicProfile = async (userId: string): Promise<PublicProfile> => {
+  const { data, error } = await supabase
+    .from('public_profiles')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Loads the public summary for each user from public_profiles, keyed by id. The generated schema
+ * has no foreign keys from trips or chat tables to profiles, so embedding is
+ * not possible and callers join through this map instead.
+ */
+export const fetchProfileSummaries = async (userIds: string[]): Promise<Map<string, ProfileSummary>> => {
+  const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+  if (uniqueIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('public_profiles')
+    .select('id, firstname, lastname, avatar_url, rating_average')
+    .in('id', uniqueIds);
+
+  if (error) throw error;
+  // The view types every column as nullable, but the filter above means id is set
+  return new Map((data || []).map(profile => [profile.id!, { ...profile, id: profile.id! }]));
+};
+
+export const updateProfile = async (userId: string, changes: ProfileUpdate): Promise<Profile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ ...changes, modified_on: new Date().toISOString() })
+    .eq('id', userId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Applies the changes only if nobody modified the profile since
+ * expectedModifiedOn was read. Returns null when it was modified.
+ */
+export const updateProfileIfUnchanged = async (
+  userId: string,
+  changes: ProfileUpdate,
+  expectedModifiedOn: string | null
+): Promise<Profile | null> => {
+  let query = supabase
+    .from('profiles')
+    .update({ ...changes, modified_on: new Date().toISOString() })
+    .eq('id', userId);
+
+  query = expectedModifiedOn ? query.eq('modified_on', expectedModifiedOn) : query.is('modified_on', null);
+
+  const { data, error } = await query.select('*').maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Uploads a local image to the avatars bucket and returns its public URL.
+ */
+export const uploadAvatar = async (userId: string, imageUri: string): Promise<string> => {
+  const response = await fetch(imageUri);
+  const blob = await response.blob();
+
+  const fileExt = imageUri.split('.').pop()?.toLowerCase() || 'jpg';
+  const filePath = `avatars/${userId}-${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('avatars')
+    .upload(filePath, blob, {
+      contentType: `image/${fileExt === 'jpg' ? 'jpeg' : fileExt}`,
+    });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage.from('avatars').getPublicUrl(filePath);
+  return data.publicUrl;
+};
+
+export const getInitials = (profile: Pick<Profile, 'firstname' | 'lastname'> | null) => {
+  if (!profile) return 'U';
+  return `${profile.firstname?.charAt(0) || ''}${profile.lastname?.charAt(0) || ''}`.toUpperCase() || 'U';
+};
+
+export const getDisplayName = (profile: Pick<Profile, 'firstname' | 'lastname'> | null) => {
+  if (!profile) return 'Unknown traveller';
+  return [profile.firstname, profile.lastname].filter(Boolean).join(' ') || 'Unknown traveller';
+};
@@ -0,0 +1,129 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+
+export type Rating = Tables<'ratings'>;
+
+export type Review = Tables<'user_ratings'>;
+
+/**
+ * Keyset cursor for reviews, newest first. The id breaks ties between
+ * reviews created at the same moment.
+ */
+export type ReviewCursor = {
+  created_at: string;
+  id: string;
+};
+
+export type ReviewPage = {
+  reviews: Review[];
+  nextCursor: ReviewCursor | null;
+};
+
+export type ReviewPageOptions = {
+  userId: string;
+  // Only reviews with this many stars
+  stars?: number | null;
+  cursor?: ReviewCursor | null;
+  limit?: number;
+};
+
+// Number of reviews with each star value, 1 to 5
+export type RatingBreakdown = Record<number, number>;
+
+export const REVIEWS_PAGE_SIZE = 5;
+
+export type RatingInput = {
+  tripId: string;
+  raterId: string;
+  ratedId: string;
+  value: number;
+  comment: string;
+};
+
+// Errors submit_rating raises when a rating isn't allowed
+const ratingErrorMessages: Record<string, string> = {
+  trip_not_finished: 'You can rate your co-travellers once the trip has ended',
+  rating_window_closed: 'Ratings for this trip are closed',
+  not_trip_members: 'Only people who travelled together can rate each other',
+};
+
+/**
+ * Ratings the user has given on a trip, one per co-traveller at most.
+ */
+export const fetchTripRatingsBy = async (tripId: string, raterId: string): Promise<Rating[]> => {
+  const { data, error } = await supabase
+    .from('ratings')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('rater_id', raterId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Loads one page of the reviews a traveller has received.
+ */
+export const fetchReviewsPage = async ({
+  userId,
+  stars = null,
+  cursor = null,
+  limit = REVIEWS_PAGE_SIZE,
+}: ReviewPageOptions): Promise<ReviewPage> => {
+  let query = supabase
+    .from('user_ratings')
+    .select('*')
+    .eq('rated_id', userId);
+
+  if (stars) {
+    query = query.eq('rating_value', stars);
+  }
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+    );
+  }
+
+  // One extra row tells us whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const reviews = rows.slice(0, limit);
+  const last = reviews[reviews.length - 1];
+
+  return {
+    reviews,
+    nextCursor: rows.length > limit ? { created_at: last.created_at, id: last.id } : null,
+  };
+};
+
+export const fetchRatingBreakdown = async (userId: string): Promise<RatingBreakdown> => {
+  const { data, error } = await supabase.rpc('rating_breakdown', { p_user_id: userId });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.rating_value, row.total]));
+};
+
+/**
+ * Creates or updates the rating for this pair of travellers on the trip.
+ * The server recomputes the rated traveller's average.
+ */
+export const submitRating = async ({ tripId, raterId, ratedId, value, comment }: RatingInput) => {
+  const { error } = await supabase.rpc('submit_rating', {
+    p_rater_id: raterId,
+    p_rated_id: ratedId,
+    p_trip_id: tripId,
+    p_rating_value: value,
+    p_comment: comment,
+  });
+
+  if (error) {
+    throw ratingErrorMessages[error.message] ? new Error(ratingErrorMessages[error.message]) : error;
+  }
+};
@@ -0,0 +1,346 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '../integrations/supabase/types';
+import { LatLng, parsePostgisPoint, toPostgisPoint } from '../lib/geo';
+import type { Place } from '../lib/geocoding';
+import { ProfileSummary, fetchProfileSummaries } from './profiles';
+import { WaypointInput, toWaypointRow } from './waypoints';
+
+type TripRow = Tables<'trips'>;
+
+export type Trip = Omit<TripRow, 'origin_latlon' | 'destination_latlon'> & {
+  origin_location: LatLng | null;
+  destination_location: LatLng | null;
+};
+
+export type TripWithOrganizer = Trip & {
+  organizer: ProfileSummary | null;
+};
+
+export type TripListItem = Trip & {
+  participant_count: number;
+};
+
+export type UserTrip = Trip & {
+  is_organizer: boolean;
+};
+
+export type TripInput = Omit<TablesInsert<'trips'>, 'id' | 'created_at' | 'origin_latlon' | 'destination_latlon'> & {
+  origin_location?: LatLng | null;
+  destination_location?: LatLng | null;
+};
+
+export type TripUpdate = Omit<TablesUpdate<'trips'>, 'id' | 'created_at' | 'organizer_id' | 'origin_latlon' | 'destination_latlon'> & {
+  origin_location?: LatLng | null;
+  destination_location?: LatLng | null;
+};
+
+export const toTrip = ({ origin_latlon, destination_latlon, ...row }: TripRow): Trip => ({
+  ...row,
+  origin_location: parsePostgisPoint(origin_latlon),
+  destination_location: parsePostgisPoint(destination_latlon),
+});
+
+const toTripRow = <T extends { origin_location?: LatLng | null; destination_location?: LatLng | null }>({
+  origin_location,
+  destination_location,
+  ...fields
+}: T) => ({
+  ...fields,
+  ...(origin_location !== undefined && {
+    origin_latlon: origin_location ? toPostgisPoint(origin_location) : null,
+  }),
+  ...(destination_location !== undefined && {
+    destination_latlon: destination_location ? toPostgisPoint(destination_location) : null,
+  }),
+});
+
+export const originPlaceFields = (place: Place) => ({
+  origin_address: place.address,
+  origin_city: place.city,
+  origin_country: place.country,
+  origin_place_id: place.place_id,
+  origin_location: place.location,
+});
+
+export const destinationPlaceFields = (place: Place) => ({
+  destination: place.address,
+  destination_city: place.city,
+  destination_country: place.country,
+  destination_place_id: place.place_id,
+  destination_location: place.location,
+});
+
+/**
+ * The trip's origin as a Place, or null for trips created before origins
+ * were geocoded.
+ */
+export const tripOriginPlace = (trip: Trip): Place | null =>
+  trip.origin_location
+    ? {
+      place_id: trip.origin_place_id,
+      address: trip.origin_address || '',
+      city: trip.origin_city,
+      country: trip.origin_country,
+      location: trip.origin_location,
+    }
+    : null;
+
+export const tripDestinationPlace = (trip: Trip): Place | null =>
+  trip.destination_location
+    ? {
+      place_id: trip.destination_place_id,
+      address: trip.destination,
+      city: trip.destination_city,
+      country: trip.destination_country,
+      location: trip.destination_location,
+    }
+    : null;
+
+/**
+ * Position in the trips list, ordered by start_date with the id breaking
+ * ties between trips that start at the same time.
+ */
+export type TripCursor = {
+  start_date: string;
+  id: string;
+};
+
+export type TripPage = {
+  trips: TripListItem[];
+  nextCursor: TripCursor | null;
+};
+
+export type TripPageOptions = {
+  cursor?: TripCursor | null;
+  includePast?: boolean;
+  limit?: number;
+};
+
+export const TRIPS_PAGE_SIZE = 20;
+
+/**
+ * Loads one page of trips together with their approved participant counts.
+ * The counts come from an embedded aggregate, so a page is a single request.
+ */
+export const fetchTripsPage = async ({
+  cursor = null,
+  includePast = false,
+  limit = TRIPS_PAGE_SIZE,
+}: TripPageOptions = {}): Promise<TripPage> => {
+  let query = supabase
+    .from('trips')
+    .select('*, trip_participants(count)')
+    .eq('trip_participants.approved', true)
+    .not('published_at', 'is', null)
+    .is('cancelled_at', null);
+
+  if (!includePast) {
+    query = query.gte('start_date', new Date().toISOString());
+  }
+
+  if (cursor) {
+    query = query.or(
+      `start_date.gt."${cursor.start_date}",and(start_date.eq."${cursor.start_date}",id.gt.${cursor.id})`
+    );
+  }
+
+  // One extra row tells us whether another page exists
+  const { data, error } = await query
+    .order('start_date', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const trips = rows.slice(0, limit).map(({ trip_participants, ...row }) => ({
+    ...toTrip(row),
+    participant_count: trip_participants[0]?.count ?? 0,
+  }));
+  const last = trips[trips.length - 1];
+
+  return {
+    trips,
+    nextCursor: rows.length > limit ? { start_date: last.start_date, id: last.id } : null,
+  };
+};
+
+export const fetchTrip = async (tripId: string): Promise<TripWithOrganizer> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .select('*')
+    .eq('id', tripId)
+    .single();
+
+  if (error) throw error;
+
+  const profiles = await fetchProfileSummaries([data.organizer_id]);
+  return {
+    ...toTrip(data),
+    organizer: profiles.get(data.organizer_id) ?? null,
+  };
+};
+
+/**
+ * Trips the user organizes, has applied to or is waitlisted for, most
+ * recent first. Declined requests are left out.
+ */
+export const fetchUserTrips = async (userId: string): Promise<UserTrip[]> => {
+  const { data: participations, error: participationsError } = await supabase
+    .from('trip_participants')
+    .select('trip_id')
+    .eq('user_id', userId)
+    .is('rejected_at', null);
+
+  if (participationsError) throw participationsError;
+
+  const participatingIds = (participations || []).map(p => p.trip_id);
+  const ownerFilter = participatingIds.length > 0
+    ? `organizer_id.eq.${userId},id.in.(${participatingIds.join(',')})`
+    : `organizer_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('trips')
+    .select('*')
+    .or(ownerFilter)
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    ...toTrip(row),
+    is_organizer: row.organizer_id === userId,
+  }));
+};
+
+/**
+ * Published trips the user organizes, most recent first. Cancelled trips
+ * are left out.
+ */
+export const fetchOrganizedTrips = async (userId: string): Promise<Trip[]> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .select('*')
+    .eq('organizer_id', userId)
+    .not('published_at', 'is', null)
+    .is('cancelled_at', null)
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toTrip);
+};
+
+/**
+ * Trips the current user and another traveller have both been on, as
+ * organizer or approved participant, most recent first.
+ */
+export const fetchSharedTrips = async (userId: string): Promise<Trip[]> => {
+  const { data: tripIds, error: sharedError } = await supabase.rpc('shared_trips', { p_user_id: userId });
+
+  if (sharedError) throw sharedError;
+  if (!tripIds || tripIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('trips')
+    .select('*')
+    .in('id', tripIds)
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toTrip);
+};
+
+export const createTrip = async (input: TripInput): Promise<Trip> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .insert([toTripRow(input)])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toTrip(data);
+};
+
+export const updateTrip = async (tripId: string, changes: TripUpdate): Promise<Trip> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .update(toTripRow(changes))
+    .eq('id', tripId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toTrip(data);
+};
+
+export type TripEdit = {
+  changes: TripUpdate;
+  waypoints: {
+    // Saved waypoints to keep; every other saved waypoint is deleted
+    kept: { id: string; sequence_order: number }[];
+    added: WaypointInput[];
+  };
+  // Posted to the trip chat as a system message when set
+  announcement: string | null;
+};
+
+// Errors update_trip raises for edits the trip no longer accepts
+const editErrorMessages: Record<string, string> = {
+  trip_not_open: 'This trip has been cancelled',
+  trip_started: 'This trip has already started and can no longer be edited',
+};
+
+/**
+ * Saves an organizer's edit of the trip, its waypoints and the chat notice
+ * in one transaction. Safe to retry: waypoints that aren't kept are
+ * replaced rather than added again.
+ */
+export const saveTripEdit = async (tripId: string, { changes, waypoints, announcement }: TripEdit): Promise<Trip> => {
+  const { data, error } = await supabase.rpc('update_trip', {
+    p_trip_id: tripId,
+    p_changes: toTripRow(changes),
+    p_kept_waypoints: waypoints.kept,
+    p_added_waypoints: waypoints.added.map(toWaypointRow),
+    p_announcement: announcement,
+  });
+
+  if (error) throw editErrorMessages[error.message] ? new Error(editErrorMessages[error.message]) : error;
+  return toTrip(data);
+};
+
+/**
+ * Makes a draft visible in browsing and search.
+ */
+export const publishTrip = (tripId: string) =>
+  updateTrip(tripId, { published_at: new Date().toISOString() });
+
+/**
+ * Soft-cancels a trip. It drops out of browsing but stays in its
+ * participants' history together with the reason, and the notice is posted
+ * to the trip chat in the same transaction.
+ */
+export const cancelTrip = async (tripId: string, reason: string): Promise<Trip> => {
+  const { data, error } = await supabase.rpc('cancel_trip', { p_trip_id: tripId, p_reason: reason });
+  if (error) throw error;
+  return toTrip(data);
+};
+
+/**
+ * Permanently deletes a trip along with its participants and waypoints.
+ * Everyone who had a seat, a request or a waitlist spot gets a trip notice.
+ */
+export const deleteTrip = async (tripId: string) => {
+  const { error } = await supabase.rpc('delete_trip', { p_trip_id: tripId });
+  if (error) throw error;
+};
+
+export const fetchTripTitle = async (tripId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('trips')
+    .select('title')
+    .eq('id', tripId)
+    .single();
+
+  if (error) throw error;
+  return data.title;
+};
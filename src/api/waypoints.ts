@@ -0,0 +1,52 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+import { LatLng, coordinatePlaceId, parsePostgisPoint, toPostgisPoint } from '../lib/geo';
+
+type WaypointRow = Tables<'trip_waypoints'>;
+
+export type Waypoint = Omit<WaypointRow, 'origin_latlon' | 'destination_latlon'> & {
+  location: LatLng | null;
+};
+
+export type WaypointInput = {
+  address: string;
+  place_id?: string | null;
+  location: LatLng;
+  sequence_order: number;
+};
+
+export const toWaypoint = ({ origin_latlon, destination_latlon, ...row }: WaypointRow): Waypoint => ({
+  ...row,
+  location: parsePostgisPoint(origin_latlon) ?? parsePostgisPoint(destination_latlon),
+});
+
+// The columns a new waypoint is inserted with
+export const toWaypointRow = (waypoint: WaypointInput) => ({
+  address: waypoint.address,
+  place_id: waypoint.place_id || coordinatePlaceId(waypoint.location),
+  origin_latlon: toPostgisPoint(waypoint.location),
+  sequence_order: waypoint.sequence_order,
+});
+
+export const fetchWaypoints = async (tripId: string): Promise<Waypoint[]> => {
+  const { data, error } = await supabase
+    .from('trip_waypoints')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('sequence_order', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toWaypoint);
+};
+
+export const createWaypoints = async (tripId: string, waypoints: WaypointInput[]): Promise<Waypoint[]> => {
+  if (waypoints.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('trip_waypoints')
+    .insert(waypoints.map(waypoint => ({ trip_id: tripId, ...toWaypointRow(waypoint) })))
+    .select('*');
+
+  if (error) throw error;
+  return (data || []).map(toWaypoint);
+};
@@ -5,7 +5,7 @@ import { TouchableOpacity, Text, StyleSheet, ActivityIndicator } from 'react-nat
 type ButtonProps = {
   title: string;
   onPress: () => void;
-  type?: 'primary' | 'secondary' | 'outline';
+  type?: 'primary' | 'secondary' | 'outline' | 'danger';
   loading?: boolean;
   disabled?: boolean;
   style?: object;
@@ -55,6 +55,9 @@ const styles = StyleSheet.create({
   secondaryButton: {
     backgroundColor: '#2ecc71',
   },
+  dangerButton: {
+    backgroundColor: '#e74c3c',
+  },
   outlineButton: {
     backgroundColor: 'transparent',
     borderWidth: 1,
@@ -73,6 +76,9 @@ const styles = StyleSheet.create({
   secondaryText: {
     color: 'white',
   },
+  dangerText: {
+    color: 'white',
+  },
   outlineText: {
     color: '#3498db',
   },
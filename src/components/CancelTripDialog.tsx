@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Modal } from 'react-native';
+import AppButton from './AppButton';
+
+type CancelTripDialogProps = {
+  visible: boolean;
+  onDismiss: () => void;
+  onConfirm: (reason: string) => void;
+  loading?: boolean;
+};
+
+const MAX_REASON_LENGTH = 300;
+
+/**
+ * Asks the organizer why a trip is being cancelled before cancelling it.
+ * The reason is shown to participants and is optional.
+ */
+const CancelTripDialog: React.FC<CancelTripDialogProps> = ({ visible, onDismiss, onConfirm, loading = false }) => {
+  const [reason, setReason] = useState('');
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (visible) setReason('');
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Cancel this trip?</Text>
+          <Text style={styles.message}>
+            Participants will be told in the trip chat. The trip stays in their history but can no
+            longer be joined.
+          </Text>
+
+          <Text style={styles.label}>Reason (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="e.g. The car broke down"
+            multiline
+            maxLength={MAX_REASON_LENGTH}
+          />
+
+          <View style={styles.actions}>
+            <AppButton title="Keep Trip" onPress={onDismiss} type="outline" style={styles.action} />
+            <AppButton
+              title="Cancel Trip"
+              onPress={() => onConfirm(reason)}
+              type="danger"
+              loading={loading}
+              style={styles.action}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+    color: '#333',
+    fontWeight: '500',
+  },
+  input: {
+    height: 80,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  action: {
+    flex: 1,
+    minWidth: 0,
+    marginHorizontal: 4,
+  },
+});
+
+export default CancelTripDialog;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type FilterChipProps = {
+  label: string;
+  selected?: boolean;
+  icon?: React.ComponentProps<typeof Ionicons>['name'];
+  onPress: () => void;
+  onClear?: () => void;
+};
+
+const FilterChip: React.FC<FilterChipProps> = ({
+  label,
+  selected = false,
+  icon,
+  onPress,
+  onClear,
+}) => {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.selectedChip]}
+      onPress={onPress}
+    >
+      {icon && (
+        <Ionicons
+          name={icon}
+          size={14}
+          color={selected ? 'white' : '#7f8c8d'}
+          style={styles.icon}
+        />
+      )}
+      <Text style={[styles.label, selected && styles.selectedLabel]}>{label}</Text>
+      {selected && onClear && (
+        <TouchableOpacity onPress={onClear} style={styles.clearButton}>
+          <Ionicons name="close" size={14} color="white" />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f2f2f2',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#3498db',
+  },
+  icon: {
+    marginRight: 4,
+  },
+  label: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    fontWeight: '500',
+  },
+  selectedLabel: {
+    color: 'white',
+  },
+  clearButton: {
+    marginLeft: 4,
+  },
+});
+
+export default FilterChip;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { outbox } from '../api/outbox';
+import { OutboxItem, OutboxStatus } from '../lib/outbox';
+
+type OutboxItemStatusProps = {
+  item: OutboxItem;
+  // Smaller variant for use inside chat bubbles
+  compact?: boolean;
+  // Called after the item is discarded, e.g. to refetch what it changed
+  onDiscard?: () => void;
+};
+
+const statusLabels: Record<OutboxStatus, string> = {
+  pending: 'Waiting to send',
+  sending: 'Sending...',
+  failed: "Couldn't send",
+  conflicted: 'Changed elsewhere',
+};
+
+const statusColors: Record<OutboxStatus, string> = {
+  pending: '#7f8c8d',
+  sending: '#3498db',
+  failed: '#e74c3c',
+  conflicted: '#f39c12',
+};
+
+const statusIcons: Record<OutboxStatus, React.ComponentProps<typeof Ionicons>['name']> = {
+  pending: 'time-outline',
+  sending: 'cloud-upload-outline',
+  failed: 'alert-circle-outline',
+  conflicted: 'git-compare-outline',
+};
+
+/**
+ * Delivery state of a queued action, with retry, overwrite and discard
+ * buttons once it needs the user's attention.
+ */
+const OutboxItemStatus: React.FC<OutboxItemStatusProps> = ({ item, compact = false, onDiscard }) => {
+  const color = statusColors[item.status];
+  const needsAttention = item.status === 'failed' || item.status === 'conflicted';
+
+  const handleDiscard = () => {
+    outbox.discard(item.id);
+    onDiscard?.();
+  };
+
+  return (
+    <View style={[styles.container, compact && styles.compactContainer]}>
+      <View style={styles.statusRow}>
+        {item.status === 'sending' ? (
+          <ActivityIndicator size="small" color={color} />
+        ) : (
+          <Ionicons name={statusIcons[item.status]} size={compact ? 12 : 16} color={color} />
+        )}
+        <Text style={[styles.statusText, compact && styles.compactText, { color }]}>
+          {statusLabels[item.status]}
+          {item.status === 'pending' && item.attempts > 0 ? ' · will retry' : ''}
+        </Text>
+      </View>
+
+      {!compact && needsAttention && item.lastError && (
+        <Text style={styles.errorText}>{item.lastError}</Text>
+      )}
+
+      {needsAttention && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            onPress={() => outbox.retry(item.id, { force: item.status === 'conflicted' })}
+          >
+            <Text style={[styles.actionText, compact && styles.compactText]}>
+              {item.status === 'conflicted' ? 'Overwrite' : 'Retry'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDiscard}>
+            <Text style={[styles.actionText, styles.discardText, compact && styles.compactText]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  compactContainer: {
+    paddingVertical: 2,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  compactText: {
+    fontSize: 11,
+  },
+  errorText: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#3498db',
+    marginRight: 16,
+  },
+  discardText: {
+    color: '#e74c3c',
+  },
+});
+
+export default OutboxItemStatus;
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LatLng } from '../lib/geo';
+import { Place, PlaceSuggestion, getGeocoder } from '../lib/geocoding';
+
+type PlaceAutocompleteProps = {
+  value: Place | null;
+  onChange: (place: Place | null) => void;
+  placeholder: string;
+  error?: string;
+  // Biases suggestions towards this point
+  near?: LatLng;
+  // Extra controls at the end of the input row, e.g. a map toggle
+  children?: React.ReactNode;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Text input that suggests places from the active geocoder as the user
+ * types and resolves the picked suggestion to a full place.
+ */
+const PlaceAutocomplete: React.FC<PlaceAutocompleteProps> = ({
+  value,
+  onChange,
+  placeholder,
+  error,
+  near,
+  children,
+}) => {
+  const [query, setQuery] = useState(value?.address ?? '');
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  // Read at search time: moving the bias point only re-ranks, so it
+  // shouldn't trigger a search of its own
+  const nearRef = useRef(near);
+  nearRef.current = near;
+
+  // Keep the text in sync when the value is set from outside, e.g. a map tap
+  useEffect(() => {
+    setQuery(value?.address ?? '');
+  }, [value]);
+
+  useEffect(() => {
+    if (!query.trim() || query === value?.address) {
+      setSuggestions([]);
+      setSearchedQuery(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await getGeocoder().search(query, { near: nearRef.current });
+        if (!cancelled) {
+          setSuggestions(results);
+          setSearchedQuery(query);
+        }
+      } catch (error) {
+        console.error('Error searching places:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, value]);
+
+  const handleChangeText = (text: string) => {
+    setQuery(text);
+    // Editing the text discards the previously picked place
+    if (value) onChange(null);
+  };
+
+  const selectSuggestion = async (suggestion: PlaceSuggestion) => {
+    setResolvingId(suggestion.place_id);
+    try {
+      const place = await getGeocoder().details(suggestion.place_id);
+      if (!place) {
+        console.error('Error resolving place: unknown place_id', suggestion.place_id);
+        return;
+      }
+      setSuggestions([]);
+      onChange(place);
+    } catch (error) {
+      console.error('Error resolving place:', error);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const noResults = !searching && searchedQuery === query && suggestions.length === 0;
+
+  return (
+    <View>
+      <View style={[styles.inputRow, error && styles.inputError]}>
+        <Ionicons name="search-outline" size={18} color="#7f8c8d" />
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={handleChangeText}
+          placeholder={placeholder}
+          autoCorrect={false}
+        />
+        {searching && <ActivityIndicator size="small" color="#3498db" />}
+        {children}
+      </View>
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={suggestion.place_id}
+              style={styles.suggestion}
+              onPress={() => selectSuggestion(suggestion)}
+              disabled={resolvingId !== null}
+            >
+              <Ionicons name="location-outline" size={16} color="#7f8c8d" />
+              <View style={styles.suggestionText}>
+                <Text style={styles.suggestionTitle}>{suggestion.title}</Text>
+                {suggestion.subtitle ? (
+                  <Text style={styles.suggestionSubtitle}>{suggestion.subtitle}</Text>
+                ) : null}
+              </View>
+              {resolvingId === suggestion.place_id && <ActivityIndicator size="small" color="#3498db" />}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {noResults && <Text style={styles.hintText}>No places found</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 50,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    backgroundColor: 'white',
+  },
+  inputError: {
+    borderColor: '#e74c3c',
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  suggestions: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginTop: 4,
+    backgroundColor: 'white',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  suggestionText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  suggestionTitle: {
+    fontSize: 15,
+    color: '#2c3e50',
+  },
+  suggestionSubtitle: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  hintText: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default PlaceAutocomplete;
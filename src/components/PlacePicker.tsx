@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import MapView, { Marker } from 'react-native-maps';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import { LatLng } from '../lib/geo';
+import { Place, getGeocoder } from '../lib/geocoding';
+
+type PlacePickerProps = {
+  label: string;
+  placeholder: string;
+  value: Place | null;
+  onChange: (place: Place | null) => void;
+  error?: string;
+  // Where the map opens when nothing has been picked yet
+  initialLocation?: LatLng;
+  // Biases search suggestions towards this point
+  near?: LatLng;
+};
+
+const DEFAULT_LOCATION = { latitude: 37.7749, longitude: -122.4194 };
+
+/**
+ * Picks a structured place either by searching the active geocoder or by
+ * tapping the map, which is reverse geocoded.
+ */
+const PlacePicker: React.FC<PlacePickerProps> = ({
+  label,
+  placeholder,
+  value,
+  onChange,
+  error,
+  initialLocation = DEFAULT_LOCATION,
+  near,
+}) => {
+  const [showMap, setShowMap] = useState(false);
+
+  const handleMapPress = async (point: LatLng) => {
+    try {
+      const place = await getGeocoder().reverse(point);
+      if (place) onChange(place);
+    } catch (error) {
+      console.error('Error looking up location:', error);
+    }
+  };
+
+  const center = value?.location ?? initialLocation;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <PlaceAutocomplete
+        value={value}
+        onChange={onChange}
+        placeholder={placeholder}
+        error={error}
+        near={near}
+      >
+        <TouchableOpacity style={styles.mapToggle} onPress={() => setShowMap(current => !current)}>
+          <Ionicons name={showMap ? 'map' : 'map-outline'} size={20} color="#3498db" />
+        </TouchableOpacity>
+      </PlaceAutocomplete>
+
+      {value && (
+        <Text style={styles.placeDetails}>
+          {[value.city, value.country].filter(Boolean).join(', ') || 'Dropped pin'}
+        </Text>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {showMap && (
+        <View style={styles.mapContainer}>
+          <MapView
+            style={styles.map}
+            region={{ ...center, latitudeDelta: 0.5, longitudeDelta: 0.5 }}
+            onPress={(e) => handleMapPress(e.nativeEvent.coordinate)}
+          >
+            {value && <Marker coordinate={value.location} title={value.address} />}
+          </MapView>
+          <Text style={styles.mapHint}>Tap the map to drop a pin</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+    color: '#333',
+    fontWeight: '500',
+  },
+  mapToggle: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  placeDetails: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  mapContainer: {
+    marginTop: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  map: {
+    height: 200,
+  },
+  mapHint: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+});
+
+export default PlacePicker;
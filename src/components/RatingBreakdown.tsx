@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { RatingBreakdown as Breakdown } from '../api/ratings';
+
+type RatingBreakdownProps = {
+  breakdown: Breakdown;
+  // Highlights a bar and makes the bars tappable
+  selected?: number | null;
+  onSelect?: (stars: number) => void;
+};
+
+const STAR_VALUES = [5, 4, 3, 2, 1];
+
+/**
+ * A bar per star value, sized by its share of all reviews.
+ */
+const RatingBreakdown: React.FC<RatingBreakdownProps> = ({ breakdown, selected = null, onSelect }) => {
+  const total = STAR_VALUES.reduce((sum, stars) => sum + (breakdown[stars] ?? 0), 0);
+
+  return (
+    <View>
+      {STAR_VALUES.map(stars => {
+        const count = breakdown[stars] ?? 0;
+        const dimmed = selected !== null && selected !== stars;
+        return (
+          <TouchableOpacity
+            key={stars}
+            style={[styles.row, dimmed && styles.dimmed]}
+            onPress={() => onSelect?.(stars)}
+            disabled={!onSelect || count === 0}
+          >
+            <Text style={styles.label}>{stars}</Text>
+            <Ionicons name="star" size={12} color="#f39c12" />
+            <View style={styles.track}>
+              <View style={[styles.bar, { width: total > 0 ? `${(count / total) * 100}%` : 0 }]} />
+            </View>
+            <Text style={styles.count}>{count}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  dimmed: {
+    opacity: 0.4,
+  },
+  label: {
+    width: 12,
+    fontSize: 13,
+    color: '#2c3e50',
+    marginRight: 2,
+  },
+  track: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f2f2f2',
+    marginHorizontal: 8,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f39c12',
+  },
+  count: {
+    width: 28,
+    textAlign: 'right',
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+});
+
+export default RatingBreakdown;
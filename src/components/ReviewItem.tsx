@@ -0,0 +1,117 @@
+import React from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import StarRating from './StarRating';
+import { getDisplayName, getInitials } from '../api/profiles';
+import type { Review } from '../api/ratings';
+
+type ReviewItemProps = {
+  review: Review;
+  onTripPress?: (tripId: string) => void;
+};
+
+/**
+ * One review with the rater, their stars and the trip it was left for.
+ */
+const ReviewItem: React.FC<ReviewItemProps> = ({ review, onTripPress }) => {
+  const rater = { firstname: review.rater_firstname, lastname: review.rater_lastname };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {review.rater_avatar ? (
+          <Image source={{ uri: review.rater_avatar }} style={styles.avatar} />
+        ) : (
+          <View style={styles.initials}>
+            <Text style={styles.initialsText}>{getInitials(rater)}</Text>
+          </View>
+        )}
+        <View style={styles.headerText}>
+          <Text style={styles.name}>{getDisplayName(rater)}</Text>
+          {review.created_at && (
+            <Text style={styles.date}>{format(new Date(review.created_at), 'd MMM yyyy')}</Text>
+          )}
+        </View>
+        <StarRating value={review.rating_value ?? 0} size={14} />
+      </View>
+
+      {!!review.comment && <Text style={styles.comment}>{review.comment}</Text>}
+
+      {review.trip_id && (
+        <TouchableOpacity
+          style={styles.tripLink}
+          onPress={() => onTripPress?.(review.trip_id)}
+          disabled={!onTripPress}
+        >
+          <Ionicons name="car-outline" size={14} color="#3498db" />
+          <Text style={styles.tripLinkText} numberOfLines={1}>{review.trip_title || 'View trip'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f2f2f2',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+  },
+  initials: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  initialsText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  headerText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  date: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  comment: {
+    fontSize: 14,
+    color: '#2c3e50',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  tripLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  tripLinkText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#3498db',
+    flexShrink: 1,
+  },
+});
+
+export default ReviewItem;
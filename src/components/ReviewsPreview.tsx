@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import ReviewItem from './ReviewItem';
+import { useReviews } from '../hooks/use-ratings';
+
+type ReviewsPreviewProps = {
+  userId: string | undefined;
+  emptyText: string;
+  onSeeAll: () => void;
+  onTripPress: (tripId: string) => void;
+};
+
+/**
+ * The latest reviews a traveller received, a page at a time, with a link
+ * to the full reviews screen.
+ */
+const ReviewsPreview: React.FC<ReviewsPreviewProps> = ({ userId, emptyText, onSeeAll, onTripPress }) => {
+  const reviewsQuery = useReviews(userId);
+  const reviews = useMemo(() => reviewsQuery.data?.pages.flatMap(page => page.reviews) ?? [], [reviewsQuery.data]);
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Reviews</Text>
+        {reviews.length > 0 && (
+          <TouchableOpacity onPress={onSeeAll}>
+            <Text style={styles.linkText}>See all</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {reviewsQuery.isLoading ? (
+        <ActivityIndicator size="small" color="#3498db" style={styles.loader} />
+      ) : reviews.length === 0 ? (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      ) : (
+        <>
+          {reviews.map(review => (
+            <ReviewItem key={review.id} review={review} onTripPress={onTripPress} />
+          ))}
+          {reviewsQuery.hasNextPage && (
+            <TouchableOpacity
+              style={styles.moreButton}
+              onPress={() => reviewsQuery.fetchNextPage()}
+              disabled={reviewsQuery.isFetchingNextPage}
+            >
+              {reviewsQuery.isFetchingNextPage ? (
+                <ActivityIndicator size="small" color="#3498db" />
+              ) : (
+                <Text style={styles.linkText}>Show more reviews</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  linkText: {
+    color: '#3498db',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 8,
+  },
+  moreButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+});
+
+export default ReviewsPreview;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, StyleSheet, Switch } from 'react-native';
+import InputField from './InputField';
+import FilterChip from './FilterChip';
+import { currencies } from '../lib/currencies';
+import { RideDetails, RidePreference, ridePreferenceLabels } from '../lib/rideDetails';
+
+type RideDetailsFormProps = {
+  value: RideDetails;
+  onChange: (changes: Partial<RideDetails>) => void;
+  errors: { [key: string]: string };
+};
+
+const preferences: RidePreference[] = ['automaticApproval', 'keepMiddleSeatFree', 'avoidHighways', 'avoidTolls'];
+
+const RideDetailsForm: React.FC<RideDetailsFormProps> = ({ value, onChange, errors }) => {
+  return (
+    <View>
+      <InputField
+        label="Price per Seat"
+        value={value.pricePerSeat}
+        onChangeText={pricePerSeat => onChange({ pricePerSeat })}
+        placeholder="Leave empty or enter 0 for a free ride"
+        keyboardType="numeric"
+        error={errors.pricePerSeat}
+      />
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Currency</Text>
+        <View style={styles.currencyRow}>
+          {currencies.map(currency => (
+            <FilterChip
+              key={currency.code}
+              label={`${currency.symbol} ${currency.code}`}
+              selected={value.currency === currency.code}
+              onPress={() => onChange({ currency: currency.code })}
+            />
+          ))}
+        </View>
+        {errors.currency && <Text style={styles.errorText}>{errors.currency}</Text>}
+      </View>
+
+      <InputField
+        label="Budget per Person (optional)"
+        value={value.budget}
+        onChangeText={budget => onChange({ budget })}
+        placeholder="Expected total cost for fuel, stays, activities..."
+        keyboardType="numeric"
+        error={errors.budget}
+      />
+
+      <InputField
+        label="Leaving Cutoff (hours before departure)"
+        value={value.leaveCutoffHours}
+        onChangeText={leaveCutoffHours => onChange({ leaveCutoffHours })}
+        placeholder="24"
+        keyboardType="numeric"
+        error={errors.leaveCutoffHours}
+      />
+
+      {preferences.map(preference => (
+        <View key={preference} style={styles.toggleRow}>
+          <View style={styles.toggleText}>
+            <Text style={styles.toggleLabel}>{ridePreferenceLabels[preference].label}</Text>
+            <Text style={styles.toggleDescription}>{ridePreferenceLabels[preference].description}</Text>
+          </View>
+          <Switch
+            value={value[preference]}
+            onValueChange={enabled => onChange({ [preference]: enabled })}
+            trackColor={{ false: '#ddd', true: '#3498db' }}
+          />
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>Join Requirements</Text>
+
+      <InputField
+        label="Minimum Rating (optional)"
+        value={value.minRating}
+        onChangeText={minRating => onChange({ minRating })}
+        placeholder="Leave empty to accept any rating, e.g. 4.5"
+        keyboardType="numeric"
+        error={errors.minRating}
+      />
+
+      <View style={styles.toggleRow}>
+        <View style={styles.toggleText}>
+          <Text style={styles.toggleLabel}>Require a complete profile</Text>
+          <Text style={styles.toggleDescription}>Applicants need a name, photo and bio</Text>
+        </View>
+        <Switch
+          value={value.requireCompleteProfile}
+          onValueChange={requireCompleteProfile => onChange({ requireCompleteProfile })}
+          trackColor={{ false: '#ddd', true: '#3498db' }}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  formGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+    color: '#333',
+    fontWeight: '500',
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleLabel: {
+    fontSize: 15,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  toggleDescription: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+});
+
+export default RideDetailsForm;
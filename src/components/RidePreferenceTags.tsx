@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { Tables } from '../integrations/supabase/types';
+import { RidePreference, activeRidePreferences, ridePreferenceLabels } from '../lib/rideDetails';
+
+type RidePreferenceTagsProps = {
+  trip: Pick<Tables<'trips'>, 'automatic_approval' | 'keep_middle_seat_free' | 'avoid_highways' | 'avoid_tolls'>;
+  // Icons only, for trip cards
+  compact?: boolean;
+};
+
+const preferenceIcons: Record<RidePreference, React.ComponentProps<typeof Ionicons>['name']> = {
+  automaticApproval: 'flash-outline',
+  keepMiddleSeatFree: 'resize-outline',
+  avoidHighways: 'trail-sign-outline',
+  avoidTolls: 'card-outline',
+};
+
+const RidePreferenceTags: React.FC<RidePreferenceTagsProps> = ({ trip, compact = false }) => {
+  const preferences = activeRidePreferences(trip);
+  if (preferences.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {preferences.map(preference => (
+        <View key={preference} style={[styles.tag, compact && styles.compactTag]}>
+          <Ionicons name={preferenceIcons[preference]} size={compact ? 14 : 16} color="#3498db" />
+          {!compact && <Text style={styles.tagText}>{ridePreferenceLabels[preference].label}</Text>}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ebf5fb',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  compactTag: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    marginRight: 4,
+    marginBottom: 0,
+  },
+  tagText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#2c3e50',
+  },
+});
+
+export default RidePreferenceTags;
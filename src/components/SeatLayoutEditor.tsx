@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FilterChip from './FilterChip';
+import SeatMap from './SeatMap';
+import {
+  MAX_SEATS_PER_ROW,
+  MAX_SEAT_ROWS,
+  SeatRows,
+  getSeatCapacity,
+  seatLayoutPresets,
+} from '../lib/seatLayout';
+
+type SeatLayoutEditorProps = {
+  value: SeatRows | null;
+  onChange: (rows: SeatRows | null) => void;
+  keepMiddleSeatFree: boolean;
+  error?: string;
+};
+
+/**
+ * Lets the organizer start from a common vehicle and adjust the seats in
+ * each row, with a live preview of the seat map.
+ */
+const SeatLayoutEditor: React.FC<SeatLayoutEditorProps> = ({ value, onChange, keepMiddleSeatFree, error }) => {
+  const setRowSeats = (index: number, seats: number) => {
+    onChange(value.map((current, i) => (i === index ? seats : current)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View>
+      <View style={styles.presets}>
+        <FilterChip label="No layout" selected={!value} onPress={() => onChange(null)} />
+        {seatLayoutPresets.map(preset => (
+          <FilterChip
+            key={preset.label}
+            label={preset.label}
+            selected={String(value) === String(preset.rows)}
+            onPress={() => onChange(preset.rows)}
+          />
+        ))}
+      </View>
+
+      {value && (
+        <>
+          {value.map((seats, index) => (
+            <View key={index} style={styles.rowEditor}>
+              <Text style={styles.rowLabel}>{index === 0 ? 'Front row' : `Row ${index + 1}`}</Text>
+              <TouchableOpacity
+                onPress={() => setRowSeats(index, seats - 1)}
+                disabled={seats <= 1}
+                style={styles.stepButton}
+              >
+                <Ionicons name="remove-circle-outline" size={24} color={seats <= 1 ? '#ddd' : '#3498db'} />
+              </TouchableOpacity>
+              <Text style={styles.seatCount}>{seats}</Text>
+              <TouchableOpacity
+                onPress={() => setRowSeats(index, seats + 1)}
+                disabled={seats >= MAX_SEATS_PER_ROW}
+                style={styles.stepButton}
+              >
+                <Ionicons
+                  name="add-circle-outline"
+                  size={24}
+                  color={seats >= MAX_SEATS_PER_ROW ? '#ddd' : '#3498db'}
+                />
+              </TouchableOpacity>
+              {index > 0 ? (
+                <TouchableOpacity onPress={() => removeRow(index)} style={styles.stepButton}>
+                  <Ionicons name="trash-outline" size={20} color="#e74c3c" />
+                </TouchableOpacity>
+              ) : (
+                <View style={styles.stepButton} />
+              )}
+            </View>
+          ))}
+
+          {value.length < MAX_SEAT_ROWS && (
+            <TouchableOpacity style={styles.addRowButton} onPress={() => onChange([...value, 3])}>
+              <Ionicons name="add" size={18} color="#3498db" />
+              <Text style={styles.addRowText}>Add row</Text>
+            </TouchableOpacity>
+          )}
+
+          <SeatMap rows={value} keepMiddleSeatFree={keepMiddleSeatFree} />
+
+          <Text style={styles.capacityText}>
+            Takes {getSeatCapacity(value, keepMiddleSeatFree)} people including you
+          </Text>
+        </>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  rowEditor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2c3e50',
+  },
+  stepButton: {
+    width: 32,
+    alignItems: 'center',
+  },
+  seatCount: {
+    width: 24,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  addRowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  addRowText: {
+    marginLeft: 4,
+    color: '#3498db',
+    fontWeight: '500',
+  },
+  capacityText: {
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 8,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
+
+export default SeatLayoutEditor;
@@ -0,0 +1,184 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ProfileSummary, getInitials } from '../api/profiles';
+import { Seat, SeatRows, getSeatRows } from '../lib/seatLayout';
+
+type SeatMapProps = {
+  rows: SeatRows;
+  keepMiddleSeatFree: boolean;
+  // Who sits where, keyed by seat id
+  occupants?: Record<string, ProfileSummary | null>;
+  driver?: ProfileSummary | null;
+  // The current user's seat, drawn highlighted
+  highlightedSeatId?: string | null;
+  // Makes free seats tappable
+  onSelectSeat?: (seatId: string) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Top-down view of the vehicle, front row first. Used as a preview while
+ * editing the layout and to pick a seat on the trip screen.
+ */
+const SeatMap: React.FC<SeatMapProps> = ({
+  rows,
+  keepMiddleSeatFree,
+  occupants = {},
+  driver,
+  highlightedSeatId,
+  onSelectSeat,
+  disabled = false,
+}) => {
+  const renderSeat = (seat: Seat) => {
+    if (seat.kind === 'driver') {
+      return (
+        <View key={seat.id} style={[styles.seat, styles.driverSeat]}>
+          {driver ? (
+            <Text style={styles.occupantText}>{getInitials(driver)}</Text>
+          ) : (
+            <Ionicons name="car-outline" size={18} color="white" />
+          )}
+        </View>
+      );
+    }
+
+    if (seat.kind === 'blocked') {
+      return (
+        <View key={seat.id} style={[styles.seat, styles.blockedSeat]}>
+          <Ionicons name="close" size={18} color="#bdc3c7" />
+        </View>
+      );
+    }
+
+    const occupant = occupants[seat.id];
+    const isTaken = seat.id in occupants;
+    const isHighlighted = seat.id === highlightedSeatId;
+    const canSelect = !!onSelectSeat && !isTaken && !disabled;
+
+    return (
+      <TouchableOpacity
+        key={seat.id}
+        style={[
+          styles.seat,
+          isTaken ? styles.takenSeat : styles.freeSeat,
+          isHighlighted && styles.highlightedSeat,
+        ]}
+        onPress={() => onSelectSeat?.(seat.id)}
+        disabled={!canSelect}
+      >
+        {isTaken ? (
+          <Text style={styles.occupantText}>{getInitials(occupant)}</Text>
+        ) : (
+          <Text style={styles.seatLabel}>{seat.id}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.vehicle}>
+        {getSeatRows(rows, keepMiddleSeatFree).map((row, index) => (
+          <View key={index} style={styles.row}>
+            {row.map(renderSeat)}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.freeSeat]} />
+          <Text style={styles.legendText}>Free</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.takenSeat]} />
+          <Text style={styles.legendText}>Taken</Text>
+        </View>
+        {keepMiddleSeatFree && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.blockedSeat]} />
+            <Text style={styles.legendText}>Kept free</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  vehicle: {
+    alignSelf: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderWidth: 2,
+    borderColor: '#ddd',
+    borderTopLeftRadius: 40,
+    borderTopRightRadius: 40,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+    backgroundColor: 'white',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginVertical: 6,
+  },
+  seat: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  driverSeat: {
+    backgroundColor: '#2c3e50',
+  },
+  freeSeat: {
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#3498db',
+  },
+  takenSeat: {
+    backgroundColor: '#3498db',
+  },
+  blockedSeat: {
+    backgroundColor: '#f0f0f0',
+  },
+  highlightedSeat: {
+    backgroundColor: '#2ecc71',
+  },
+  seatLabel: {
+    fontSize: 12,
+    color: '#3498db',
+    fontWeight: '500',
+  },
+  occupantText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default SeatMap;
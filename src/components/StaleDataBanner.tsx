@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { useOnlineStatus } from '../hooks/use-online-status';
+
+type StaleDataBannerProps = {
+  // dataUpdatedAt of the query whose cached data is on screen
+  updatedAt: number;
+  // Set when the last refetch failed while the device still reports online
+  refreshFailed?: boolean;
+};
+
+/**
+ * Shown above cached content when it couldn't be refreshed, so users know
+ * what they see may be out of date and that changes can't be saved.
+ */
+const StaleDataBanner: React.FC<StaleDataBannerProps> = ({ updatedAt, refreshFailed = false }) => {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline && !refreshFailed) return null;
+
+  const age = updatedAt ? formatDistanceToNow(updatedAt, { addSuffix: true }) : 'earlier';
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name={isOnline ? 'alert-circle-outline' : 'cloud-offline-outline'} size={16} color="#8a6d1f" />
+      <Text style={styles.text}>
+        {isOnline ? "Couldn't refresh" : "You're offline"} · showing data from {age}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fcf3cf',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  text: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#8a6d1f',
+  },
+});
+
+export default StaleDataBanner;
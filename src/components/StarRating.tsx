@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type StarRatingProps = {
+  value: number;
+  // Makes the stars tappable
+  onChange?: (value: number) => void;
+  size?: number;
+  disabled?: boolean;
+};
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * Five stars, filled up to the value. Halves are rounded to the nearest
+ * whole star.
+ */
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 16, disabled = false }) => {
+  const filled = Math.round(value);
+
+  return (
+    <View style={styles.container}>
+      {STARS.map(star => (
+        <TouchableOpacity
+          key={star}
+          onPress={() => onChange?.(star)}
+          disabled={!onChange || disabled}
+          style={onChange && styles.touchable}
+        >
+          <Ionicons name={star <= filled ? 'star' : 'star-outline'} size={size} color="#f39c12" />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  touchable: {
+    paddingHorizontal: 2,
+  },
+});
+
+export default StarRating;
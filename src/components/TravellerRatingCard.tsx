@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, Image } from 'react-native';
+import AppButton from './AppButton';
+import StarRating from './StarRating';
+import { ProfileSummary, getDisplayName, getInitials } from '../api/profiles';
+import type { Rating } from '../api/ratings';
+import { MAX_RATING_COMMENT_LENGTH, ratingLabels } from '../lib/ratings';
+
+type TravellerRatingCardProps = {
+  traveller: ProfileSummary;
+  role: string;
+  // The rating already given on this trip, if any
+  rating: Rating | undefined;
+  onSubmit: (value: number, comment: string) => void;
+  saving?: boolean;
+  // Past the rating window: shows the rating read-only
+  locked?: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * Stars and an optional comment for one co-traveller.
+ */
+const TravellerRatingCard: React.FC<TravellerRatingCardProps> = ({
+  traveller,
+  role,
+  rating,
+  onSubmit,
+  saving = false,
+  locked = false,
+  disabled = false,
+}) => {
+  const [value, setValue] = useState(rating?.rating_value ?? 0);
+  const [comment, setComment] = useState(rating?.comment ?? '');
+
+  // Pick up the saved rating once it loads or after saving
+  useEffect(() => {
+    setValue(rating?.rating_value ?? 0);
+    setComment(rating?.comment ?? '');
+  }, [rating]);
+
+  const changed = value !== (rating?.rating_value ?? 0) || comment.trim() !== (rating?.comment ?? '');
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        {traveller.avatar_url ? (
+          <Image source={{ uri: traveller.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={styles.initials}>
+            <Text style={styles.initialsText}>{getInitials(traveller)}</Text>
+          </View>
+        )}
+        <View style={styles.headerText}>
+          <Text style={styles.name}>{getDisplayName(traveller)}</Text>
+          <Text style={styles.role}>{role}</Text>
+        </View>
+        {rating && <Text style={styles.savedTag}>Rated</Text>}
+      </View>
+
+      <View style={styles.starsRow}>
+        <StarRating value={value} onChange={locked ? undefined : setValue} size={32} />
+        {value > 0 && <Text style={styles.ratingLabel}>{ratingLabels[value]}</Text>}
+      </View>
+
+      {locked ? (
+        !!rating?.comment && <Text style={styles.comment}>{rating.comment}</Text>
+      ) : (
+        <>
+          <TextInput
+            style={styles.input}
+            value={comment}
+            onChangeText={setComment}
+            placeholder="What was it like travelling together? (optional)"
+            multiline
+            maxLength={MAX_RATING_COMMENT_LENGTH}
+          />
+          <AppButton
+            title={rating ? 'Update Rating' : 'Submit Rating'}
+            onPress={() => onSubmit(value, comment)}
+            loading={saving}
+            disabled={disabled || value === 0 || !changed}
+          />
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  initials: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  initialsText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  headerText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  role: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  savedTag: {
+    fontSize: 12,
+    color: '#2ecc71',
+    fontWeight: 'bold',
+  },
+  starsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  ratingLabel: {
+    marginLeft: 12,
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    minHeight: 70,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  comment: {
+    fontSize: 14,
+    color: '#2c3e50',
+    fontStyle: 'italic',
+  },
+});
+
+export default TravellerRatingCard;
@@ -0,0 +1,545 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, TextInput } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import MapView, { Marker } from 'react-native-maps';
+import * as Location from 'expo-location';
+import InputField from './InputField';
+import AppButton from './AppButton';
+import RideDetailsForm from './RideDetailsForm';
+import PlacePicker from './PlacePicker';
+import PlaceAutocomplete from './PlaceAutocomplete';
+import SeatLayoutEditor from './SeatLayoutEditor';
+import { LatLng } from '../lib/geo';
+import { Place, getGeocoder } from '../lib/geocoding';
+import { SeatRows, getSeatCapacity } from '../lib/seatLayout';
+import { DraftWaypoint, TripFormValues, validateTripForm } from '../lib/tripForm';
+
+type TripFormProps = {
+  initialValues: TripFormValues;
+  submitTitle: string;
+  onSubmit: (values: TripFormValues) => void;
+  // Shows a second button that saves without publishing
+  onSaveDraft?: (values: TripFormValues) => void;
+  submitting?: boolean;
+  submitDisabled?: boolean;
+  // Approved riders on an existing trip; seats can't drop below this
+  minParticipants?: number;
+};
+
+const DEFAULT_REGION = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  latitudeDelta: 0.0922,
+  longitudeDelta: 0.0421,
+};
+
+// Keeps sequence_order matching the list position
+const renumber = (waypoints: DraftWaypoint[]) =>
+  waypoints.map((waypoint, index) => ({ ...waypoint, sequence_order: index + 1 }));
+
+/**
+ * Every editable trip field plus the waypoint list. Used by both the create
+ * and edit screens; the caller decides what submitting does.
+ */
+const TripForm: React.FC<TripFormProps> = ({
+  initialValues,
+  submitTitle,
+  onSubmit,
+  onSaveDraft,
+  submitting = false,
+  submitDisabled = false,
+  minParticipants,
+}) => {
+  const [values, setValues] = useState<TripFormValues>(initialValues);
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const [newWaypoint, setNewWaypoint] = useState<Place | null>(null);
+  const [region, setRegion] = useState(() => {
+    const center = initialValues.waypoints[0] ?? initialValues.origin?.location;
+    return center
+      ? { ...DEFAULT_REGION, latitude: center.latitude, longitude: center.longitude }
+      : DEFAULT_REGION;
+  });
+  const [errors, setErrors] = useState<{[key: string]: string}>({});
+
+  const { origin, destination, startDate, endDate, waypoints } = values;
+
+  const update = (changes: Partial<TripFormValues>) => {
+    setValues(current => ({ ...current, ...changes }));
+  };
+
+  const getCurrentLocation = async () => {
+    try {
+      let { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission to access location was denied');
+        return;
+      }
+
+      let location = await Location.getCurrentPositionAsync({});
+      const { latitude, longitude } = location.coords;
+      
+      setRegion({
+        latitude,
+        longitude,
+        latitudeDelta: 0.0922,
+        longitudeDelta: 0.0421,
+      });
+      
+      await pickWaypointAt({ latitude, longitude });
+    } catch (error) {
+      console.log('Error getting location', error);
+      Alert.alert('Error', 'Could not get your current location');
+    }
+  };
+
+  // Waypoints are usually near the start, so the map follows the origin
+  const handleOriginChange = (place: Place | null) => {
+    update({ origin: place });
+    if (place) setRegion(current => ({ ...current, ...place.location }));
+  };
+
+  const handleWaypointChange = (place: Place | null) => {
+    setNewWaypoint(place);
+    if (place) setRegion(current => ({ ...current, ...place.location }));
+  };
+
+  const pickWaypointAt = async (point: LatLng) => {
+    try {
+      const place = await getGeocoder().reverse(point);
+      if (place) setNewWaypoint(place);
+    } catch (error) {
+      console.error('Error looking up location:', error);
+    }
+  };
+
+  const addWaypoint = () => {
+    if (!newWaypoint) {
+      Alert.alert('Error', 'Please search for a place or tap the map');
+      return;
+    }
+    
+    const draft: DraftWaypoint = {
+      id: Date.now().toString(), // temporary id for UI
+      place_id: newWaypoint.place_id,
+      address: newWaypoint.address,
+      latitude: newWaypoint.location.latitude,
+      longitude: newWaypoint.location.longitude,
+      sequence_order: waypoints.length + 1,
+    };
+    
+    update({ waypoints: [...waypoints, draft] });
+    setNewWaypoint(null);
+  };
+
+  const removeWaypoint = (index: number) => {
+    update({ waypoints: renumber(waypoints.filter((_, i) => i !== index)) });
+  };
+
+  const moveWaypoint = (index: number, offset: -1 | 1) => {
+    const reordered = [...waypoints];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    update({ waypoints: renumber(reordered) });
+  };
+
+  // Picking a vehicle fills in how many people it takes
+  const handleSeatRowsChange = (seatRows: SeatRows | null) => {
+    update(seatRows
+      ? { seatRows, maxParticipants: getSeatCapacity(seatRows, values.rideDetails.keepMiddleSeatFree).toString() }
+      : { seatRows });
+  };
+
+  const validate = () => {
+    const newErrors = validateTripForm(values, { minParticipants });
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = () => {
+    if (validate()) onSubmit(values);
+  };
+
+  const handleSaveDraft = () => {
+    if (validate()) onSaveDraft?.(values);
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <View style={styles.formContainer}>
+      <InputField
+        label="Trip Title"
+        value={values.title}
+        onChangeText={title => update({ title })}
+        placeholder="Enter a catchy title for your trip"
+        error={errors.title}
+      />
+      
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>Description</Text>
+        <TextInput
+          style={[styles.textArea, errors.description && styles.inputError]}
+          value={values.description}
+          onChangeText={description => update({ description })}
+          placeholder="Describe your trip, activities, expectations..."
+          multiline
+          numberOfLines={4}
+        />
+        {errors.description && <Text style={styles.errorText}>{errors.description}</Text>}
+      </View>
+      
+      <PlacePicker
+        label="Starting Location"
+        value={origin}
+        onChange={handleOriginChange}
+        placeholder="Search for a city or drop a pin"
+        error={errors.origin}
+        initialLocation={region}
+      />
+      
+      <PlacePicker
+        label="Destination"
+        value={destination}
+        onChange={place => update({ destination: place })}
+        placeholder="Where is the trip heading?"
+        error={errors.destination}
+        initialLocation={origin?.location ?? region}
+        near={origin?.location}
+      />
+      
+      <InputField
+        label="Maximum Participants"
+        value={values.maxParticipants}
+        onChangeText={maxParticipants => update({ maxParticipants })}
+        placeholder="Enter number"
+        keyboardType="numeric"
+        error={errors.maxParticipants}
+      />
+      
+      <View style={styles.datesContainer}>
+        <View style={styles.datePickerContainer}>
+          <Text style={styles.label}>Start Date</Text>
+          <TouchableOpacity
+            style={styles.datePickerButton}
+            onPress={() => setShowStartDatePicker(true)}
+          >
+            <Text>{formatDate(startDate)}</Text>
+            <Ionicons name="calendar-outline" size={20} color="#3498db" />
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.datePickerContainer}>
+          <Text style={styles.label}>End Date</Text>
+          <TouchableOpacity
+            style={styles.datePickerButton}
+            onPress={() => setShowEndDatePicker(true)}
+          >
+            <Text>{formatDate(endDate)}</Text>
+            <Ionicons name="calendar-outline" size={20} color="#3498db" />
+          </TouchableOpacity>
+          {errors.endDate && <Text style={styles.errorText}>{errors.endDate}</Text>}
+        </View>
+      </View>
+
+      {showStartDatePicker && (
+        <DateTimePicker
+          value={startDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={(event, selectedDate) => {
+            setShowStartDatePicker(false);
+            if (selectedDate) update({ startDate: selectedDate });
+          }}
+          minimumDate={new Date()}
+        />
+      )}
+
+      {showEndDatePicker && (
+        <DateTimePicker
+          value={endDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={(event, selectedDate) => {
+            setShowEndDatePicker(false);
+            if (selectedDate) update({ endDate: selectedDate });
+          }}
+          minimumDate={startDate}
+        />
+      )}
+
+      <Text style={styles.sectionTitle}>Ride Details</Text>
+      <Text style={styles.sectionSubtitle}>
+        Set a price if you're offering seats, and how you'd like to travel
+      </Text>
+
+      <RideDetailsForm
+        value={values.rideDetails}
+        onChange={changes => setValues(current => ({
+          ...current,
+          rideDetails: { ...current.rideDetails, ...changes },
+        }))}
+        errors={errors}
+      />
+
+      <Text style={styles.sectionTitle}>Vehicle</Text>
+      <Text style={styles.sectionSubtitle}>
+        Describe your seats so riders can pick one. You drive from the front left.
+      </Text>
+
+      <SeatLayoutEditor
+        value={values.seatRows}
+        onChange={handleSeatRowsChange}
+        keepMiddleSeatFree={values.rideDetails.keepMiddleSeatFree}
+        error={errors.seatRows}
+      />
+
+      <Text style={styles.sectionTitle}>Add Waypoints</Text>
+      <Text style={styles.sectionSubtitle}>
+        Mark locations you plan to visit during your trip
+      </Text>
+      
+      <View style={styles.mapContainer}>
+        <MapView
+          style={styles.map}
+          region={region}
+          onRegionChangeComplete={setRegion}
+          onPress={(e) => pickWaypointAt(e.nativeEvent.coordinate)}
+        >
+          {waypoints.map((waypoint, index) => (
+            <Marker
+              key={waypoint.id}
+              coordinate={{
+                latitude: waypoint.latitude,
+                longitude: waypoint.longitude,
+              }}
+              title={waypoint.address}
+              pinColor={index === 0 ? 'green' : 'red'}
+            />
+          ))}
+          {newWaypoint && (
+            <Marker
+              coordinate={newWaypoint.location}
+              title={newWaypoint.address}
+              pinColor="blue"
+            />
+          )}
+        </MapView>
+        <TouchableOpacity 
+          style={styles.locationButton}
+          onPress={getCurrentLocation}
+        >
+          <Ionicons name="locate" size={24} color="white" />
+        </TouchableOpacity>
+      </View>
+      
+      <View style={styles.waypointForm}>
+        <Text style={styles.label}>Waypoint</Text>
+        <PlaceAutocomplete
+          value={newWaypoint}
+          onChange={handleWaypointChange}
+          placeholder="Search for a place or tap the map"
+          near={origin?.location}
+        />
+        <View style={styles.waypointActions}>
+          <AppButton 
+            title="Add Waypoint" 
+            onPress={addWaypoint}
+            type="secondary"
+          />
+        </View>
+      </View>
+      
+      {waypoints.length > 0 && (
+        <View style={styles.waypointsList}>
+          <Text style={styles.waypointsTitle}>Trip Waypoints:</Text>
+          {waypoints.map((waypoint, index) => (
+            <View key={waypoint.id} style={styles.waypointItem}>
+              <Text style={styles.waypointNumber}>{index + 1}.</Text>
+              <Text style={styles.waypointName}>{waypoint.address}</Text>
+              {index > 0 && (
+                <TouchableOpacity onPress={() => moveWaypoint(index, -1)} style={styles.waypointAction}>
+                  <Ionicons name="arrow-up" size={18} color="#3498db" />
+                </TouchableOpacity>
+              )}
+              {index < waypoints.length - 1 && (
+                <TouchableOpacity onPress={() => moveWaypoint(index, 1)} style={styles.waypointAction}>
+                  <Ionicons name="arrow-down" size={18} color="#3498db" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity 
+                onPress={() => removeWaypoint(index)}
+                style={styles.waypointAction}
+              >
+                <Ionicons name="close" size={18} color="#e74c3c" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+      
+      <AppButton
+        title={submitTitle}
+        onPress={handleSubmit}
+        loading={submitting}
+        disabled={submitDisabled}
+        style={styles.submitButton}
+      />
+      {onSaveDraft && (
+        <AppButton
+          title="Save as Draft"
+          onPress={handleSaveDraft}
+          type="outline"
+          disabled={submitDisabled || submitting}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  formContainer: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  formGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 6,
+    color: '#333',
+    fontWeight: '500',
+  },
+  textArea: {
+    height: 100,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: 'white',
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  datesContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  datePickerContainer: {
+    width: '48%',
+  },
+  datePickerButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    height: 50,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    backgroundColor: 'white',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  inputError: {
+    borderColor: '#e74c3c',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 16,
+  },
+  mapContainer: {
+    height: 300,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  map: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  locationButton: {
+    position: 'absolute',
+    bottom: 16,
+    right: 16,
+    backgroundColor: '#3498db',
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  waypointForm: {
+    marginBottom: 16,
+  },
+  waypointActions: {
+    marginTop: 12,
+  },
+  waypointsList: {
+    marginBottom: 16,
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+  },
+  waypointsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#2c3e50',
+  },
+  waypointItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  waypointNumber: {
+    fontWeight: 'bold',
+    marginRight: 8,
+    color: '#3498db',
+    width: 20,
+  },
+  waypointName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  waypointAction: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  submitButton: {
+    marginTop: 16,
+  },
+});
+
+export default TripForm;
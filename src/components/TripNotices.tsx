@@ -0,0 +1,61 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useDismissTripNotice, useTripNotices } from '../hooks/use-notices';
+
+type TripNoticesProps = {
+  userId: string | undefined;
+};
+
+/**
+ * Lists notices about deleted trips the user was riding on or had asked to
+ * join, each with a button to dismiss it.
+ */
+const TripNotices: React.FC<TripNoticesProps> = ({ userId }) => {
+  const { data: notices = [] } = useTripNotices(userId);
+  const dismiss = useDismissTripNotice(userId);
+
+  if (notices.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {notices.map(notice => (
+        <View key={notice.id} style={styles.notice}>
+          <Ionicons name="information-circle-outline" size={18} color="#2c6e9b" />
+          <Text style={styles.text}>{notice.message}</Text>
+          <TouchableOpacity
+            onPress={() => dismiss.mutate(notice.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel="Dismiss"
+          >
+            <Ionicons name="close" size={18} color="#2c6e9b" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eaf4fb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  text: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 14,
+    color: '#2c6e9b',
+  },
+});
+
+export default TripNotices;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { TripStatus, tripStatusColors, tripStatusLabels } from '../lib/tripLifecycle';
+
+type TripStatusBadgeProps = {
+  status: TripStatus;
+};
+
+const TripStatusBadge: React.FC<TripStatusBadgeProps> = ({ status }) => {
+  const color = tripStatusColors[status];
+
+  return (
+    <View style={[styles.badge, { borderColor: color }]}>
+      <Text style={[styles.text, { color }]}>{tripStatusLabels[status]}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    backgroundColor: 'white',
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default TripStatusBadge;
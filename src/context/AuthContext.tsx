@@ -3,6 +3,9 @@ import React, { createContext, useState, useContext, useEffect } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../integrations/supabase/client';
 import { Alert } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { clearPersistedQueryCache } from '../lib/queryPersistence';
+import { outbox } from '../api/outbox';
 
 type AuthContextType = {
   user: User | null;
@@ -21,6 +24,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -28,6 +32,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
+
+        // Cached data and queued actions belong to the previous user
+        if (event === 'SIGNED_OUT') {
+          queryClient.clear();
+          clearPersistedQueryCache();
+          outbox.clear();
+        }
       }
     );
 
@@ -39,7 +50,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
   const signIn = async (email: string, password: string) => {
     try {
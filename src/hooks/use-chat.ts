@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { InfiniteData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ChatMessage,
+  MessageCursor,
+  MessagePage,
+  ChatInboxRoom,
+  ChatReadMarker,
+  fetchChatInbox,
+  fetchMessagesPage,
+  fetchReadMarkers,
+  getTripChatRoomId,
+  isChatRoomMember,
+  markChatRoomRead,
+  subscribeToInbox,
+  subscribeToMessages,
+  subscribeToReadMarkers,
+} from '../api/chat';
+import { outbox } from '../api/outbox';
+import { createClientId } from '../lib/outbox';
+import { queryKeys } from '../lib/queryKeys';
+import { READ_MARKER_DELAY_MS, getTotalUnread } from '../lib/readReceipts';
+
+export type ChatHistory = InfiniteData<MessagePage>;
+
+// New messages refetch the inbox at most this often
+const INBOX_REFRESH_DELAY_MS = 1000;
+
+/**
+ * Adds a message to the newest page unless a loaded page already has it,
+ * e.g. when the realtime insert and the outbox result race each other.
+ * Without a cached history there is nothing to add to: the first fetch
+ * will include the message.
+ */
+export const appendMessage = (history: ChatHistory | undefined, message: ChatMessage): ChatHistory | undefined => {
+  if (!history || history.pages.some(page => page.messages.some(m => m.id === message.id))) return history;
+  const [newest, ...older] = history.pages;
+  return {
+    ...history,
+    pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+  };
+};
+
+/**
+ * Flattens the pages into one list, oldest first. A refetch can shift
+ * messages across page boundaries, so duplicates are dropped.
+ */
+export const flattenChatHistory = (history: ChatHistory | undefined): ChatMessage[] => {
+  if (!history) return [];
+  const seen = new Set<string>();
+  return [...history.pages].reverse().flatMap(page => page.messages).filter(message => {
+    if (seen.has(message.id)) return false;
+    seen.add(message.id);
+    return true;
+  });
+};
+
+export function useChatRoom(tripId: string, userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.chat.room(tripId, userId ?? ''),
+    queryFn: async () => {
+      const roomId = await getTripChatRoomId(tripId);
+      const isMember = await isChatRoomMember(roomId, userId!);
+      return { roomId, isMember };
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Loads a room's newest messages, with fetchNextPage reaching further back,
+ * and keeps the cache up to date with realtime inserts for as long as the
+ * component is mounted.
+ */
+export function useChatMessages(roomId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.chat.messages(roomId ?? ''),
+    queryFn: ({ pageParam }) => fetchMessagesPage(roomId!, pageParam),
+    initialPageParam: null as MessageCursor | null,
+    getNextPageParam: (lastPage) => lastPage.olderCursor,
+    enabled: !!roomId,
+  });
+
+  useEffect(() => {
+    if (!roomId) return;
+    return subscribeToMessages(roomId, (message) => {
+      queryClient.setQueryData<ChatHistory>(queryKeys.chat.messages(roomId), (history) =>
+        appendMessage(history, message)
+      );
+    });
+  }, [roomId, queryClient]);
+
+  const messages = useMemo(() => flattenChatHistory(query.data), [query.data]);
+
+  return { ...query, messages };
+}
+
+/**
+ * The user's chat rooms with their latest message and unread count.
+ * useChatInboxSync keeps it current.
+ */
+export function useChatInbox(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.chat.inbox(userId ?? ''),
+    queryFn: fetchChatInbox,
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Unread messages across all of the user's rooms, for the tab badge.
+ */
+export function useUnreadChatCount(userId: string | undefined) {
+  const { data = 0 } = useQuery({
+    queryKey: queryKeys.chat.inbox(userId ?? ''),
+    queryFn: fetchChatInbox,
+    enabled: !!userId,
+    select: getTotalUnread,
+  });
+  return data;
+}
+
+/**
+ * Refetches the inbox when a message arrives in one of the user's rooms or
+ * their memberships change. Mounted once while signed in so the tab badge
+ * stays current on every screen.
+ */
+export function useChatInboxSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { data: rooms } = useChatInbox(userId);
+
+  // Joined so the subscription only restarts when the set of rooms changes
+  const roomIds = useMemo(() => (rooms ?? []).map(room => room.room_id).sort().join(','), [rooms]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = subscribeToInbox(userId, roomIds ? roomIds.split(',') : [], () => {
+      // A burst of messages refetches the inbox once
+      if (timeout) return;
+      timeout = setTimeout(() => {
+        timeout = null;
+        queryClient.invalidateQueries({ queryKey: queryKeys.chat.inbox(userId) });
+      }, INBOX_REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, [userId, roomIds, queryClient]);
+}
+
+/**
+ * How far each member has read the room, kept up to date with realtime
+ * marker updates.
+ */
+export function useReadMarkers(roomId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.chat.readMarkers(roomId ?? ''),
+    queryFn: () => fetchReadMarkers(roomId!),
+    enabled: !!roomId,
+  });
+
+  useEffect(() => {
+    if (!roomId) return;
+    return subscribeToReadMarkers(roomId, (marker) => {
+      queryClient.setQueryData<ChatReadMarker[]>(queryKeys.chat.readMarkers(roomId), (markers) => {
+        if (!markers) return markers;
+        // Members who joined after the markers were loaded are added
+        return markers.some(current => current.user_id === marker.user_id)
+          ? markers.map(current => (current.user_id === marker.user_id ? marker : current))
+          : [...markers, marker];
+      });
+    });
+  }, [roomId, queryClient]);
+
+  return query;
+}
+
+/**
+ * Returns a function to call with the send time of the newest message on
+ * screen. Markers only move forward and are batched, so scrolling through
+ * the history sends at most one update every READ_MARKER_DELAY_MS.
+ */
+export function useReportChatRead(roomId: string | undefined, userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const reported = useRef<string | null>(null);
+  const pending = useRef<string | null>(null);
+  const timeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { mutate } = useMutation({
+    mutationFn: (readAt: string) => markChatRoomRead(roomId!, readAt),
+    onMutate: (readAt) => {
+      // Caught up with the room, so nothing is unread any more
+      queryClient.setQueryData<ChatInboxRoom[]>(queryKeys.chat.inbox(userId ?? ''), (rooms) =>
+        rooms?.map(room =>
+          room.room_id === roomId && room.last_message_sent_at && new Date(readAt) >= new Date(room.last_message_sent_at)
+            ? { ...room, unread_count: 0 }
+            : room
+        )
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.inbox(userId ?? '') });
+    },
+  });
+
+  const flush = useCallback(() => {
+    timeout.current = null;
+    if (!roomId || !pending.current) return;
+    reported.current = pending.current;
+    pending.current = null;
+    mutate(reported.current);
+  }, [roomId, mutate]);
+
+  // Send what is still waiting when the chat closes
+  useEffect(() => () => {
+    if (!timeout.current) return;
+    clearTimeout(timeout.current);
+    flush();
+  }, [flush]);
+
+  return useCallback((sentAt: string) => {
+    const latest = pending.current ?? reported.current;
+    if (latest && new Date(latest) >= new Date(sentAt)) return;
+    pending.current = sentAt;
+    if (!timeout.current) timeout.current = setTimeout(flush, READ_MARKER_DELAY_MS);
+  }, [flush]);
+}
+
+/**
+ * Queues a message in the outbox under a client-generated id. Until it is
+ * delivered, usePendingMessages exposes it for the chat to render.
+ */
+export function useSendMessage(roomId: string | undefined, senderId: string | undefined) {
+  return useMutation({
+    mutationFn: (text: string) =>
+      outbox.enqueue({
+        type: 'send_message',
+        messageId: createClientId(),
+        roomId: roomId!,
+        senderId: senderId!,
+        text,
+      }),
+  });
+}
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import * as Location from 'expo-location';
+import { LatLng } from '../lib/geo';
+
+export function useDeviceLocation() {
+  const [location, setLocation] = useState<LatLng | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestLocation = useCallback(async (): Promise<LatLng | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Permission to access location was denied');
+        return null;
+      }
+
+      const position = await Location.getCurrentPositionAsync({});
+      const coords = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
+      setLocation(coords);
+      return coords;
+    } catch (error) {
+      console.log('Error getting location', error);
+      setError('Could not get your current location');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { location, loading, error, requestLocation };
+}
@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { TripNotice, dismissTripNotice, fetchTripNotices } from '../api/notices';
+import { queryKeys } from '../lib/queryKeys';
+
+export function useTripNotices(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.notices.list(userId ?? ''),
+    queryFn: fetchTripNotices,
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Hides a notice straight away and restores it if dismissing fails.
+ */
+export function useDismissTripNotice(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const noticesKey = queryKeys.notices.list(userId ?? '');
+
+  return useMutation({
+    mutationFn: dismissTripNotice,
+    onMutate: async (noticeId) => {
+      await queryClient.cancelQueries({ queryKey: noticesKey });
+      const previous = queryClient.getQueryData<TripNotice[]>(noticesKey);
+      queryClient.setQueryData<TripNotice[]>(noticesKey, (notices) =>
+        notices?.filter(notice => notice.id !== noticeId)
+      );
+      return { previous };
+    },
+    onError: (error, noticeId, context) => {
+      queryClient.setQueryData(noticesKey, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: noticesKey });
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+/**
+ * Tracks TanStack Query's online state, which follows NetInfo (see
+ * watchConnectivity). Queries pause while offline.
+ */
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    onlineManager.subscribe.bind(onlineManager),
+    () => onlineManager.isOnline(),
+    () => true
+  );
+}
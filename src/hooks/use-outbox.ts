@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { outbox } from '../api/outbox';
+import { ChatMessageRow } from '../api/chat';
+import { Profile } from '../api/profiles';
+import { OutboxItem, OutboxOperation } from '../lib/outbox';
+import { queryKeys } from '../lib/queryKeys';
+import { ChatHistory, appendMessage } from './use-chat';
+
+type OutboxItemOf<T extends OutboxOperation['type']> = OutboxItem & {
+  operation: Extract<OutboxOperation, { type: T }>;
+};
+
+const isOfType = <T extends OutboxOperation['type']>(item: OutboxItem, type: T): item is OutboxItemOf<T> =>
+  item.operation.type === type;
+
+export function useOutboxItems() {
+  return useSyncExternalStore(outbox.subscribe, outbox.getItems, outbox.getItems);
+}
+
+export function usePendingJoin(tripId: string, userId: string | undefined) {
+  const items = useOutboxItems();
+  return items.find(
+    (item): item is OutboxItemOf<'join_trip'> =>
+      isOfType(item, 'join_trip') && item.operation.tripId === tripId && item.operation.userId === userId
+  );
+}
+
+export function usePendingMessages(roomId: string | undefined) {
+  const items = useOutboxItems();
+  return useMemo(
+    () => items.filter(
+      (item): item is OutboxItemOf<'send_message'> =>
+        isOfType(item, 'send_message') && item.operation.roomId === roomId
+    ),
+    [items, roomId]
+  );
+}
+
+export function usePendingProfileUpdate(userId: string | undefined) {
+  const items = useOutboxItems();
+  return items.find(
+    (item): item is OutboxItemOf<'update_profile'> =>
+      isOfType(item, 'update_profile') && item.operation.userId === userId
+  );
+}
+
+/**
+ * Replays the outbox on mount and whenever the connection comes back, and
+ * folds every sent operation into the query cache.
+ */
+export function useOutboxSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const unsubscribeSent = outbox.onSent((item, result) => {
+      const { operation } = item;
+
+      switch (operation.type) {
+        case 'join_trip':
+          queryClient.invalidateQueries({ queryKey: queryKeys.trips.participants(operation.tripId) });
+          queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(operation.userId) });
+          // Automatic approval takes a seat and joins the chat right away
+          if (result === 'approved') {
+            queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+            queryClient.invalidateQueries({ queryKey: queryKeys.chat.room(operation.tripId, operation.userId) });
+          }
+          break;
+
+        case 'send_message': {
+          const row = result as ChatMessageRow;
+          queryClient.setQueryData<ChatHistory>(queryKeys.chat.messages(operation.roomId), (history) =>
+            appendMessage(history, { ...row, sender: null })
+          );
+          break;
+        }
+
+        case 'update_profile':
+          queryClient.setQueryData<Profile>(queryKeys.profiles.detail(operation.userId), result as Profile);
+          // Names and avatars are embedded in trip details and chat senders
+          queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'detail'] });
+          queryClient.invalidateQueries({ queryKey: [...queryKeys.chat.all, 'messages'] });
+          break;
+      }
+    });
+
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) outbox.flush();
+    });
+
+    outbox.flush();
+
+    return () => {
+      unsubscribeSent();
+      unsubscribeOnline();
+    };
+  }, [queryClient]);
+}
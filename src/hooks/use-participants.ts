@@ -0,0 +1,155 @@
+import { InfiniteData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Participant,
+  applyForTrip,
+  approveParticipant,
+  chooseSeat,
+  fetchParticipants,
+  joinWaitlist,
+  leaveTrip,
+  rejectParticipant,
+  removeParticipant,
+} from '../api/participants';
+import { TripPage } from '../api/trips';
+import { outbox } from '../api/outbox';
+import { queryKeys } from '../lib/queryKeys';
+
+export function useTripParticipants(tripId: string) {
+  return useQuery({
+    queryKey: queryKeys.trips.participants(tripId),
+    queryFn: () => fetchParticipants(tripId),
+  });
+}
+
+/**
+ * Queues a join request in the outbox. The mutation settles as soon as the
+ * request is stored; usePendingJoin reports its delivery status.
+ */
+export function useApplyForTrip(tripId: string, userId: string | undefined) {
+  return useMutation({
+    mutationFn: () => outbox.enqueue({ type: 'join_trip', tripId, userId: userId! }),
+  });
+}
+
+/**
+ * Approves a participant, optimistically marking them approved in the
+ * trip's participant list and bumping the count shown in the trips list.
+ */
+export function useApproveParticipant(tripId: string) {
+  const queryClient = useQueryClient();
+  const participantsKey = queryKeys.trips.participants(tripId);
+
+  return useMutation({
+    mutationFn: (userId: string) => approveParticipant(tripId, userId),
+    onMutate: async (userId) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: participantsKey }),
+        queryClient.cancelQueries({ queryKey: queryKeys.trips.lists() }),
+      ]);
+
+      const previousParticipants = queryClient.getQueryData<Participant[]>(participantsKey);
+      const previousTrips = queryClient.getQueriesData<InfiniteData<TripPage>>({ queryKey: queryKeys.trips.lists() });
+
+      queryClient.setQueryData<Participant[]>(participantsKey, (participants) =>
+        participants?.map(p => (p.user_id === userId ? { ...p, approved: true } : p))
+      );
+      queryClient.setQueriesData<InfiniteData<TripPage>>({ queryKey: queryKeys.trips.lists() }, (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            trips: page.trips.map(trip =>
+              trip.id === tripId ? { ...trip, participant_count: trip.participant_count + 1 } : trip
+            ),
+          })),
+        }
+      );
+
+      return { previousParticipants, previousTrips };
+    },
+    onError: (error, userId, context) => {
+      queryClient.setQueryData(participantsKey, context?.previousParticipants);
+      context?.previousTrips.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSettled: (data, error, userId) => {
+      queryClient.invalidateQueries({ queryKey: participantsKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(userId) });
+    },
+  });
+}
+
+export function useRejectParticipant(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => rejectParticipant(tripId, userId),
+    onSuccess: (data, userId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.participants(tripId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(userId) });
+    },
+  });
+}
+
+/**
+ * Removes a participant. Someone from the waitlist may be promoted into the
+ * freed seat, so counts are refetched rather than adjusted locally.
+ */
+export function useRemoveParticipant(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => removeParticipant(tripId, userId),
+    onSuccess: (data, userId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.participants(tripId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(userId) });
+    },
+  });
+}
+
+export function useJoinWaitlist(tripId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => joinWaitlist(tripId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.participants(tripId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(userId) });
+    },
+  });
+}
+
+export function useLeaveTrip(tripId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => leaveTrip(tripId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.participants(tripId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(userId) });
+      queryClient.removeQueries({ queryKey: queryKeys.chat.room(tripId, userId) });
+    },
+  });
+}
+
+export function useChooseSeat(tripId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const participantsKey = queryKeys.trips.participants(tripId);
+
+  return useMutation({
+    mutationFn: (seatId: string) => chooseSeat(tripId, seatId),
+    onSuccess: (data, seatId) => {
+      queryClient.setQueryData<Participant[]>(participantsKey, (participants) =>
+        participants?.map(p => (p.user_id === userId ? { ...p, seat_id: seatId } : p))
+      );
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: participantsKey });
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Profile, ProfileUpdate, fetchProfile, fetchPublicProfile } from '../api/profiles';
+import { outbox } from '../api/outbox';
+import { queryKeys } from '../lib/queryKeys';
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profiles.detail(userId ?? ''),
+    queryFn: () => fetchProfile(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function usePublicProfile(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.profiles.public(userId),
+    queryFn: () => fetchPublicProfile(userId),
+  });
+}
+
+/**
+ * Applies profile changes to the cache straight away and queues them in the
+ * outbox. They are sent only if the profile hasn't changed elsewhere since
+ * it was loaded; otherwise the outbox item becomes conflicted.
+ */
+export function useUpdateProfile(userId: string) {
+  const queryClient = useQueryClient();
+  const profileKey = queryKeys.profiles.detail(userId);
+
+  return useMutation({
+    mutationFn: (changes: ProfileUpdate) => {
+      // Fold the changes into an edit that is still waiting, so the second
+      // edit isn't reported as conflicting with the first
+      const queued = outbox.getItems().find(item =>
+        item.operation.type === 'update_profile' && item.operation.userId === userId && item.status !== 'sending'
+      );
+      if (queued?.operation.type === 'update_profile') {
+        outbox.discard(queued.id);
+        return outbox.enqueue({
+          ...queued.operation,
+          changes: { ...queued.operation.changes, ...changes },
+        });
+      }
+
+      const baseModifiedOn = queryClient.getQueryData<Profile>(profileKey)?.modified_on ?? null;
+      return outbox.enqueue({ type: 'update_profile', userId, changes, baseModifiedOn });
+    },
+    onSuccess: async (item, changes) => {
+      await queryClient.cancelQueries({ queryKey: profileKey });
+      queryClient.setQueryData<Profile>(profileKey, (profile) =>
+        profile ? { ...profile, ...changes } : profile
+      );
+    },
+  });
+}
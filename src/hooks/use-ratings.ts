@@ -0,0 +1,56 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  RatingInput,
+  ReviewCursor,
+  fetchRatingBreakdown,
+  fetchReviewsPage,
+  fetchTripRatingsBy,
+  submitRating,
+} from '../api/ratings';
+import { queryKeys } from '../lib/queryKeys';
+
+export function useTripRatingsBy(tripId: string, raterId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.ratings.tripBy(tripId, raterId ?? ''),
+    queryFn: () => fetchTripRatingsBy(tripId, raterId!),
+    enabled: !!raterId,
+  });
+}
+
+export function useReviews(userId: string | undefined, stars: number | null = null) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.ratings.reviews(userId ?? '', stars),
+    queryFn: ({ pageParam }) => fetchReviewsPage({ userId: userId!, stars, cursor: pageParam }),
+    initialPageParam: null as ReviewCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userId,
+  });
+}
+
+export function useRatingBreakdown(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.ratings.breakdown(userId ?? ''),
+    queryFn: () => fetchRatingBreakdown(userId!),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Saves a rating and refreshes everything that shows the rated traveller's
+ * average and reviews: their profile, trip participant lists and trip
+ * organizers.
+ */
+export function useSubmitRating(tripId: string, raterId: string) {
+  const queryClient = useQueryClient();
+  const ratingsKey = queryKeys.ratings.tripBy(tripId, raterId);
+
+  return useMutation({
+    mutationFn: (input: Omit<RatingInput, 'tripId' | 'raterId'>) => submitRating({ ...input, tripId, raterId }),
+    onSuccess: (data, { ratedId }) => {
+      queryClient.invalidateQueries({ queryKey: ratingsKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.ratings.user(ratedId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.detail(ratedId) });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'detail'] });
+    },
+  });
+}
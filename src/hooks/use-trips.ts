@@ -0,0 +1,196 @@
+import { InfiniteData, QueryClient, keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Trip,
+  TripCursor,
+  TripEdit,
+  TripInput,
+  TripPage,
+  TripWithOrganizer,
+  cancelTrip,
+  createTrip,
+  deleteTrip,
+  fetchTrip,
+  fetchOrganizedTrips,
+  fetchSharedTrips,
+  fetchTripsPage,
+  fetchUserTrips,
+  publishTrip,
+  saveTripEdit,
+} from '../api/trips';
+import { WaypointInput, fetchWaypoints, createWaypoints } from '../api/waypoints';
+import { TripSearchFilters, TripSearchResult, searchTrips } from '../lib/tripSearch';
+import { queryKeys } from '../lib/queryKeys';
+
+export function useTrips({ includePast = false }: { includePast?: boolean } = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.trips.list({ includePast }),
+    queryFn: ({ pageParam }) => fetchTripsPage({ cursor: pageParam, includePast }),
+    initialPageParam: null as TripCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+export function useTripSearch(filters: TripSearchFilters) {
+  return useQuery({
+    queryKey: queryKeys.trips.search(filters),
+    queryFn: () => searchTrips(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useTrip(tripId: string) {
+  return useQuery({
+    queryKey: queryKeys.trips.detail(tripId),
+    queryFn: () => fetchTrip(tripId),
+  });
+}
+
+export function useOrganizedTrips(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.trips.organized(userId),
+    queryFn: () => fetchOrganizedTrips(userId),
+  });
+}
+
+export function useSharedTrips(userId: string, viewerId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.trips.shared(userId, viewerId ?? ''),
+    queryFn: () => fetchSharedTrips(userId),
+    enabled: !!viewerId && viewerId !== userId,
+  });
+}
+
+export function useTripWaypoints(tripId: string) {
+  return useQuery({
+    queryKey: queryKeys.trips.waypoints(tripId),
+    queryFn: () => fetchWaypoints(tripId),
+  });
+}
+
+export function useUserTrips(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.trips.user(userId ?? ''),
+    queryFn: () => fetchUserTrips(userId!),
+    enabled: !!userId,
+  });
+}
+
+type CreateTripVariables = {
+  trip: TripInput;
+  waypoints: WaypointInput[];
+};
+
+export function useCreateTrip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ trip, waypoints }: CreateTripVariables): Promise<Trip> => {
+      const created = await createTrip(trip);
+      await createWaypoints(created.id, waypoints);
+      return created;
+    },
+    onSuccess: (trip) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'search'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(trip.organizer_id) });
+    },
+  });
+}
+
+/**
+ * Saves an edit of the trip and its waypoints and announces it in the trip
+ * chat, all in one request.
+ */
+export function useUpdateTrip(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (edit: TripEdit) => saveTripEdit(tripId, edit),
+    onSuccess: (trip, { announcement }) => {
+      queryClient.setQueryData<TripWithOrganizer>(queryKeys.trips.detail(tripId), (current) =>
+        current ? { ...current, ...trip } : current
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.waypoints(tripId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'search'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(trip.organizer_id) });
+      if (announcement) {
+        queryClient.invalidateQueries({ queryKey: [...queryKeys.chat.all, 'messages'] });
+      }
+    },
+  });
+}
+
+export function usePublishTrip(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => publishTrip(tripId),
+    onSuccess: (trip) => {
+      queryClient.setQueryData<TripWithOrganizer>(queryKeys.trips.detail(tripId), (current) =>
+        current ? { ...current, ...trip } : current
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'search'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.user(trip.organizer_id) });
+    },
+  });
+}
+
+// Drops a trip from every cached list and search result
+const removeTripFromLists = (queryClient: QueryClient, tripId: string) => {
+  queryClient.setQueriesData<InfiniteData<TripPage>>({ queryKey: queryKeys.trips.lists() }, (data) =>
+    data && {
+      ...data,
+      pages: data.pages.map(page => ({ ...page, trips: page.trips.filter(trip => trip.id !== tripId) })),
+    }
+  );
+  queryClient.setQueriesData<TripSearchResult[]>({ queryKey: [...queryKeys.trips.all, 'search'] }, (results) =>
+    results?.filter(trip => trip.id !== tripId)
+  );
+};
+
+/**
+ * Soft-cancels a trip; the server tells its participants in the trip chat.
+ */
+export function useCancelTrip(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reason: string) => cancelTrip(tripId, reason),
+    onSuccess: (trip) => {
+      queryClient.setQueryData<TripWithOrganizer>(queryKeys.trips.detail(tripId), (current) =>
+        current ? { ...current, ...trip } : current
+      );
+      removeTripFromLists(queryClient, tripId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'user'] });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.chat.all, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.chat.all, 'inbox'] });
+    },
+  });
+}
+
+/**
+ * Deletes a trip for good and forgets everything cached about it. The
+ * server leaves a trip notice for everyone who was on it or asked to join.
+ */
+export function useDeleteTrip(tripId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => deleteTrip(tripId),
+    onSuccess: () => {
+      removeTripFromLists(queryClient, tripId);
+      // Also covers the trip's waypoints and participants
+      queryClient.removeQueries({ queryKey: queryKeys.trips.detail(tripId) });
+      queryClient.removeQueries({ queryKey: [...queryKeys.chat.all, 'room', tripId] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trips.lists() });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'user'] });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'organized'] });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.trips.all, 'shared'] });
+      // The trip's chat room is gone with it
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.chat.all, 'inbox'] });
+    },
+  });
+}
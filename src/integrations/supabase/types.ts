@@ -13,6 +13,7 @@ export type Database = {
         Row: {
           id: string
           message_text: string
+          message_type: string
           room_id: string
           sender_id: string
           sent_at: string | null
@@ -20,6 +21,7 @@ export type Database = {
         Insert: {
           id?: string
           message_text: string
+          message_type?: string
           room_id: string
           sender_id?: string
           sent_at?: string | null
@@ -27,6 +29,7 @@ export type Database = {
         Update: {
           id?: string
           message_text?: string
+          message_type?: string
           room_id?: string
           sender_id?: string
           sent_at?: string | null
@@ -45,18 +48,21 @@ export type Database = {
         Row: {
           is_organizer: boolean
           joined_at: string | null
+          last_read_at: string | null
           room_id: string
           user_id: string
         }
         Insert: {
           is_organizer?: boolean
           joined_at?: string | null
+          last_read_at?: string | null
           room_id: string
           user_id?: string
         }
         Update: {
           is_organizer?: boolean
           joined_at?: string | null
+          last_read_at?: string | null
           room_id?: string
           user_id?: string
         }
@@ -108,6 +114,7 @@ export type Database = {
           modified_on: string | null
           rating_average: number | null
           rating_count: number | null
+          show_age: boolean
         }
         Insert: {
           age?: number | null
@@ -120,6 +127,7 @@ export type Database = {
           modified_on?: string | null
           rating_average?: number | null
           rating_count?: number | null
+          show_age?: boolean
         }
         Update: {
           age?: number | null
@@ -132,6 +140,7 @@ export type Database = {
           modified_on?: string | null
           rating_average?: number | null
           rating_count?: number | null
+          show_age?: boolean
         }
         Relationships: []
       }
@@ -144,6 +153,7 @@ export type Database = {
           rater_id: string
           rating_value: number
           trip_id: string
+          updated_at: string | null
         }
         Insert: {
           comment?: string | null
@@ -153,6 +163,7 @@ export type Database = {
           rater_id: string
           rating_value: number
           trip_id: string
+          updated_at?: string | null
         }
         Update: {
           comment?: string | null
@@ -162,6 +173,7 @@ export type Database = {
           rater_id?: string
           rating_value?: number
           trip_id?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -197,24 +209,57 @@ export type Database = {
         }
         Relationships: []
       }
+      trip_notices: {
+        Row: {
+          created_at: string
+          dismissed_at: string | null
+          id: string
+          message: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_at?: string | null
+          id?: string
+          message: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_at?: string | null
+          id?: string
+          message?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       trip_participants: {
         Row: {
           approved: boolean
           joined_at: string | null
+          rejected_at: string | null
+          seat_id: string | null
           trip_id: string
           user_id: string
+          waitlisted_at: string | null
         }
         Insert: {
           approved?: boolean
           joined_at?: string | null
+          rejected_at?: string | null
+          seat_id?: string | null
           trip_id: string
           user_id?: string
+          waitlisted_at?: string | null
         }
         Update: {
           approved?: boolean
           joined_at?: string | null
+          rejected_at?: string | null
+          seat_id?: string | null
           trip_id?: string
           user_id?: string
+          waitlisted_at?: string | null
         }
         Relationships: [
           {
@@ -273,6 +318,8 @@ export type Database = {
           avoid_highways: boolean | null
           avoid_tolls: boolean | null
           budget: number | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
           created_at: string | null
           currency: string | null
           description: string | null
@@ -284,7 +331,9 @@ export type Database = {
           end_date: string
           id: string
           keep_middle_seat_free: boolean | null
+          leave_cutoff_hours: number
           max_participants: number | null
+          min_rating_average: number | null
           organizer_id: string
           origin_address: string | null
           origin_city: string | null
@@ -292,6 +341,9 @@ export type Database = {
           origin_latlon: unknown | null
           origin_place_id: string | null
           price_per_seat: number | null
+          published_at: string | null
+          require_complete_profile: boolean
+          seat_rows: number[] | null
           start_date: string
           title: string | null
         }
@@ -300,6 +352,8 @@ export type Database = {
           avoid_highways?: boolean | null
           avoid_tolls?: boolean | null
           budget?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
           currency?: string | null
           description?: string | null
@@ -311,7 +365,9 @@ export type Database = {
           end_date: string
           id?: string
           keep_middle_seat_free?: boolean | null
+          leave_cutoff_hours?: number
           max_participants?: number | null
+          min_rating_average?: number | null
           organizer_id: string
           origin_address?: string | null
           origin_city?: string | null
@@ -319,6 +375,9 @@ export type Database = {
           origin_latlon?: unknown | null
           origin_place_id?: string | null
           price_per_seat?: number | null
+          published_at?: string | null
+          require_complete_profile?: boolean
+          seat_rows?: number[] | null
           start_date: string
           title?: string | null
         }
@@ -327,6 +386,8 @@ export type Database = {
           avoid_highways?: boolean | null
           avoid_tolls?: boolean | null
           budget?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string | null
           currency?: string | null
           description?: string | null
@@ -338,7 +399,9 @@ export type Database = {
           end_date?: string
           id?: string
           keep_middle_seat_free?: boolean | null
+          leave_cutoff_hours?: number
           max_participants?: number | null
+          min_rating_average?: number | null
           organizer_id?: string
           origin_address?: string | null
           origin_city?: string | null
@@ -346,6 +409,9 @@ export type Database = {
           origin_latlon?: unknown | null
           origin_place_id?: string | null
           price_per_seat?: number | null
+          published_at?: string | null
+          require_complete_profile?: boolean
+          seat_rows?: number[] | null
           start_date?: string
           title?: string | null
         }
@@ -395,6 +461,20 @@ export type Database = {
         }
         Relationships: []
       }
+      public_profiles: {
+        Row: {
+          age: number | null
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          firstname: string | null
+          id: string | null
+          lastname: string | null
+          rating_average: number | null
+          rating_count: number | null
+        }
+        Relationships: []
+      }
       user_ratings: {
         Row: {
           comment: string | null
@@ -405,6 +485,8 @@ export type Database = {
           rater_firstname: string | null
           rater_lastname: string | null
           rating_value: number | null
+          trip_id: string | null
+          trip_title: string | null
         }
         Relationships: []
       }
@@ -653,7 +735,7 @@ export type Database = {
         Args: {
           p_trip_id: string
         }
-        Returns: undefined
+        Returns: string
       }
       approve_participant: {
         Args: {
@@ -688,6 +770,12 @@ export type Database = {
             }
             Returns: unknown
           }
+      assign_open_seats: {
+        Args: {
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
       box2d_in: {
         Args: {
           "": unknown
@@ -756,6 +844,50 @@ export type Database = {
             }
             Returns: string
           }
+      cancel_trip: {
+        Args: {
+          p_trip_id: string
+          p_reason?: string | null
+        }
+        Returns: Database["public"]["Tables"]["trips"]["Row"]
+      }
+      chat_inbox: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          room_id: string
+          trip_id: string
+          trip_title: string
+          last_message_id: string | null
+          last_message_text: string | null
+          last_message_type: string | null
+          last_message_sender_id: string | null
+          last_message_sender_firstname: string | null
+          last_message_sent_at: string | null
+          unread_count: number
+        }[]
+      }
+      chat_read_markers: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: {
+          user_id: string
+          last_read_at: string | null
+        }[]
+      }
+      choose_seat: {
+        Args: {
+          p_trip_id: string
+          p_seat_id: string
+        }
+        Returns: undefined
+      }
+      delete_trip: {
+        Args: {
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
       delete_trip_and_participants: {
         Args: {
           trip_id_to_delete: string
@@ -1261,6 +1393,26 @@ export type Database = {
         }
         Returns: unknown
       }
+      is_chat_room_member: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_trip_member: {
+        Args: {
+          p_trip_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      join_trip_waitlist: {
+        Args: {
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
       json: {
         Args: {
           "": unknown
@@ -1273,10 +1425,23 @@ export type Database = {
         }
         Returns: Json
       }
+      leave_trip: {
+        Args: {
+          p_trip_id: string
+        }
+        Returns: string
+      }
       longtransactionsenabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      mark_chat_room_read: {
+        Args: {
+          p_room_id: string
+          p_read_at?: string
+        }
+        Returns: undefined
+      }
       path: {
         Args: {
           "": unknown
@@ -1535,6 +1700,41 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      promote_from_waitlist: {
+        Args: {
+          p_trip_id: string
+        }
+        Returns: string[]
+      }
+      rating_breakdown: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          rating_value: number
+          total: number
+        }[]
+      }
+      reject_participant: {
+        Args: {
+          p_trip_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      remove_participant: {
+        Args: {
+          p_trip_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      shared_trips: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string[]
+      }
       spheroid_in: {
         Args: {
           "": unknown
@@ -3466,12 +3666,56 @@ export type Database = {
         }
         Returns: string
       }
+      trip_seats: {
+        Args: {
+          p_seat_rows: number[]
+          p_keep_middle_seat_free: boolean
+        }
+        Returns: {
+          seat_id: string
+          is_driver: boolean
+          is_blocked: boolean
+        }[]
+      }
+      trips_along_route: {
+        Args: {
+          p_origin_latitude: number
+          p_origin_longitude: number
+          p_destination_latitude: number
+          p_destination_longitude: number
+          p_max_distance_km: number
+        }
+        Returns: string[]
+      }
+      trips_within_radius: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_km: number
+          p_match?: string
+        }
+        Returns: {
+          trip_id: string
+          origin_distance_km: number
+          destination_distance_km: number
+        }[]
+      }
       unlockrows: {
         Args: {
           "": string
         }
         Returns: number
       }
+      update_trip: {
+        Args: {
+          p_trip_id: string
+          p_changes: Json
+          p_kept_waypoints?: Json
+          p_added_waypoints?: Json
+          p_announcement?: string | null
+        }
+        Returns: Database["public"]["Tables"]["trips"]["Row"]
+      }
       updategeometrysrid: {
         Args: {
           catalogn_name: string
@@ -0,0 +1,14 @@
+import NetInfo from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+
+/**
+ * Drives TanStack Query's online state from NetInfo instead of the browser's
+ * online/offline events, which don't exist on native. Paused queries and the
+ * outbox resume once a connection comes back.
+ */
+export const watchConnectivity = () => {
+  onlineManager.setEventListener(setOnline =>
+    // isConnected is null until the first check, so only a known loss counts
+    NetInfo.addEventListener(state => setOnline(state.isConnected !== false))
+  );
+};
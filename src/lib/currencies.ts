@@ -0,0 +1,33 @@
+export type Currency = {
+  code: string;
+  symbol: string;
+  name: string;
+};
+
+export const currencies: Currency[] = [
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc' },
+  { code: 'PLN', symbol: 'zł', name: 'Polish Złoty' },
+  { code: 'SEK', symbol: 'kr', name: 'Swedish Krona' },
+  { code: 'CAD', symbol: 'CA$', name: 'Canadian Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+];
+
+export const formatPrice = (amount: number, currencyCode: string | null) => {
+  if (amount === 0) return 'Free';
+  const currency = currencies.find(c => c.code === currencyCode);
+  const value = Number.isInteger(amount) ? amount.toString() : amount.toFixed(2);
+  return currency ? `${currency.symbol}${value}` : `${value} ${currencyCode ?? ''}`.trim();
+};
+
+/**
+ * Parses a user-entered amount, accepting a comma as decimal separator.
+ * Returns null for blank input and NaN when the text isn't a number.
+ */
+export const parseAmount = (text: string) => {
+  if (!text.trim()) return null;
+  const normalized = text.trim().replace(',', '.');
+  return /^\d+(\.\d{1,2})?$/.test(normalized) ? parseFloat(normalized) : NaN;
+};
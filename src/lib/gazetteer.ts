@@ -0,0 +1,160 @@
+/**
+ * Bundled list of major cities used by the offline geocoder. Coordinates
+ * are city centres; population (in thousands, metro area where that is the
+ * common figure) only ranks otherwise equal search matches.
+ */
+export type GazetteerCity = {
+  name: string;
+  // Alternative and local spellings matched by search
+  aliases?: string[];
+  region: string | null;
+  country: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+};
+
+export const gazetteer: GazetteerCity[] = [
+  // Austria
+  { name: 'Vienna', aliases: ['Wien'], region: 'Vienna', country: 'Austria', countryCode: 'AT', latitude: 48.2082, longitude: 16.3738, population: 1980 },
+  { name: 'Graz', region: 'Styria', country: 'Austria', countryCode: 'AT', latitude: 47.0707, longitude: 15.4395, population: 295 },
+  { name: 'Salzburg', region: 'Salzburg', country: 'Austria', countryCode: 'AT', latitude: 47.8095, longitude: 13.055, population: 155 },
+  { name: 'Innsbruck', region: 'Tyrol', country: 'Austria', countryCode: 'AT', latitude: 47.2692, longitude: 11.4041, population: 132 },
+  // Belgium
+  { name: 'Brussels', aliases: ['Bruxelles', 'Brussel'], region: 'Brussels-Capital', country: 'Belgium', countryCode: 'BE', latitude: 50.8503, longitude: 4.3517, population: 1220 },
+  { name: 'Antwerp', aliases: ['Antwerpen'], region: 'Flanders', country: 'Belgium', countryCode: 'BE', latitude: 51.2194, longitude: 4.4025, population: 530 },
+  { name: 'Ghent', aliases: ['Gent'], region: 'Flanders', country: 'Belgium', countryCode: 'BE', latitude: 51.0543, longitude: 3.7174, population: 265 },
+  // Croatia
+  { name: 'Zagreb', region: null, country: 'Croatia', countryCode: 'HR', latitude: 45.815, longitude: 15.9819, population: 770 },
+  { name: 'Split', region: 'Split-Dalmatia', country: 'Croatia', countryCode: 'HR', latitude: 43.5081, longitude: 16.4402, population: 160 },
+  // Czechia
+  { name: 'Prague', aliases: ['Praha'], region: 'Prague', country: 'Czechia', countryCode: 'CZ', latitude: 50.0755, longitude: 14.4378, population: 1330 },
+  { name: 'Brno', region: 'South Moravia', country: 'Czechia', countryCode: 'CZ', latitude: 49.1951, longitude: 16.6068, population: 380 },
+  // Denmark
+  { name: 'Copenhagen', aliases: ['København'], region: 'Capital Region', country: 'Denmark', countryCode: 'DK', latitude: 55.6761, longitude: 12.5683, population: 1370 },
+  { name: 'Aarhus', region: 'Central Denmark', country: 'Denmark', countryCode: 'DK', latitude: 56.1629, longitude: 10.2039, population: 285 },
+  // Finland
+  { name: 'Helsinki', region: 'Uusimaa', country: 'Finland', countryCode: 'FI', latitude: 60.1699, longitude: 24.9384, population: 1310 },
+  // France
+  { name: 'Paris', region: 'Île-de-France', country: 'France', countryCode: 'FR', latitude: 48.8566, longitude: 2.3522, population: 11000 },
+  { name: 'Lyon', region: 'Auvergne-Rhône-Alpes', country: 'France', countryCode: 'FR', latitude: 45.764, longitude: 4.8357, population: 2300 },
+  { name: 'Marseille', region: "Provence-Alpes-Côte d'Azur", country: 'France', countryCode: 'FR', latitude: 43.2965, longitude: 5.3698, population: 1870 },
+  { name: 'Toulouse', region: 'Occitanie', country: 'France', countryCode: 'FR', latitude: 43.6047, longitude: 1.4442, population: 1360 },
+  { name: 'Nice', region: "Provence-Alpes-Côte d'Azur", country: 'France', countryCode: 'FR', latitude: 43.7102, longitude: 7.262, population: 1000 },
+  { name: 'Bordeaux', region: 'Nouvelle-Aquitaine', country: 'France', countryCode: 'FR', latitude: 44.8378, longitude: -0.5792, population: 1000 },
+  { name: 'Lille', region: 'Hauts-de-France', country: 'France', countryCode: 'FR', latitude: 50.6292, longitude: 3.0573, population: 1200 },
+  { name: 'Nantes', region: 'Pays de la Loire', country: 'France', countryCode: 'FR', latitude: 47.2184, longitude: -1.5536, population: 970 },
+  { name: 'Strasbourg', region: 'Grand Est', country: 'France', countryCode: 'FR', latitude: 48.5734, longitude: 7.7521, population: 850 },
+  { name: 'Montpellier', region: 'Occitanie', country: 'France', countryCode: 'FR', latitude: 43.6108, longitude: 3.8767, population: 800 },
+  // Germany
+  { name: 'Berlin', region: 'Berlin', country: 'Germany', countryCode: 'DE', latitude: 52.52, longitude: 13.405, population: 3850 },
+  { name: 'Hamburg', region: 'Hamburg', country: 'Germany', countryCode: 'DE', latitude: 53.5511, longitude: 9.9937, population: 1900 },
+  { name: 'Munich', aliases: ['München'], region: 'Bavaria', country: 'Germany', countryCode: 'DE', latitude: 48.1351, longitude: 11.582, population: 1510 },
+  { name: 'Cologne', aliases: ['Köln'], region: 'North Rhine-Westphalia', country: 'Germany', countryCode: 'DE', latitude: 50.9375, longitude: 6.9603, population: 1090 },
+  { name: 'Frankfurt', aliases: ['Frankfurt am Main'], region: 'Hesse', country: 'Germany', countryCode: 'DE', latitude: 50.1109, longitude: 8.6821, population: 775 },
+  { name: 'Stuttgart', region: 'Baden-Württemberg', country: 'Germany', countryCode: 'DE', latitude: 48.7758, longitude: 9.1829, population: 630 },
+  { name: 'Düsseldorf', region: 'North Rhine-Westphalia', country: 'Germany', countryCode: 'DE', latitude: 51.2277, longitude: 6.7735, population: 620 },
+  { name: 'Leipzig', region: 'Saxony', country: 'Germany', countryCode: 'DE', latitude: 51.3397, longitude: 12.3731, population: 620 },
+  { name: 'Dresden', region: 'Saxony', country: 'Germany', countryCode: 'DE', latitude: 51.0504, longitude: 13.7373, population: 565 },
+  { name: 'Hanover', aliases: ['Hannover'], region: 'Lower Saxony', country: 'Germany', countryCode: 'DE', latitude: 52.3759, longitude: 9.732, population: 545 },
+  { name: 'Nuremberg', aliases: ['Nürnberg'], region: 'Bavaria', country: 'Germany', countryCode: 'DE', latitude: 49.4521, longitude: 11.0767, population: 525 },
+  { name: 'Bremen', region: 'Bremen', country: 'Germany', countryCode: 'DE', latitude: 53.0793, longitude: 8.8017, population: 570 },
+  { name: 'Freiburg', aliases: ['Freiburg im Breisgau'], region: 'Baden-Württemberg', country: 'Germany', countryCode: 'DE', latitude: 47.999, longitude: 7.8421, population: 235 },
+  // Greece
+  { name: 'Athens', aliases: ['Athina'], region: 'Attica', country: 'Greece', countryCode: 'GR', latitude: 37.9838, longitude: 23.7275, population: 3150 },
+  { name: 'Thessaloniki', region: 'Central Macedonia', country: 'Greece', countryCode: 'GR', latitude: 40.6401, longitude: 22.9444, population: 1000 },
+  // Hungary
+  { name: 'Budapest', region: null, country: 'Hungary', countryCode: 'HU', latitude: 47.4979, longitude: 19.0402, population: 1750 },
+  // Ireland
+  { name: 'Dublin', region: 'Leinster', country: 'Ireland', countryCode: 'IE', latitude: 53.3498, longitude: -6.2603, population: 1460 },
+  { name: 'Cork', region: 'Munster', country: 'Ireland', countryCode: 'IE', latitude: 51.8985, longitude: -8.4756, population: 225 },
+  // Italy
+  { name: 'Rome', aliases: ['Roma'], region: 'Lazio', country: 'Italy', countryCode: 'IT', latitude: 41.9028, longitude: 12.4964, population: 4300 },
+  { name: 'Milan', aliases: ['Milano'], region: 'Lombardy', country: 'Italy', countryCode: 'IT', latitude: 45.4642, longitude: 9.19, population: 3150 },
+  { name: 'Naples', aliases: ['Napoli'], region: 'Campania', country: 'Italy', countryCode: 'IT', latitude: 40.8518, longitude: 14.2681, population: 3000 },
+  { name: 'Turin', aliases: ['Torino'], region: 'Piedmont', country: 'Italy', countryCode: 'IT', latitude: 45.0703, longitude: 7.6869, population: 2200 },
+  { name: 'Florence', aliases: ['Firenze'], region: 'Tuscany', country: 'Italy', countryCode: 'IT', latitude: 43.7696, longitude: 11.2558, population: 1000 },
+  { name: 'Bologna', region: 'Emilia-Romagna', country: 'Italy', countryCode: 'IT', latitude: 44.4949, longitude: 11.3426, population: 1000 },
+  { name: 'Venice', aliases: ['Venezia'], region: 'Veneto', country: 'Italy', countryCode: 'IT', latitude: 45.4408, longitude: 12.3155, population: 850 },
+  { name: 'Verona', region: 'Veneto', country: 'Italy', countryCode: 'IT', latitude: 45.4384, longitude: 10.9916, population: 260 },
+  // Luxembourg
+  { name: 'Luxembourg', region: null, country: 'Luxembourg', countryCode: 'LU', latitude: 49.6116, longitude: 6.1319, population: 130 },
+  // Netherlands
+  { name: 'Amsterdam', region: 'North Holland', country: 'Netherlands', countryCode: 'NL', latitude: 52.3676, longitude: 4.9041, population: 2480 },
+  { name: 'Rotterdam', region: 'South Holland', country: 'Netherlands', countryCode: 'NL', latitude: 51.9244, longitude: 4.4777, population: 1000 },
+  { name: 'The Hague', aliases: ['Den Haag', "'s-Gravenhage"], region: 'South Holland', country: 'Netherlands', countryCode: 'NL', latitude: 52.0705, longitude: 4.3007, population: 800 },
+  { name: 'Utrecht', region: 'Utrecht', country: 'Netherlands', countryCode: 'NL', latitude: 52.0907, longitude: 5.1214, population: 660 },
+  { name: 'Eindhoven', region: 'North Brabant', country: 'Netherlands', countryCode: 'NL', latitude: 51.4416, longitude: 5.4697, population: 240 },
+  // Norway
+  { name: 'Oslo', region: null, country: 'Norway', countryCode: 'NO', latitude: 59.9139, longitude: 10.7522, population: 1060 },
+  { name: 'Bergen', region: 'Vestland', country: 'Norway', countryCode: 'NO', latitude: 60.3913, longitude: 5.3221, population: 290 },
+  // Poland
+  { name: 'Warsaw', aliases: ['Warszawa'], region: 'Masovia', country: 'Poland', countryCode: 'PL', latitude: 52.2297, longitude: 21.0122, population: 3100 },
+  { name: 'Kraków', aliases: ['Krakow', 'Cracow'], region: 'Lesser Poland', country: 'Poland', countryCode: 'PL', latitude: 50.0647, longitude: 19.945, population: 1500 },
+  { name: 'Wrocław', aliases: ['Wroclaw', 'Breslau'], region: 'Lower Silesia', country: 'Poland', countryCode: 'PL', latitude: 51.1079, longitude: 17.0385, population: 1200 },
+  { name: 'Gdańsk', aliases: ['Gdansk', 'Danzig'], region: 'Pomerania', country: 'Poland', countryCode: 'PL', latitude: 54.352, longitude: 18.6466, population: 1100 },
+  { name: 'Poznań', aliases: ['Poznan'], region: 'Greater Poland', country: 'Poland', countryCode: 'PL', latitude: 52.4064, longitude: 16.9252, population: 1000 },
+  // Portugal
+  { name: 'Lisbon', aliases: ['Lisboa'], region: 'Lisbon', country: 'Portugal', countryCode: 'PT', latitude: 38.7223, longitude: -9.1393, population: 2900 },
+  { name: 'Porto', aliases: ['Oporto'], region: 'Norte', country: 'Portugal', countryCode: 'PT', latitude: 41.1579, longitude: -8.6291, population: 1750 },
+  { name: 'Faro', region: 'Algarve', country: 'Portugal', countryCode: 'PT', latitude: 37.0194, longitude: -7.9304, population: 65 },
+  // Romania
+  { name: 'Bucharest', aliases: ['București', 'Bucuresti'], region: null, country: 'Romania', countryCode: 'RO', latitude: 44.4268, longitude: 26.1025, population: 2300 },
+  { name: 'Cluj-Napoca', aliases: ['Cluj'], region: 'Cluj', country: 'Romania', countryCode: 'RO', latitude: 46.7712, longitude: 23.6236, population: 410 },
+  // Slovakia
+  { name: 'Bratislava', region: 'Bratislava', country: 'Slovakia', countryCode: 'SK', latitude: 48.1486, longitude: 17.1077, population: 475 },
+  // Slovenia
+  { name: 'Ljubljana', region: null, country: 'Slovenia', countryCode: 'SI', latitude: 46.0569, longitude: 14.5058, population: 295 },
+  // Spain
+  { name: 'Madrid', region: 'Community of Madrid', country: 'Spain', countryCode: 'ES', latitude: 40.4168, longitude: -3.7038, population: 6750 },
+  { name: 'Barcelona', region: 'Catalonia', country: 'Spain', countryCode: 'ES', latitude: 41.3874, longitude: 2.1686, population: 5600 },
+  { name: 'Valencia', aliases: ['València'], region: 'Valencian Community', country: 'Spain', countryCode: 'ES', latitude: 39.4699, longitude: -0.3763, population: 1600 },
+  { name: 'Seville', aliases: ['Sevilla'], region: 'Andalusia', country: 'Spain', countryCode: 'ES', latitude: 37.3891, longitude: -5.9845, population: 1500 },
+  { name: 'Bilbao', region: 'Basque Country', country: 'Spain', countryCode: 'ES', latitude: 43.263, longitude: -2.935, population: 1000 },
+  { name: 'Málaga', aliases: ['Malaga'], region: 'Andalusia', country: 'Spain', countryCode: 'ES', latitude: 36.7213, longitude: -4.4214, population: 1000 },
+  { name: 'Zaragoza', region: 'Aragon', country: 'Spain', countryCode: 'ES', latitude: 41.6488, longitude: -0.8891, population: 750 },
+  { name: 'Granada', region: 'Andalusia', country: 'Spain', countryCode: 'ES', latitude: 37.1773, longitude: -3.5986, population: 500 },
+  // Sweden
+  { name: 'Stockholm', region: 'Stockholm', country: 'Sweden', countryCode: 'SE', latitude: 59.3293, longitude: 18.0686, population: 2400 },
+  { name: 'Gothenburg', aliases: ['Göteborg'], region: 'Västra Götaland', country: 'Sweden', countryCode: 'SE', latitude: 57.7089, longitude: 11.9746, population: 1050 },
+  { name: 'Malmö', aliases: ['Malmo'], region: 'Skåne', country: 'Sweden', countryCode: 'SE', latitude: 55.605, longitude: 13.0038, population: 740 },
+  // Switzerland
+  { name: 'Zurich', aliases: ['Zürich'], region: 'Zurich', country: 'Switzerland', countryCode: 'CH', latitude: 47.3769, longitude: 8.5417, population: 1400 },
+  { name: 'Geneva', aliases: ['Genève', 'Genf'], region: 'Geneva', country: 'Switzerland', countryCode: 'CH', latitude: 46.2044, longitude: 6.1432, population: 600 },
+  { name: 'Basel', region: 'Basel-Stadt', country: 'Switzerland', countryCode: 'CH', latitude: 47.5596, longitude: 7.5886, population: 550 },
+  { name: 'Bern', aliases: ['Berne'], region: 'Bern', country: 'Switzerland', countryCode: 'CH', latitude: 46.948, longitude: 7.4474, population: 420 },
+  { name: 'Lausanne', region: 'Vaud', country: 'Switzerland', countryCode: 'CH', latitude: 46.5197, longitude: 6.6323, population: 420 },
+  // United Kingdom
+  { name: 'London', region: 'England', country: 'United Kingdom', countryCode: 'GB', latitude: 51.5072, longitude: -0.1276, population: 9650 },
+  { name: 'Manchester', region: 'England', country: 'United Kingdom', countryCode: 'GB', latitude: 53.4808, longitude: -2.2426, population: 2800 },
+  { name: 'Birmingham', region: 'England', country: 'United Kingdom', countryCode: 'GB', latitude: 52.4862, longitude: -1.8904, population: 2600 },
+  { name: 'Glasgow', region: 'Scotland', country: 'United Kingdom', countryCode: 'GB', latitude: 55.8642, longitude: -4.2518, population: 1700 },
+  { name: 'Edinburgh', region: 'Scotland', country: 'United Kingdom', countryCode: 'GB', latitude: 55.9533, longitude: -3.1883, population: 900 },
+  { name: 'Bristol', region: 'England', country: 'United Kingdom', countryCode: 'GB', latitude: 51.4545, longitude: -2.5879, population: 700 },
+  { name: 'Cardiff', region: 'Wales', country: 'United Kingdom', countryCode: 'GB', latitude: 51.4816, longitude: -3.1791, population: 480 },
+  // Canada
+  { name: 'Toronto', region: 'Ontario', country: 'Canada', countryCode: 'CA', latitude: 43.6532, longitude: -79.3832, population: 6200 },
+  { name: 'Montreal', aliases: ['Montréal'], region: 'Quebec', country: 'Canada', countryCode: 'CA', latitude: 45.5019, longitude: -73.5674, population: 4300 },
+  { name: 'Vancouver', region: 'British Columbia', country: 'Canada', countryCode: 'CA', latitude: 49.2827, longitude: -123.1207, population: 2600 },
+  // United States
+  { name: 'New York', aliases: ['NYC', 'New York City'], region: 'New York', country: 'United States', countryCode: 'US', latitude: 40.7128, longitude: -74.006, population: 19500 },
+  { name: 'Los Angeles', aliases: ['LA'], region: 'California', country: 'United States', countryCode: 'US', latitude: 34.0522, longitude: -118.2437, population: 12900 },
+  { name: 'Chicago', region: 'Illinois', country: 'United States', countryCode: 'US', latitude: 41.8781, longitude: -87.6298, population: 9400 },
+  { name: 'San Francisco', region: 'California', country: 'United States', countryCode: 'US', latitude: 37.7749, longitude: -122.4194, population: 4600 },
+  { name: 'San Jose', region: 'California', country: 'United States', countryCode: 'US', latitude: 37.3382, longitude: -121.8863, population: 2000 },
+  { name: 'Sacramento', region: 'California', country: 'United States', countryCode: 'US', latitude: 38.5816, longitude: -121.4944, population: 2400 },
+  { name: 'San Diego', region: 'California', country: 'United States', countryCode: 'US', latitude: 32.7157, longitude: -117.1611, population: 3300 },
+  { name: 'Seattle', region: 'Washington', country: 'United States', countryCode: 'US', latitude: 47.6062, longitude: -122.3321, population: 4000 },
+  { name: 'Portland', region: 'Oregon', country: 'United States', countryCode: 'US', latitude: 45.5152, longitude: -122.6784, population: 2500 },
+  { name: 'Las Vegas', region: 'Nevada', country: 'United States', countryCode: 'US', latitude: 36.1699, longitude: -115.1398, population: 2300 },
+  { name: 'Denver', region: 'Colorado', country: 'United States', countryCode: 'US', latitude: 39.7392, longitude: -104.9903, population: 3000 },
+  { name: 'Austin', region: 'Texas', country: 'United States', countryCode: 'US', latitude: 30.2672, longitude: -97.7431, population: 2400 },
+  { name: 'Boston', region: 'Massachusetts', country: 'United States', countryCode: 'US', latitude: 42.3601, longitude: -71.0589, population: 4900 },
+  { name: 'Washington', aliases: ['Washington DC', 'DC'], region: 'District of Columbia', country: 'United States', countryCode: 'US', latitude: 38.9072, longitude: -77.0369, population: 6300 },
+  { name: 'Miami', region: 'Florida', country: 'United States', countryCode: 'US', latitude: 25.7617, longitude: -80.1918, population: 6100 },
+  // Australia
+  { name: 'Sydney', region: 'New South Wales', country: 'Australia', countryCode: 'AU', latitude: -33.8688, longitude: 151.2093, population: 5300 },
+  { name: 'Melbourne', region: 'Victoria', country: 'Australia', countryCode: 'AU', latitude: -37.8136, longitude: 144.9631, population: 5100 },
+  { name: 'Brisbane', region: 'Queensland', country: 'Australia', countryCode: 'AU', latitude: -27.4698, longitude: 153.0251, population: 2600 },
+];
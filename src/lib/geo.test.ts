@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { LatLng, haversineDistanceKm, parsePostgisPoint, toPostgisPoint } from './geo';
+
+/**
+ * Hex (E)WKB for a point, as PostgREST returns geography columns. With an
+ * SRID the type carries the 0x20000000 flag and the SRID follows it.
+ */
+const wkbHex = ({ latitude, longitude }: LatLng, { srid = 4326 as number | null, littleEndian = true } = {}) => {
+  const bytes = new Uint8Array(srid === null ? 21 : 25);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, littleEndian ? 1 : 0);
+  view.setUint32(1, srid === null ? 1 : 0x20000001, littleEndian);
+  let offset = 5;
+  if (srid !== null) {
+    view.setUint32(offset, srid, littleEndian);
+    offset += 4;
+  }
+  view.setFloat64(offset, longitude, littleEndian);
+  view.setFloat64(offset + 8, latitude, littleEndian);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+const santiago = { latitude: -33.4489, longitude: -70.6693 };
+
+describe('parsePostgisPoint', () => {
+  it.each<[string, unknown, LatLng]>([
+    ['EWKB written by hand', '0101000020E6100000000000000000F03F0000000000000040', { latitude: 2, longitude: 1 }],
+    ['EWKB, little endian', wkbHex(paris), paris],
+    ['EWKB in upper case', wkbHex(paris).toUpperCase(), paris],
+    ['EWKB, big endian', wkbHex(santiago, { littleEndian: false }), santiago],
+    ['WKB without an SRID', wkbHex(santiago, { srid: null }), santiago],
+    ['EWKT', 'SRID=4326;POINT(2.3522 48.8566)', paris],
+    ['WKT with extra spaces', 'point ( -70.6693   -33.4489 )', santiago],
+    ['GeoJSON', { type: 'Point', coordinates: [2.3522, 48.8566] }, paris],
+    ['GeoJSON with string coordinates', { type: 'Point', coordinates: ['-70.6693', '-33.4489'] }, santiago],
+  ])('reads %s', (_, value, expected) => {
+    expect(parsePostgisPoint(value)).toEqual(expected);
+  });
+
+  it.each<[string, unknown]>([
+    ['null', null],
+    ['an empty string', ''],
+    ['a truncated EWKB value', wkbHex(paris).slice(0, 40)],
+    ['EWKB of odd length', `${wkbHex(paris)}0`],
+    ['EWKB of a line', wkbHex(paris).replace(/^0101/, '0102')],
+    ['hex that is cut off before the coordinates', '0101000020E6100000000000000000F03F'],
+    ['a WKT polygon', 'POLYGON((0 0, 1 0, 1 1, 0 0))'],
+    ['free text', 'somewhere near Lyon'],
+    ['GeoJSON with one coordinate', { type: 'Point', coordinates: [2.3522] }],
+    ['an object without coordinates', { latitude: 48.8566, longitude: 2.3522 }],
+    ['a number', 42],
+  ])('returns null for %s', (_, value) => {
+    expect(parsePostgisPoint(value)).toBeNull();
+  });
+
+  it('reads back what toPostgisPoint writes', () => {
+    expect(parsePostgisPoint(toPostgisPoint(santiago))).toEqual(santiago);
+  });
+});
+
+describe('haversineDistanceKm', () => {
+  it.each<[string, LatLng, LatLng, number]>([
+    ['the same point', paris, paris, 0],
+    ['one degree of latitude', { latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 }, 111.19],
+    ['Paris to Santiago', paris, santiago, 11650],
+  ])('measures %s', (_, from, to, expected) => {
+    expect(haversineDistanceKm(from, to)).toBeCloseTo(expected, expected > 1000 ? -2 : 1);
+  });
+});
@@ -0,0 +1,100 @@
+export type LatLng = {
+  latitude: number;
+  longitude: number;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export const haversineDistanceKm = (from: LatLng, to: LatLng) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const formatDistance = (km: number) => {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
+
+/**
+ * Stable place id for a point that wasn't geocoded, e.g. a pin dropped on
+ * the map. The schema requires a place_id on waypoints.
+ */
+export const coordinatePlaceId = ({ latitude, longitude }: LatLng) =>
+  `coords:${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+
+export const parseCoordinatePlaceId = (placeId: string): LatLng | null => {
+  const match = placeId.match(/^coords:(-?[\d.]+),(-?[\d.]+)$/);
+  if (!match) return null;
+  return { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) };
+};
+
+export const formatCoordinates = ({ latitude, longitude }: LatLng) =>
+  `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+
+const EWKB_SRID_FLAG = 0x20000000;
+const WKB_POINT = 1;
+
+// PostgREST returns geography columns as hex-encoded EWKB, e.g.
+// 0101000020E6100000<lon as float64><lat as float64>
+const parseEwkbHexPoint = (hex: string): LatLng | null => {
+  if (hex.length < 42 || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) return null;
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  const view = new DataView(bytes.buffer);
+  const littleEndian = view.getUint8(0) === 1;
+  const type = view.getUint32(1, littleEndian);
+  if ((type & 0xff) !== WKB_POINT) return null;
+
+  const offset = type & EWKB_SRID_FLAG ? 9 : 5;
+  if (bytes.length < offset + 16) return null;
+  return {
+    longitude: view.getFloat64(offset, littleEndian),
+    latitude: view.getFloat64(offset + 8, littleEndian),
+  };
+};
+
+const parseWktPoint = (wkt: string): LatLng | null => {
+  const match = wkt.match(/POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)/i);
+  if (!match) return null;
+  return { longitude: parseFloat(match[1]), latitude: parseFloat(match[2]) };
+};
+
+/**
+ * Parses a PostGIS point as returned by Supabase (hex EWKB, (E)WKT or GeoJSON)
+ * into a coordinate. Returns null for empty or unrecognised values.
+ */
+export const parsePostgisPoint = (value: unknown): LatLng | null => {
+  if (!value) return null;
+
+  if (typeof value === 'string') {
+    return parseEwkbHexPoint(value) ?? parseWktPoint(value);
+  }
+
+  if (typeof value === 'object' && 'coordinates' in value) {
+    const coordinates = (value as { coordinates: unknown }).coordinates;
+    if (Array.isArray(coordinates) && coordinates.length >= 2) {
+      return { longitude: Number(coordinates[0]), latitude: Number(coordinates[1]) };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Formats a coordinate as EWKT, which PostgREST accepts for geography columns.
+ */
+export const toPostgisPoint = ({ latitude, longitude }: LatLng) =>
+  `SRID=4326;POINT(${longitude} ${latitude})`;
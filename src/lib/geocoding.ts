@@ -0,0 +1,51 @@
+import { LatLng } from './geo';
+import { offlineGeocoder } from './offlineGeocoder';
+
+/**
+ * A resolved location, shaped after the *_address/_city/_country/_place_id
+ * and *_latlon columns on trips.
+ */
+export type Place = {
+  place_id: string;
+  address: string;
+  city: string | null;
+  country: string | null;
+  location: LatLng;
+};
+
+/**
+ * An autocomplete row. Hosted providers usually return these without
+ * coordinates, so a suggestion is resolved with `details` once picked.
+ */
+export type PlaceSuggestion = {
+  place_id: string;
+  title: string;
+  subtitle: string | null;
+};
+
+export type PlaceSearchOptions = {
+  // Ranks closer matches first, e.g. waypoints near the trip origin
+  near?: LatLng;
+  limit?: number;
+};
+
+export type Geocoder = {
+  // Places matching free text, best match first
+  search: (query: string, options?: PlaceSearchOptions) => Promise<PlaceSuggestion[]>;
+  // The place at a point, e.g. a map tap
+  reverse: (point: LatLng) => Promise<Place | null>;
+  // Resolves a place_id from search or reverse; null when it is unknown
+  details: (placeId: string) => Promise<Place | null>;
+};
+
+let activeGeocoder: Geocoder = offlineGeocoder;
+
+/**
+ * Swaps the geocoder used by place pickers, e.g. for a hosted provider.
+ * The bundled offline geocoder is used until this is called.
+ */
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+};
+
+export const getGeocoder = () => activeGeocoder;
@@ -0,0 +1,64 @@
+import type { Tables } from '../integrations/supabase/types';
+
+type RequirementFields = Pick<Tables<'trips'>, 'min_rating_average' | 'require_complete_profile'>;
+
+type ApplicantFields = Pick<
+  Tables<'profiles'>,
+  'firstname' | 'lastname' | 'avatar_url' | 'bio' | 'rating_average'
+>;
+
+/**
+ * What a complete profile needs, in the words shown to the applicant. Keep
+ * in sync with apply_for_trip, which enforces the same rules.
+ */
+const profileFieldLabels: Record<Exclude<keyof ApplicantFields, 'rating_average'>, string> = {
+  firstname: 'first name',
+  lastname: 'last name',
+  avatar_url: 'profile photo',
+  bio: 'bio',
+};
+
+export const getMissingProfileFields = (profile: ApplicantFields | null): string[] =>
+  (Object.keys(profileFieldLabels) as (keyof typeof profileFieldLabels)[])
+    .filter(field => !profile?.[field]?.trim())
+    .map(field => profileFieldLabels[field]);
+
+const joinList = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+
+/**
+ * The organizer's requirements for joining, e.g. "Rated 4.0 or higher".
+ */
+export const describeJoinRequirements = (trip: RequirementFields): string[] => {
+  const requirements: string[] = [];
+  if (trip.min_rating_average !== null) {
+    requirements.push(`Rated ${trip.min_rating_average.toFixed(1)} or higher`);
+  }
+  if (trip.require_complete_profile) {
+    requirements.push(`A complete profile with ${joinList(Object.values(profileFieldLabels))}`);
+  }
+  return requirements;
+};
+
+/**
+ * Requirements the applicant doesn't meet yet, explained so they know what
+ * to fix. Empty when they can apply.
+ */
+export const getUnmetJoinRequirements = (trip: RequirementFields, profile: ApplicantFields | null): string[] => {
+  const unmet: string[] = [];
+
+  if (trip.min_rating_average !== null && (profile?.rating_average ?? 0) < trip.min_rating_average) {
+    unmet.push(
+      profile?.rating_average
+        ? `This trip needs a rating of ${trip.min_rating_average.toFixed(1)}; yours is ${profile.rating_average.toFixed(1)}`
+        : `This trip needs a rating of ${trip.min_rating_average.toFixed(1)} and you haven't been rated yet`
+    );
+  }
+
+  const missing = getMissingProfileFields(profile);
+  if (trip.require_complete_profile && missing.length > 0) {
+    unmet.push(`Add your ${joinList(missing)} to apply`);
+  }
+
+  return unmet;
+};
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const supabase = vi.hoisted(() => {
+  const trips = { data: [] as unknown[], error: null as unknown };
+  const query = {
+    select: () => query,
+    not: () => query,
+    is: () => query,
+    gte: () => Promise.resolve(trips),
+  };
+  return {
+    trips,
+    rpc: vi.fn(),
+    from: vi.fn(() => query),
+  };
+});
+
+vi.mock('../integrations/supabase/client', () => ({ supabase }));
+
+import { NearbySearch, filterTripsWithinRadius, findTripDistances } from './nearbyTrips';
+import { haversineDistanceKm, toPostgisPoint } from './geo';
+
+const lyon = { latitude: 45.764, longitude: 4.8357 };
+const grenoble = { latitude: 45.1885, longitude: 5.7245 };
+const marseille = { latitude: 43.2965, longitude: 5.3698 };
+
+const lyonToGrenobleKm = haversineDistanceKm(lyon, grenoble);
+
+const trip = (id: string, origin: unknown, destination: unknown) => ({
+  id,
+  origin_latlon: origin,
+  destination_latlon: destination,
+});
+
+const search = (radiusKm: number, match: NearbySearch['match'] = 'either'): NearbySearch => ({
+  center: lyon,
+  radiusKm,
+  match,
+});
+
+describe('filterTripsWithinRadius', () => {
+  // Departs Grenoble, arrives Marseille
+  const grenobleToMarseille = trip('g-m', toPostgisPoint(grenoble), toPostgisPoint(marseille));
+
+  it.each<[string, NearbySearch, number | null]>([
+    ['keeps a trip exactly on the radius', search(lyonToGrenobleKm), lyonToGrenobleKm],
+    ['drops a trip just past the radius', search(lyonToGrenobleKm - 0.001), null],
+    ['matches on the origin', search(lyonToGrenobleKm, 'origin'), lyonToGrenobleKm],
+    ['ignores the origin when matching destinations', search(lyonToGrenobleKm, 'destination'), null],
+    ['matches on the destination with a wide radius', search(500, 'destination'), haversineDistanceKm(lyon, marseille)],
+  ])('%s', (_, nearby, expected) => {
+    const [result] = filterTripsWithinRadius([grenobleToMarseille], nearby);
+    expect(result?.distance_km ?? null).toBe(expected);
+  });
+
+  it('uses the nearer end when either may match', () => {
+    const marseilleToGrenoble = trip('m-g', toPostgisPoint(marseille), toPostgisPoint(grenoble));
+    const [result] = filterTripsWithinRadius([marseilleToGrenoble], search(500));
+    expect(result.distance_km).toBe(lyonToGrenobleKm);
+  });
+
+  it('sorts the nearest trips first', () => {
+    const trips = [
+      trip('marseille', toPostgisPoint(marseille), null),
+      trip('lyon', toPostgisPoint(lyon), null),
+      trip('grenoble', toPostgisPoint(grenoble), null),
+    ];
+    expect(filterTripsWithinRadius(trips, search(500)).map(t => t.id)).toEqual(['lyon', 'grenoble', 'marseille']);
+  });
+
+  it.each<[string, unknown]>([
+    ['hex EWKB', '0101000020E6100000' + '9D11A5BDC1571340' + '6F1283C0CAE14640'],
+    ['EWKT', 'SRID=4326;POINT(4.8357 45.764)'],
+    ['GeoJSON', { type: 'Point', coordinates: [4.8357, 45.764] }],
+  ])('reads locations encoded as %s', (_, origin) => {
+    const [result] = filterTripsWithinRadius([trip('t', origin, null)], search(1));
+    expect(result.distance_km).toBeLessThan(0.01);
+  });
+
+  it('skips rows whose locations cannot be parsed', () => {
+    const trips = [
+      trip('garbled', 'not a point', { coordinates: [] }),
+      trip('missing', null, null),
+      trip('half', 'garbage', toPostgisPoint(grenoble)),
+    ];
+    expect(filterTripsWithinRadius(trips, search(500)).map(t => t.id)).toEqual(['half']);
+  });
+});
+
+describe('findTripDistances', () => {
+  beforeEach(() => {
+    supabase.rpc.mockReset();
+    supabase.from.mockClear();
+    supabase.trips.data = [trip('grenoble', toPostgisPoint(grenoble), null)];
+  });
+
+  it('uses the radius RPC when it is there', async () => {
+    supabase.rpc.mockResolvedValue({
+      data: [{ trip_id: 'a', origin_distance_km: 12, destination_distance_km: 80 }],
+      error: null,
+    });
+
+    await expect(findTripDistances(search(50))).resolves.toEqual(new Map([['a', 12]]));
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it.each(['PGRST202', '42883'])('filters locally when the RPC is missing (%s)', async (code) => {
+    supabase.rpc.mockResolvedValue({ data: null, error: { code, message: 'function not found' } });
+
+    await expect(findTripDistances(search(500))).resolves.toEqual(new Map([['grenoble', lyonToGrenobleKm]]));
+  });
+
+  it('passes other errors on', async () => {
+    const error = { code: '57014', message: 'canceling statement due to statement timeout' };
+    supabase.rpc.mockResolvedValue({ data: null, error });
+
+    await expect(findTripDistances(search(500))).rejects.toBe(error);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
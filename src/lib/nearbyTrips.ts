@@ -0,0 +1,105 @@
+import { supabase } from '../integrations/supabase/client';
+import { LatLng, haversineDistanceKm, parsePostgisPoint } from './geo';
+
+export type NearbyMatch = 'origin' | 'destination' | 'either';
+
+export type NearbySearch = {
+  center: LatLng;
+  radiusKm: number;
+  match: NearbyMatch;
+};
+
+export type LocatedTrip = {
+  id: string;
+  origin_latlon: unknown;
+  destination_latlon: unknown;
+};
+
+// PostgREST's "function not found" and Postgres' undefined_function: the
+// database hasn't got the radius search migration yet
+const MISSING_FUNCTION_CODES = ['PGRST202', '42883'];
+
+const isMissingFunction = (error: { code?: string }) =>
+  !!error.code && MISSING_FUNCTION_CODES.includes(error.code);
+
+export const nearbyRadiusOptionsKm = [10, 25, 50, 100, 250];
+
+export const nearbyMatchLabels: Record<NearbyMatch, string> = {
+  either: 'Departing or arriving',
+  origin: 'Departing nearby',
+  destination: 'Arriving nearby',
+};
+
+const pickDistance = (
+  originKm: number | null,
+  destinationKm: number | null,
+  match: NearbyMatch
+) => {
+  if (match === 'origin') return originKm;
+  if (match === 'destination') return destinationKm;
+  const candidates = [originKm, destinationKm].filter((d): d is number => d !== null);
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+};
+
+/**
+ * Local equivalent of the `trips_within_radius` RPC. Keeps the trips whose
+ * origin and/or destination lie within the radius, nearest first.
+ */
+export const filterTripsWithinRadius = <T extends LocatedTrip>(
+  trips: T[],
+  { center, radiusKm, match }: NearbySearch
+): (T & { distance_km: number })[] => {
+  const withinRadius = (km: number | null) => (km !== null && km <= radiusKm ? km : null);
+
+  return trips
+    .map(trip => {
+      const origin = parsePostgisPoint(trip.origin_latlon);
+      const destination = parsePostgisPoint(trip.destination_latlon);
+      const distance = pickDistance(
+        withinRadius(origin ? haversineDistanceKm(center, origin) : null),
+        withinRadius(destination ? haversineDistanceKm(center, destination) : null),
+        match
+      );
+      return { ...trip, distance_km: distance };
+    })
+    .filter((trip): trip is T & { distance_km: number } => trip.distance_km !== null)
+    .sort((a, b) => a.distance_km - b.distance_km);
+};
+
+/**
+ * Resolves the trips matching a radius search to their distance in km.
+ * Uses the PostGIS RPC and falls back to filtering upcoming trips on the
+ * device only when the database doesn't have it; other errors are thrown.
+ */
+export const findTripDistances = async (search: NearbySearch): Promise<Map<string, number>> => {
+  const { data, error } = await supabase.rpc('trips_within_radius', {
+    p_latitude: search.center.latitude,
+    p_longitude: search.center.longitude,
+    p_radius_km: search.radiusKm,
+    p_match: search.match,
+  });
+
+  if (!error) {
+    const distances = new Map<string, number>();
+    (data || []).forEach(row => {
+      const distance = pickDistance(row.origin_distance_km, row.destination_distance_km, search.match);
+      if (distance !== null) distances.set(row.trip_id, distance);
+    });
+    return distances;
+  }
+
+  if (!isMissingFunction(error)) throw error;
+
+  const { data: trips, error: tripsError } = await supabase
+    .from('trips')
+    .select('id, origin_latlon, destination_latlon')
+    .not('published_at', 'is', null)
+    .is('cancelled_at', null)
+    .gte('start_date', new Date().toISOString());
+
+  if (tripsError) throw tripsError;
+
+  return new Map(
+    filterTripsWithinRadius(trips || [], search).map(trip => [trip.id, trip.distance_km])
+  );
+};
@@ -0,0 +1,126 @@
+import { LatLng, coordinatePlaceId, formatCoordinates, haversineDistanceKm, parseCoordinatePlaceId } from './geo';
+import { GazetteerCity, gazetteer } from './gazetteer';
+import type { Geocoder, Place, PlaceSuggestion } from './geocoding';
+
+// Map taps further than this from any known city have no city or country
+const REVERSE_RADIUS_KM = 30;
+const DEFAULT_LIMIT = 8;
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const cityPlaceId = (city: GazetteerCity) => `offline:${slugify(city.country)}:${slugify(city.name)}`;
+
+type IndexedCity = {
+  city: GazetteerCity;
+  placeId: string;
+  names: string[];
+  // "Paris France", "Lyon Auvergne-Rhône-Alpes", "Germany"...
+  labels: string[];
+};
+
+const index: IndexedCity[] = gazetteer.map(city => ({
+  city,
+  placeId: cityPlaceId(city),
+  names: [city.name, ...(city.aliases ?? [])].map(slugify),
+  labels: [
+    `${city.name} ${city.country}`,
+    city.region && `${city.name} ${city.region}`,
+    city.country,
+    city.region,
+  ].filter(Boolean).map(slugify),
+}));
+
+const byPlaceId = new Map(index.map(entry => [entry.placeId, entry.city]));
+
+/**
+ * Lower is better; null when the city doesn't match at all.
+ */
+const matchRank = ({ names, labels }: IndexedCity, query: string) => {
+  if (names.includes(query)) return 0;
+  if (names[0].startsWith(query)) return 1;
+  if (names.some(name => name.startsWith(query))) return 2;
+  // A later word of the name, e.g. "york" for New York
+  if (names.some(name => name.includes(`-${query}`))) return 3;
+  if (labels.some(label => label.startsWith(query))) return 4;
+  if (labels.some(label => label.includes(query))) return 5;
+  return null;
+};
+
+const toSuggestion = ({ city, placeId }: IndexedCity): PlaceSuggestion => ({
+  place_id: placeId,
+  title: city.name,
+  // Skip the region for city-states like Vienna, Vienna
+  subtitle: [city.region !== city.name ? city.region : null, city.country].filter(Boolean).join(', '),
+});
+
+const toPlace = (city: GazetteerCity): Place => ({
+  place_id: cityPlaceId(city),
+  address: `${city.name}, ${city.country}`,
+  city: city.name,
+  country: city.country,
+  location: { latitude: city.latitude, longitude: city.longitude },
+});
+
+const reverse = async (point: LatLng): Promise<Place> => {
+  const nearest = gazetteer
+    .map(city => ({ city, distance: haversineDistanceKm(point, city) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  if (!nearest || nearest.distance > REVERSE_RADIUS_KM) {
+    return {
+      place_id: coordinatePlaceId(point),
+      address: formatCoordinates(point),
+      city: null,
+      country: null,
+      location: point,
+    };
+  }
+
+  // The pin keeps its exact position; the city gives it a readable label
+  return {
+    place_id: coordinatePlaceId(point),
+    address: `Near ${nearest.city.name}, ${nearest.city.country}`,
+    city: nearest.city.name,
+    country: nearest.city.country,
+    location: point,
+  };
+};
+
+/**
+ * Geocoder backed by the bundled city gazetteer. It needs no network, so
+ * place pickers keep working offline and against a local database.
+ */
+export const offlineGeocoder: Geocoder = {
+  search: async (query, { near, limit = DEFAULT_LIMIT } = {}) => {
+    const normalized = slugify(query);
+    if (!normalized) return [];
+
+    return index
+      .map(entry => ({ entry, rank: matchRank(entry, normalized) }))
+      .filter(({ rank }) => rank !== null)
+      .sort((a, b) => {
+        if (a.rank !== b.rank) return a.rank - b.rank;
+        if (near) return haversineDistanceKm(near, a.entry.city) - haversineDistanceKm(near, b.entry.city);
+        return b.entry.city.population - a.entry.city.population;
+      })
+      .slice(0, limit)
+      .map(({ entry }) => toSuggestion(entry));
+  },
+
+  reverse,
+
+  details: async (placeId) => {
+    const city = byPlaceId.get(placeId);
+    if (city) return toPlace(city);
+
+    // Dropped pins are identified by their coordinates
+    const point = parseCoordinatePlaceId(placeId);
+    return point ? reverse(point) : null;
+  },
+};
@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxConflictError, OutboxOperation, OutboxStorage, createOutbox } from './outbox';
+
+const createStorage = () => {
+  const values = new Map<string, string>();
+  const storage: OutboxStorage = {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+  };
+  return { storage, values };
+};
+
+const message = (text: string): OutboxOperation => ({
+  type: 'send_message',
+  messageId: `message-${text}`,
+  roomId: 'room-1',
+  senderId: 'user-1',
+  text,
+});
+
+const sentTexts = (transport: ReturnType<typeof vi.fn>) =>
+  transport.mock.calls.map(([operation]) => (operation as Extract<OutboxOperation, { type: 'send_message' }>).text);
+
+// Lets pending promises and zero-delay timers run
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('outbox', () => {
+  let online: boolean;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    online = true;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setup = (transport = vi.fn().mockResolvedValue(null), { storage } = createStorage()) => {
+    const outbox = createOutbox({
+      transport,
+      storage,
+      isOnline: () => online,
+      baseDelayMs: 1000,
+      maxDelayMs: 4000,
+      maxAttempts: 4,
+    });
+    return { outbox, transport, storage };
+  };
+
+  describe('order', () => {
+    it('replays items queued offline oldest first', async () => {
+      online = false;
+      const { outbox, transport } = setup();
+
+      await outbox.enqueue(message('first'));
+      await outbox.enqueue(message('second'));
+      await outbox.enqueue(message('third'));
+      await settle();
+      expect(transport).not.toHaveBeenCalled();
+
+      online = true;
+      await outbox.flush();
+
+      expect(sentTexts(transport)).toEqual(['first', 'second', 'third']);
+      expect(outbox.getItems()).toEqual([]);
+    });
+
+    it('holds later items back while an earlier one waits to retry', async () => {
+      const transport = vi.fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValue(null);
+      const { outbox } = setup(transport);
+
+      await outbox.enqueue(message('first'));
+      await settle();
+      await outbox.enqueue(message('second'));
+      await settle();
+      expect(sentTexts(transport)).toEqual(['first']);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(sentTexts(transport)).toEqual(['first', 'first', 'second']);
+      expect(outbox.getItems()).toEqual([]);
+    });
+  });
+
+  describe('retries', () => {
+    it('backs off exponentially after network errors, up to the maximum delay', async () => {
+      const transport = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      const { outbox } = setup(transport);
+
+      await outbox.enqueue(message('hello'));
+      await settle();
+      expect(transport).toHaveBeenCalledTimes(1);
+
+      // Delays of 1s, 2s and then 4s, capped by maxDelayMs
+      for (const [delay, calls] of [[1000, 2], [2000, 3], [4000, 4]]) {
+        await vi.advanceTimersByTimeAsync(delay - 1);
+        expect(transport).toHaveBeenCalledTimes(calls - 1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(transport).toHaveBeenCalledTimes(calls);
+      }
+
+      // maxAttempts reached, so it stops retrying
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(transport).toHaveBeenCalledTimes(4);
+      expect(outbox.getItems()).toMatchObject([{ status: 'failed', attempts: 4, lastError: 'Failed to fetch' }]);
+    });
+
+    it('sends the item once a retry succeeds', async () => {
+      const transport = vi.fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValue(null);
+      const { outbox } = setup(transport);
+      const sent = vi.fn();
+      outbox.onSent(sent);
+
+      await outbox.enqueue(message('hello'));
+      await settle();
+      expect(outbox.getItems()).toMatchObject([{ status: 'pending', attempts: 1 }]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(sent).toHaveBeenCalledTimes(1);
+      expect(outbox.getItems()).toEqual([]);
+    });
+
+    it('fails other errors straight away without blocking the queue', async () => {
+      const transport = vi.fn()
+        .mockRejectedValueOnce(new Error('trip_full'))
+        .mockResolvedValue(null);
+      const { outbox } = setup(transport);
+
+      online = false;
+      await outbox.enqueue(message('first'));
+      await outbox.enqueue(message('second'));
+      online = true;
+      await outbox.flush();
+
+      expect(sentTexts(transport)).toEqual(['first', 'second']);
+      expect(outbox.getItems()).toMatchObject([{ status: 'failed', lastError: 'trip_full' }]);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('parks a conflicted item and carries on with the rest', async () => {
+      const transport = vi.fn()
+        .mockRejectedValueOnce(new OutboxConflictError('Profile changed elsewhere'))
+        .mockResolvedValue(null);
+      const { outbox } = setup(transport);
+
+      online = false;
+      await outbox.enqueue(message('first'));
+      await outbox.enqueue(message('second'));
+      online = true;
+      await outbox.flush();
+
+      expect(sentTexts(transport)).toEqual(['first', 'second']);
+      expect(outbox.getItems()).toMatchObject([
+        { status: 'conflicted', lastError: 'Profile changed elsewhere', force: false },
+      ]);
+
+      // Not retried on its own
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('overwrites when retried with force', async () => {
+      const transport = vi.fn()
+        .mockRejectedValueOnce(new OutboxConflictError('Profile changed elsewhere'))
+        .mockResolvedValue(null);
+      const { outbox } = setup(transport);
+
+      const item = await outbox.enqueue(message('hello'));
+      await settle();
+      await outbox.retry(item.id, { force: true });
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(transport.mock.calls[1][1]).toEqual({ force: true });
+      expect(outbox.getItems()).toEqual([]);
+    });
+
+    it('drops a conflicted item when discarded', async () => {
+      const transport = vi.fn().mockRejectedValueOnce(new OutboxConflictError('Profile changed elsewhere'));
+      const { outbox } = setup(transport);
+
+      const item = await outbox.enqueue(message('hello'));
+      await settle();
+      outbox.discard(item.id);
+
+      expect(outbox.getItems()).toEqual([]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('restores queued items in order after a restart', async () => {
+      const backing = createStorage();
+      online = false;
+      const before = setup(vi.fn(), backing);
+      await before.outbox.enqueue(message('first'));
+      await before.outbox.enqueue(message('second'));
+      await settle();
+
+      online = true;
+      const after = setup(vi.fn().mockResolvedValue(null), backing);
+      await after.outbox.load();
+      expect(after.outbox.getItems().map(item => item.status)).toEqual(['pending', 'pending']);
+
+      await after.outbox.flush();
+      await settle();
+      expect(sentTexts(after.transport)).toEqual(['first', 'second']);
+      expect(JSON.parse(backing.values.get('travel-buddy-outbox')!)).toEqual([]);
+    });
+
+    it('replays an item that was being sent when the app closed', async () => {
+      const backing = createStorage();
+      const before = setup(vi.fn(() => new Promise(() => {})), backing);
+      await before.outbox.enqueue(message('hello'));
+      await settle();
+      expect(JSON.parse(backing.values.get('travel-buddy-outbox')!)).toMatchObject([{ status: 'sending' }]);
+
+      const after = setup(vi.fn().mockResolvedValue(null), backing);
+      await after.outbox.load();
+      expect(after.outbox.getItems()).toMatchObject([{ status: 'pending', attempts: 1 }]);
+
+      await after.outbox.flush();
+      expect(sentTexts(after.transport)).toEqual(['hello']);
+    });
+  });
+
+  describe('clear', () => {
+    it('forgets every item and stops pending retries on sign-out', async () => {
+      const backing = createStorage();
+      const transport = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      const { outbox } = setup(transport, backing);
+
+      await outbox.enqueue(message('hello'));
+      await settle();
+      expect(transport).toHaveBeenCalledTimes(1);
+
+      outbox.clear();
+      await settle();
+
+      expect(outbox.getItems()).toEqual([]);
+      expect(JSON.parse(backing.values.get('travel-buddy-outbox')!)).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(transport).toHaveBeenCalledTimes(1);
+
+      // Nothing comes back for the next user either
+      const next = setup(vi.fn(), backing);
+      await next.outbox.load();
+      expect(next.outbox.getItems()).toEqual([]);
+    });
+  });
+});
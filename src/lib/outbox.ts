@@ -0,0 +1,267 @@
+import type { ProfileUpdate } from '../api/profiles';
+
+/**
+ * Durable queue for user actions that must survive losing the connection.
+ * Items are stored as soon as they are enqueued and replayed in order once
+ * the transport is reachable. The engine knows nothing about Supabase: the
+ * transport and storage are injected, so it can run against fakes.
+ */
+
+export type OutboxOperation =
+  | { type: 'join_trip'; tripId: string; userId: string }
+  | { type: 'send_message'; messageId: string; roomId: string; senderId: string; text: string }
+  | { type: 'update_profile'; userId: string; changes: ProfileUpdate; baseModifiedOn: string | null };
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed' | 'conflicted';
+
+export type OutboxItem = {
+  id: string;
+  operation: OutboxOperation;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  // Set when the user chose to overwrite after a conflict
+  force: boolean;
+};
+
+export type OutboxTransport = (operation: OutboxOperation, options: { force: boolean }) => Promise<unknown>;
+
+export type OutboxStorage = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+};
+
+export type OutboxOptions = {
+  transport: OutboxTransport;
+  storage: OutboxStorage;
+  storageKey?: string;
+  isOnline?: () => boolean;
+  now?: () => number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export type Outbox = ReturnType<typeof createOutbox>;
+
+/**
+ * Thrown by a transport when the server state changed since the operation
+ * was queued. Conflicted items wait for the user to overwrite or discard.
+ */
+export class OutboxConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxConflictError';
+  }
+}
+
+const errorMessage = (error: unknown) =>
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+// supabase-js resolves with an error object rather than throwing when fetch
+// fails, so the message is all there is to go on
+export const isNetworkError = (error: unknown) =>
+  error instanceof TypeError || /network|failed to fetch|fetch failed|load failed|timed? ?out/i.test(errorMessage(error));
+
+export const backoffDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+
+/**
+ * RFC 4122 version 4 id. Used for outbox items and as the primary key of
+ * queued chat messages, so a replayed insert can't create a duplicate.
+ */
+export const createClientId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+export const createOutbox = ({
+  transport,
+  storage,
+  storageKey = 'travel-buddy-outbox',
+  isOnline = () => true,
+  now = () => Date.now(),
+  maxAttempts = 8,
+  baseDelayMs = 2000,
+  maxDelayMs = 5 * 60 * 1000,
+}: OutboxOptions) => {
+  let items: OutboxItem[] = [];
+  let loading: Promise<void> | null = null;
+  let flushing: Promise<void> | null = null;
+  let flushAgain = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writes: Promise<void> = Promise.resolve();
+
+  const listeners = new Set<() => void>();
+  const sentListeners = new Set<(item: OutboxItem, result: unknown) => void>();
+
+  const setItems = (next: OutboxItem[]) => {
+    items = next;
+    const serialized = JSON.stringify(items);
+    // Writes are chained so an older snapshot never lands after a newer one
+    writes = writes
+      .then(() => storage.setItem(storageKey, serialized))
+      .catch(error => console.error('Error saving outbox:', error));
+    listeners.forEach(listener => listener());
+  };
+
+  const updateItem = (id: string, changes: Partial<OutboxItem>) => {
+    setItems(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const load = () => {
+    if (!loading) {
+      loading = storage
+        .getItem(storageKey)
+        .then(serialized => {
+          const stored: OutboxItem[] = serialized ? JSON.parse(serialized) : [];
+          // An item that was mid-flight when the app closed may or may not
+          // have reached the server; replaying it is safe because every
+          // operation is idempotent on the server side
+          const restored = stored.map(item =>
+            item.status === 'sending' ? { ...item, status: 'pending' as const } : item
+          );
+          // Keep anything enqueued while storage was being read
+          setItems([...restored, ...items.filter(item => !restored.some(r => r.id === item.id))]);
+        })
+        .catch(error => console.error('Error loading outbox:', error));
+    }
+    return loading;
+  };
+
+  const schedule = (at: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      flush();
+    }, Math.max(at - now(), 0));
+  };
+
+  const sendItem = async (item: OutboxItem): Promise<boolean> => {
+    updateItem(item.id, { status: 'sending', attempts: item.attempts + 1 });
+
+    try {
+      const result = await transport(item.operation, { force: item.force });
+      setItems(items.filter(i => i.id !== item.id));
+      sentListeners.forEach(listener => listener(item, result));
+      return true;
+    } catch (error) {
+      const attempts = item.attempts + 1;
+
+      if (error instanceof OutboxConflictError) {
+        updateItem(item.id, { status: 'conflicted', lastError: error.message });
+      } else if (isNetworkError(error) && attempts < maxAttempts) {
+        const nextAttemptAt = now() + backoffDelay(attempts, baseDelayMs, maxDelayMs);
+        updateItem(item.id, { status: 'pending', nextAttemptAt, lastError: errorMessage(error) });
+        schedule(nextAttemptAt);
+        return false;
+      } else {
+        updateItem(item.id, { status: 'failed', lastError: errorMessage(error) });
+      }
+      // Items that need the user's attention don't hold up the rest
+      return true;
+    }
+  };
+
+  const drain = async () => {
+    await load();
+
+    for (const item of items) {
+      if (item.status !== 'pending') continue;
+      if (!isOnline()) return;
+      if (item.nextAttemptAt > now()) {
+        // Later items wait too, so replay order matches enqueue order
+        schedule(item.nextAttemptAt);
+        return;
+      }
+      const current = items.find(i => i.id === item.id);
+      if (!current || current.status !== 'pending') continue;
+      const canContinue = await sendItem(current);
+      if (!canContinue) return;
+    }
+  };
+
+  /**
+   * Sends every pending item that is due, oldest first. Concurrent calls
+   * share one pass; a call made during a pass triggers another afterwards.
+   */
+  const flush = (): Promise<void> => {
+    if (flushing) {
+      flushAgain = true;
+      return flushing;
+    }
+
+    flushing = (async () => {
+      do {
+        flushAgain = false;
+        await drain();
+      } while (flushAgain);
+    })().finally(() => {
+      flushing = null;
+    });
+
+    return flushing;
+  };
+
+  const enqueue = async (operation: OutboxOperation): Promise<OutboxItem> => {
+    await load();
+
+    const item: OutboxItem = {
+      id: createClientId(),
+      operation,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now(),
+      nextAttemptAt: 0,
+      lastError: null,
+      force: false,
+    };
+    setItems([...items, item]);
+    flush();
+    return item;
+  };
+
+  const retry = (id: string, { force = false }: { force?: boolean } = {}) => {
+    updateItem(id, { status: 'pending', attempts: 0, nextAttemptAt: 0, lastError: null, force });
+    return flush();
+  };
+
+  const discard = (id: string) => {
+    setItems(items.filter(item => item.id !== id));
+  };
+
+  const clear = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    setItems([]);
+  };
+
+  return {
+    load,
+    flush,
+    enqueue,
+    retry,
+    discard,
+    clear,
+    getItems: () => items,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    onSent: (listener: (item: OutboxItem, result: unknown) => void) => {
+      sentListeners.add(listener);
+      return () => {
+        sentListeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import type { TripSearchFilters } from './tripSearch';
+
+/**
+ * Shared TanStack Query keys. Keys are hierarchical so a mutation can
+ * invalidate everything under a prefix, e.g. `queryKeys.trips.detail(id)`
+ * also covers that trip's participants and waypoints.
+ */
+export const queryKeys = {
+  trips: {
+    all: ['trips'] as const,
+    lists: () => [...queryKeys.trips.all, 'list'] as const,
+    list: (options: { includePast: boolean }) => [...queryKeys.trips.lists(), options] as const,
+    search: (filters: TripSearchFilters) => [...queryKeys.trips.all, 'search', filters] as const,
+    user: (userId: string) => [...queryKeys.trips.all, 'user', userId] as const,
+    organized: (userId: string) => [...queryKeys.trips.all, 'organized', userId] as const,
+    shared: (userId: string, viewerId: string) => [...queryKeys.trips.all, 'shared', userId, viewerId] as const,
+    detail: (tripId: string) => [...queryKeys.trips.all, 'detail', tripId] as const,
+    waypoints: (tripId: string) => [...queryKeys.trips.detail(tripId), 'waypoints'] as const,
+    participants: (tripId: string) => [...queryKeys.trips.detail(tripId), 'participants'] as const,
+  },
+  profiles: {
+    all: ['profiles'] as const,
+    detail: (userId: string) => [...queryKeys.profiles.all, userId] as const,
+    public: (userId: string) => [...queryKeys.profiles.detail(userId), 'public'] as const,
+  },
+  ratings: {
+    all: ['ratings'] as const,
+    tripBy: (tripId: string, raterId: string) => [...queryKeys.ratings.all, 'trip', tripId, raterId] as const,
+    user: (userId: string) => [...queryKeys.ratings.all, 'user', userId] as const,
+    reviews: (userId: string, stars: number | null) => [...queryKeys.ratings.user(userId), 'reviews', stars] as const,
+    breakdown: (userId: string) => [...queryKeys.ratings.user(userId), 'breakdown'] as const,
+  },
+  notices: {
+    all: ['notices'] as const,
+    list: (userId: string) => [...queryKeys.notices.all, userId] as const,
+  },
+  chat: {
+    all: ['chat'] as const,
+    room: (tripId: string, userId: string) => [...queryKeys.chat.all, 'room', tripId, userId] as const,
+    inbox: (userId: string) => [...queryKeys.chat.all, 'inbox', userId] as const,
+    readMarkers: (roomId: string) => [...queryKeys.chat.all, 'readMarkers', roomId] as const,
+    messages: (roomId: string) => [...queryKeys.chat.all, 'messages', roomId] as const,
+  },
+};
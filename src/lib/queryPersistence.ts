@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DehydratedState, InfiniteData, QueryClient, dehydrate, hydrate } from '@tanstack/react-query';
+import type { MessagePage } from '../api/chat';
+
+// AsyncStorage is backed by localStorage on web, which is capped at a few MB
+// per origin and shared with the Supabase session.
+const STORAGE_KEY = 'travel-buddy-query-cache';
+
+// Bump whenever the shape of cached data changes (api types, query keys) so
+// older snapshots are discarded instead of being fed to newer screens.
+export const CACHE_SCHEMA_VERSION = 3;
+
+export const MAX_CACHE_BYTES = 1024 * 1024;
+export const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MESSAGES_PER_ROOM = 50;
+const SAVE_THROTTLE_MS = 1000;
+
+type PersistedCache = {
+  version: number;
+  savedAt: number;
+  state: DehydratedState;
+};
+
+type DehydratedQuery = DehydratedState['queries'][number];
+
+// Search results are keyed by filters holding Date objects, which don't
+// survive JSON, and are cheap to recompute once back online.
+const isPersistedKey = (queryKey: readonly unknown[]) => {
+  const [root, scope] = queryKey;
+  if (root === 'trips') return scope !== 'search';
+  return root === 'profiles' || root === 'chat';
+};
+
+// Only the tail of each chat history is kept: the newest page, cut down to
+// MAX_MESSAGES_PER_ROOM, with its cursor moved so older pages still load
+const trimQuery = (query: DehydratedQuery): DehydratedQuery => {
+  const [root, scope] = query.queryKey;
+  const data = query.state.data as InfiniteData<MessagePage> | undefined;
+  if (root !== 'chat' || scope !== 'messages' || !data?.pages?.length) return query;
+
+  const [newest] = data.pages;
+  const messages = newest.messages.slice(-MAX_MESSAGES_PER_ROOM);
+  const trimmed = messages.length < newest.messages.length;
+  const page: MessagePage = {
+    messages,
+    olderCursor: trimmed ? { sent_at: messages[0].sent_at, id: messages[0].id } : newest.olderCursor,
+  };
+
+  return {
+    ...query,
+    state: { ...query.state, data: { pages: [page], pageParams: [data.pageParams[0]] } },
+  };
+};
+
+/**
+ * Serializes the state, dropping the least recently updated queries until it
+ * fits within MAX_CACHE_BYTES.
+ */
+const serializeWithinCap = (state: DehydratedState) => {
+  const queries = [...state.queries].sort((a, b) => b.state.dataUpdatedAt - a.state.dataUpdatedAt);
+
+  while (true) {
+    const payload: PersistedCache = {
+      version: CACHE_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      state: { mutations: [], queries },
+    };
+    const serialized = JSON.stringify(payload);
+    if (serialized.length <= MAX_CACHE_BYTES || queries.length === 0) return serialized;
+    queries.pop();
+  }
+};
+
+export const persistQueryCache = async (queryClient: QueryClient) => {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: query => query.state.status === 'success' && isPersistedKey(query.queryKey),
+    shouldDehydrateMutation: () => false,
+  });
+
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      serializeWithinCap({ ...state, queries: state.queries.map(trimQuery) })
+    );
+  } catch (error) {
+    console.error('Error persisting query cache:', error);
+  }
+};
+
+/**
+ * Hydrates the query client from the last snapshot. Snapshots from another
+ * schema version or older than MAX_CACHE_AGE_MS are removed instead.
+ */
+export const restoreQueryCache = async (queryClient: QueryClient) => {
+  try {
+    const serialized = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!serialized) return;
+
+    const persisted: PersistedCache = JSON.parse(serialized);
+    if (persisted.version !== CACHE_SCHEMA_VERSION || Date.now() - persisted.savedAt > MAX_CACHE_AGE_MS) {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+
+    hydrate(queryClient, persisted.state);
+  } catch (error) {
+    console.error('Error restoring query cache:', error);
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const clearPersistedQueryCache = () => AsyncStorage.removeItem(STORAGE_KEY);
+
+/**
+ * Writes the cache to storage whenever it changes, at most once per
+ * SAVE_THROTTLE_MS. Returns an unsubscribe function.
+ */
+export const subscribeToQueryCache = (queryClient: QueryClient) => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    if (timeout) return;
+    timeout = setTimeout(() => {
+      timeout = null;
+      persistQueryCache(queryClient);
+    }, SAVE_THROTTLE_MS);
+  });
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,24 @@
+import { addDays } from 'date-fns';
+import type { Tables } from '../integrations/supabase/types';
+
+// Matches the window submit_rating enforces
+export const RATING_WINDOW_DAYS = 14;
+
+export const MAX_RATING_COMMENT_LENGTH = 500;
+
+/**
+ * Ratings for a trip can be given and changed until this moment.
+ */
+export const getRatingDeadline = (trip: Pick<Tables<'trips'>, 'end_date'>) =>
+  addDays(new Date(trip.end_date), RATING_WINDOW_DAYS);
+
+export const isRatingOpen = (trip: Pick<Tables<'trips'>, 'end_date' | 'cancelled_at'>, now = new Date()) =>
+  !trip.cancelled_at && new Date(trip.end_date) < now && now <= getRatingDeadline(trip);
+
+export const ratingLabels: Record<number, string> = {
+  1: 'Poor',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Very good',
+  5: 'Excellent',
+};
@@ -0,0 +1,31 @@
+import type { ChatMessage, ChatReadMarker } from '../api/chat';
+
+// Read markers are sent at most this often while scrolling
+export const READ_MARKER_DELAY_MS = 1000;
+
+export type SeenBy = {
+  count: number;
+  // Everyone else in the room has read it
+  everyone: boolean;
+};
+
+/**
+ * How many members other than the sender have read up to the message.
+ */
+export const getSeenBy = (message: Pick<ChatMessage, 'sender_id' | 'sent_at'>, markers: ChatReadMarker[]): SeenBy => {
+  const others = markers.filter(marker => marker.user_id !== message.sender_id);
+  const sentAt = new Date(message.sent_at).getTime();
+  const count = others.filter(marker => marker.last_read_at && new Date(marker.last_read_at).getTime() >= sentAt).length;
+  return { count, everyone: others.length > 0 && count === others.length };
+};
+
+export const formatSeenBy = ({ count, everyone }: SeenBy) => {
+  if (count === 0) return null;
+  return everyone ? 'Seen by everyone' : `Seen by ${count}`;
+};
+
+/**
+ * Total unread messages across rooms, for the tab badge.
+ */
+export const getTotalUnread = (rooms: { unread_count: number }[]) =>
+  rooms.reduce((total, room) => total + room.unread_count, 0);
@@ -0,0 +1,150 @@
+import type { Tables } from '../integrations/supabase/types';
+import { parseAmount } from './currencies';
+
+type RideFields = Pick<
+  Tables<'trips'>,
+  | 'price_per_seat'
+  | 'currency'
+  | 'budget'
+  | 'automatic_approval'
+  | 'keep_middle_seat_free'
+  | 'avoid_highways'
+  | 'avoid_tolls'
+  | 'leave_cutoff_hours'
+  | 'min_rating_average'
+  | 'require_complete_profile'
+>;
+
+/**
+ * Form state for the ride-sharing columns on trips. Amounts are kept as the
+ * text the user typed until the form is submitted.
+ */
+export type RideDetails = {
+  pricePerSeat: string;
+  currency: string;
+  budget: string;
+  automaticApproval: boolean;
+  keepMiddleSeatFree: boolean;
+  avoidHighways: boolean;
+  avoidTolls: boolean;
+  leaveCutoffHours: string;
+  // Empty when any rating is accepted
+  minRating: string;
+  requireCompleteProfile: boolean;
+};
+
+export type RidePreference = 'automaticApproval' | 'keepMiddleSeatFree' | 'avoidHighways' | 'avoidTolls';
+
+export const MAX_PRICE_PER_SEAT = 10000;
+export const MAX_LEAVE_CUTOFF_HOURS = 168;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+export const defaultRideDetails: RideDetails = {
+  pricePerSeat: '',
+  currency: 'EUR',
+  budget: '',
+  automaticApproval: false,
+  keepMiddleSeatFree: false,
+  avoidHighways: false,
+  avoidTolls: false,
+  leaveCutoffHours: '24',
+  minRating: '',
+  requireCompleteProfile: false,
+};
+
+export const ridePreferenceLabels: Record<RidePreference, { label: string; description: string }> = {
+  automaticApproval: {
+    label: 'Automatic approval',
+    description: 'Riders join without waiting for you to approve them',
+  },
+  keepMiddleSeatFree: {
+    label: 'Keep middle seat free',
+    description: 'Nobody sits in the middle of the back row',
+  },
+  avoidHighways: {
+    label: 'Avoid highways',
+    description: 'The route sticks to smaller roads',
+  },
+  avoidTolls: {
+    label: 'Avoid tolls',
+    description: 'The route skips toll roads',
+  },
+};
+
+// Null for an empty field, NaN for anything that isn't a rating like 4 or 4.5
+const parseMinRating = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return /^\d(\.\d)?$/.test(trimmed) ? parseFloat(trimmed) : NaN;
+};
+
+export const validateRideDetails = (details: RideDetails) => {
+  const errors: { [key: string]: string } = {};
+
+  const price = parseAmount(details.pricePerSeat);
+  if (Number.isNaN(price)) {
+    errors.pricePerSeat = 'Enter an amount like 12 or 12.50';
+  } else if (price !== null && price > MAX_PRICE_PER_SEAT) {
+    errors.pricePerSeat = `Price per seat can't be more than ${MAX_PRICE_PER_SEAT}`;
+  }
+
+  const budget = parseAmount(details.budget);
+  if (Number.isNaN(budget)) {
+    errors.budget = 'Enter an amount like 200 or 199.99';
+  }
+
+  if (!details.currency && (price !== null || budget !== null)) {
+    errors.currency = 'Choose a currency';
+  }
+
+  const leaveCutoffHours = /^\d+$/.test(details.leaveCutoffHours.trim()) ? parseInt(details.leaveCutoffHours) : NaN;
+  if (Number.isNaN(leaveCutoffHours) || leaveCutoffHours > MAX_LEAVE_CUTOFF_HOURS) {
+    errors.leaveCutoffHours = `Enter a whole number of hours between 0 and ${MAX_LEAVE_CUTOFF_HOURS}`;
+  }
+
+  const minRating = parseMinRating(details.minRating);
+  if (Number.isNaN(minRating) || (minRating !== null && (minRating < MIN_RATING || minRating > MAX_RATING))) {
+    errors.minRating = `Enter a rating between ${MIN_RATING} and ${MAX_RATING}, like 4 or 4.5`;
+  }
+
+  return errors;
+};
+
+export const toRideFields = (details: RideDetails): RideFields => ({
+  price_per_seat: parseAmount(details.pricePerSeat),
+  currency: details.currency || null,
+  budget: parseAmount(details.budget),
+  automatic_approval: details.automaticApproval,
+  keep_middle_seat_free: details.keepMiddleSeatFree,
+  avoid_highways: details.avoidHighways,
+  avoid_tolls: details.avoidTolls,
+  leave_cutoff_hours: parseInt(details.leaveCutoffHours),
+  min_rating_average: parseMinRating(details.minRating),
+  require_complete_profile: details.requireCompleteProfile,
+});
+
+export const fromRideFields = (trip: RideFields): RideDetails => ({
+  pricePerSeat: trip.price_per_seat !== null ? trip.price_per_seat.toString() : '',
+  currency: trip.currency || defaultRideDetails.currency,
+  budget: trip.budget !== null ? trip.budget.toString() : '',
+  automaticApproval: !!trip.automatic_approval,
+  keepMiddleSeatFree: !!trip.keep_middle_seat_free,
+  avoidHighways: !!trip.avoid_highways,
+  avoidTolls: !!trip.avoid_tolls,
+  leaveCutoffHours: trip.leave_cutoff_hours.toString(),
+  minRating: trip.min_rating_average !== null ? trip.min_rating_average.toFixed(1) : '',
+  requireCompleteProfile: trip.require_complete_profile,
+});
+
+export const activeRidePreferences = (
+  trip: Pick<RideFields, 'automatic_approval' | 'keep_middle_seat_free' | 'avoid_highways' | 'avoid_tolls'>
+): RidePreference[] => {
+  const enabled: Record<RidePreference, boolean | null> = {
+    automaticApproval: trip.automatic_approval,
+    keepMiddleSeatFree: trip.keep_middle_seat_free,
+    avoidHighways: trip.avoid_highways,
+    avoidTolls: trip.avoid_tolls,
+  };
+  return (Object.keys(enabled) as RidePreference[]).filter(preference => enabled[preference]);
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../integrations/supabase/client', () => ({ supabase: {} }));
+
+import { RouteSearch, RouteStop, buildRouteStops, matchRoute } from './routeMatching';
+import { LatLng, haversineDistanceKm, toPostgisPoint } from './geo';
+
+// Along the equator a degree of longitude is about 111 km
+const KM_PER_DEGREE = haversineDistanceKm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 });
+
+const at = (longitude: number, latitude = 0): LatLng => ({ latitude, longitude });
+
+const stop = (label: string, point: LatLng, waypointId: string | null = null): RouteStop => ({
+  waypoint_id: waypointId,
+  label,
+  point,
+});
+
+// West to east: A (0°) → B (1°) → C (2°)
+const route = [stop('A', at(0)), stop('B', at(1), 'b'), stop('C', at(2))];
+
+const search = (origin: LatLng, destination: LatLng, maxDistanceKm = 10): RouteSearch => ({
+  origin,
+  destination,
+  maxDistanceKm,
+});
+
+describe('matchRoute', () => {
+  it.each<[string, RouteStop[], RouteSearch]>([
+    ['the rider travels against the route', route, search(at(1.8), at(0.2))],
+    ['the pickup is outside the corridor', route, search(at(0.5, 0.2), at(1.5))],
+    ['the drop-off is outside the corridor', route, search(at(0.5), at(1.5, -0.2))],
+    ['the pickup is beyond the end of the route', route, search(at(-0.2), at(1.5))],
+    ['the route is a single point', [stop('A', at(0))], search(at(0), at(0.01))],
+    ['there is no route at all', [], search(at(0), at(1))],
+  ])('returns null when %s', (_, stops, rider) => {
+    expect(matchRoute(stops, rider)).toBeNull();
+  });
+
+  it('picks the nearest stops and measures the detour both ways', () => {
+    const match = matchRoute(route, search(at(0.1, 0.02), at(1.9, -0.03)));
+
+    expect(match).not.toBeNull();
+    expect(match!.pickup.label).toBe('A');
+    expect(match!.dropoff.label).toBe('C');
+    expect(match!.pickup_offset_km).toBeCloseTo(0.02 * KM_PER_DEGREE, 1);
+    expect(match!.dropoff_offset_km).toBeCloseTo(0.03 * KM_PER_DEGREE, 1);
+    expect(match!.detour_km).toBeCloseTo(2 * (match!.pickup_offset_km + match!.dropoff_offset_km), 6);
+    expect(match!.shared_distance_km).toBeCloseTo(1.8 * KM_PER_DEGREE, 0);
+  });
+
+  it('clamps a point off the end of a segment to the segment end', () => {
+    // 0.05° before A: within 10 km of the route, but only of its start
+    const match = matchRoute(route, search(at(-0.05), at(1.5)));
+
+    expect(match).not.toBeNull();
+    expect(match!.pickup.label).toBe('A');
+    expect(match!.pickup_offset_km).toBeCloseTo(0.05 * KM_PER_DEGREE, 1);
+    expect(match!.shared_distance_km).toBeCloseTo(1.5 * KM_PER_DEGREE, 0);
+  });
+
+  it('matches a pickup and drop-off on the same segment', () => {
+    const match = matchRoute(route, search(at(0.2), at(0.6)));
+
+    expect(match).not.toBeNull();
+    expect(match!.detour_km).toBeCloseTo(0, 6);
+    expect(match!.shared_distance_km).toBeCloseTo(0.4 * KM_PER_DEGREE, 0);
+    expect(match!.pickup.label).toBe('A');
+    expect(match!.dropoff.label).toBe('B');
+  });
+
+  it('keeps the drop-off stop after the pickup stop', () => {
+    // The rider starts next to B and ends just past it
+    const match = matchRoute(route, search(at(0.98), at(1.05)));
+
+    expect(match).not.toBeNull();
+    expect(match!.pickup.label).toBe('B');
+    expect(match!.dropoff.label).toBe('C');
+  });
+});
+
+describe('buildRouteStops', () => {
+  it('orders the waypoints between the origin and destination and skips unparseable ones', () => {
+    const stops = buildRouteStops({
+      origin_address: 'Start',
+      destination: 'End',
+      origin_latlon: toPostgisPoint(at(0)),
+      destination_latlon: toPostgisPoint(at(3)),
+      trip_waypoints: [
+        { id: 'w2', address: 'Second', sequence_order: 2, origin_latlon: toPostgisPoint(at(2)), destination_latlon: null },
+        { id: 'bad', address: 'Nowhere', sequence_order: 0, origin_latlon: 'garbage', destination_latlon: null },
+        { id: 'w1', address: 'First', sequence_order: 1, origin_latlon: null, destination_latlon: toPostgisPoint(at(1)) },
+      ],
+    });
+
+    expect(stops.map(s => [s.label, s.waypoint_id])).toEqual([
+      ['Start', null],
+      ['First', 'w1'],
+      ['Second', 'w2'],
+      ['End', null],
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { supabase } from '../integrations/supabase/client';
+import { LatLng, haversineDistanceKm, parsePostgisPoint } from './geo';
+
+export type RouteStop = {
+  // null for the trip's own origin and destination, which are not waypoints
+  waypoint_id: string | null;
+  label: string;
+  point: LatLng;
+};
+
+export type RouteSearch = {
+  origin: LatLng;
+  destination: LatLng;
+  maxDistanceKm: number;
+};
+
+export type RouteMatch = {
+  pickup: RouteStop;
+  dropoff: RouteStop;
+  // Straight-line distance between the rider's points and the route
+  pickup_offset_km: number;
+  dropoff_offset_km: number;
+  // Extra distance the driver covers to leave the route and come back
+  detour_km: number;
+  // Distance travelled along the route between pickup and drop-off
+  shared_distance_km: number;
+};
+
+export const corridorWidthOptionsKm = [2, 5, 10, 25];
+
+type MatchableWaypoint = {
+  id: string;
+  address: string;
+  sequence_order: number;
+  origin_latlon: unknown;
+  destination_latlon: unknown;
+};
+
+type MatchableTrip = {
+  origin_address: string | null;
+  destination: string;
+  origin_latlon: unknown;
+  destination_latlon: unknown;
+  trip_waypoints: MatchableWaypoint[];
+};
+
+type Projection = {
+  // Position along the polyline as segment index plus fraction, e.g. 1.25
+  position: number;
+  distance_km: number;
+  point: LatLng;
+};
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Builds the ordered stop list for a trip: its origin, the waypoints by
+ * sequence_order, then its destination. Stops without coordinates are skipped.
+ */
+export const buildRouteStops = (trip: MatchableTrip): RouteStop[] => {
+  const stops: RouteStop[] = [];
+
+  const origin = parsePostgisPoint(trip.origin_latlon);
+  if (origin) stops.push({ waypoint_id: null, label: trip.origin_address || 'Start', point: origin });
+
+  [...trip.trip_waypoints]
+    .sort((a, b) => a.sequence_order - b.sequence_order)
+    .forEach(waypoint => {
+      const point = parsePostgisPoint(waypoint.origin_latlon) ?? parsePostgisPoint(waypoint.destination_latlon);
+      if (point) stops.push({ waypoint_id: waypoint.id, label: waypoint.address, point });
+    });
+
+  const destination = parsePostgisPoint(trip.destination_latlon);
+  if (destination) stops.push({ waypoint_id: null, label: trip.destination, point: destination });
+
+  return stops;
+};
+
+// Closest point on the segment a-b to p, using an equirectangular projection
+// centred on p. Accurate enough for corridor widths of a few dozen km.
+const projectOntoSegment = (p: LatLng, a: LatLng, b: LatLng) => {
+  const kmPerLon = KM_PER_DEGREE * Math.cos((p.latitude * Math.PI) / 180);
+  const ax = (a.longitude - p.longitude) * kmPerLon;
+  const ay = (a.latitude - p.latitude) * KM_PER_DEGREE;
+  const bx = (b.longitude - p.longitude) * kmPerLon;
+  const by = (b.latitude - p.latitude) * KM_PER_DEGREE;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared));
+  const point = {
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t,
+  };
+  return { t, point, distance_km: haversineDistanceKm(p, point) };
+};
+
+const projectionsWithin = (p: LatLng, stops: RouteStop[], maxDistanceKm: number): Projection[] => {
+  const projections: Projection[] = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const projection = projectOntoSegment(p, stops[i].point, stops[i + 1].point);
+    if (projection.distance_km <= maxDistanceKm) {
+      projections.push({
+        position: i + projection.t,
+        distance_km: projection.distance_km,
+        point: projection.point,
+      });
+    }
+  }
+  return projections;
+};
+
+const distanceAlongRoute = (stops: RouteStop[], from: Projection, to: Projection) => {
+  const fromSegment = Math.min(Math.floor(from.position), stops.length - 2);
+  const toSegment = Math.min(Math.floor(to.position), stops.length - 2);
+  if (fromSegment === toSegment) return haversineDistanceKm(from.point, to.point);
+
+  let distance = haversineDistanceKm(from.point, stops[fromSegment + 1].point);
+  for (let i = fromSegment + 1; i < toSegment; i++) {
+    distance += haversineDistanceKm(stops[i].point, stops[i + 1].point);
+  }
+  return distance + haversineDistanceKm(stops[toSegment].point, to.point);
+};
+
+const nearestStop = (p: LatLng, stops: RouteStop[], fromIndex: number, toIndex: number) => {
+  let best = fromIndex;
+  for (let i = fromIndex + 1; i <= toIndex; i++) {
+    if (haversineDistanceKm(p, stops[i].point) < haversineDistanceKm(p, stops[best].point)) best = i;
+  }
+  return best;
+};
+
+/**
+ * Checks whether a trip's route passes within maxDistanceKm of both the
+ * rider's origin and destination, with the origin coming first. Returns the
+ * best pickup/drop-off pair or null when the trip doesn't fit.
+ */
+export const matchRoute = (stops: RouteStop[], search: RouteSearch): RouteMatch | null => {
+  if (stops.length < 2) return null;
+
+  const pickups = projectionsWithin(search.origin, stops, search.maxDistanceKm);
+  const dropoffs = projectionsWithin(search.destination, stops, search.maxDistanceKm);
+
+  let best: { pickup: Projection; dropoff: Projection } | null = null;
+  for (const pickup of pickups) {
+    for (const dropoff of dropoffs) {
+      if (dropoff.position <= pickup.position) continue;
+      const offset = pickup.distance_km + dropoff.distance_km;
+      if (!best || offset < best.pickup.distance_km + best.dropoff.distance_km) {
+        best = { pickup, dropoff };
+      }
+    }
+  }
+  if (!best) return null;
+
+  // Suggest the existing stops closest to the rider, keeping them in order.
+  // The pickup stop may be at most the start of the drop-off segment.
+  const dropoffSegmentEnd = Math.min(Math.ceil(best.dropoff.position), stops.length - 1);
+  const pickupIndex = nearestStop(search.origin, stops, 0, Math.max(dropoffSegmentEnd - 1, 0));
+  const dropoffIndex = nearestStop(search.destination, stops, pickupIndex + 1, stops.length - 1);
+
+  return {
+    pickup: stops[pickupIndex],
+    dropoff: stops[dropoffIndex],
+    pickup_offset_km: best.pickup.distance_km,
+    dropoff_offset_km: best.dropoff.distance_km,
+    detour_km: 2 * (best.pickup.distance_km + best.dropoff.distance_km),
+    shared_distance_km: distanceAlongRoute(stops, best.pickup, best.dropoff),
+  };
+};
+
+/**
+ * Matches upcoming trips against the rider's origin and destination. The
+ * database narrows them down to routes passing near both points; only those
+ * are loaded to work out the stops and distances.
+ */
+export const findRouteMatches = async (search: RouteSearch): Promise<Map<string, RouteMatch>> => {
+  const { data: tripIds, error: candidatesError } = await supabase.rpc('trips_along_route', {
+    p_origin_latitude: search.origin.latitude,
+    p_origin_longitude: search.origin.longitude,
+    p_destination_latitude: search.destination.latitude,
+    p_destination_longitude: search.destination.longitude,
+    p_max_distance_km: search.maxDistanceKm,
+  });
+
+  if (candidatesError) throw candidatesError;
+  if (!tripIds || tripIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('trips')
+    .select(`
+      id,
+      origin_address,
+      destination,
+      origin_latlon,
+      destination_latlon,
+      trip_waypoints(id, address, sequence_order, origin_latlon, destination_latlon)
+    `)
+    .in('id', tripIds);
+
+  if (error) throw error;
+
+  const matches = new Map<string, RouteMatch>();
+  (data || []).forEach(trip => {
+    const match = matchRoute(buildRouteStops(trip), search);
+    if (match) matches.set(trip.id, match);
+  });
+  return matches;
+};
@@ -0,0 +1,64 @@
+/**
+ * A vehicle is described by the number of seats in each row, front to back,
+ * e.g. [2, 3] for a regular car. Seats are named like on a plane: row
+ * number plus a letter from the left, so the driver always sits in 1A.
+ * The centre seat of a three-seat row is the middle seat that
+ * keep_middle_seat_free blocks. Mirrors trip_seats in the database.
+ */
+export type SeatRows = number[];
+
+export type SeatKind = 'driver' | 'passenger' | 'blocked';
+
+export type Seat = {
+  id: string;
+  row: number;
+  kind: SeatKind;
+};
+
+export const MAX_SEAT_ROWS = 6;
+export const MAX_SEATS_PER_ROW = 4;
+
+export const seatLayoutPresets: { label: string; rows: SeatRows }[] = [
+  { label: 'Small car', rows: [2, 2] },
+  { label: 'Car', rows: [2, 3] },
+  { label: '7-seater', rows: [2, 3, 2] },
+  { label: 'Minivan', rows: [2, 3, 3] },
+  { label: 'Van', rows: [3, 3, 3] },
+];
+
+const isMiddleSeat = (seatsInRow: number, index: number) => seatsInRow === 3 && index === 1;
+
+/**
+ * Every seat grouped by row, with the driver's seat and any blocked middle
+ * seats marked.
+ */
+export const getSeatRows = (rows: SeatRows, keepMiddleSeatFree: boolean): Seat[][] =>
+  rows.map((seatsInRow, rowIndex) =>
+    Array.from({ length: seatsInRow }, (_, index) => ({
+      id: `${rowIndex + 1}${String.fromCharCode(65 + index)}`,
+      row: rowIndex + 1,
+      kind: rowIndex === 0 && index === 0
+        ? 'driver'
+        : keepMiddleSeatFree && isMiddleSeat(seatsInRow, index)
+          ? 'blocked'
+          : 'passenger',
+    }))
+  );
+
+/**
+ * People the vehicle can take, driver included, which is how
+ * max_participants counts them. The database caps max_participants at
+ * this number whenever a layout is saved.
+ */
+export const getSeatCapacity = (rows: SeatRows, keepMiddleSeatFree: boolean) =>
+  getSeatRows(rows, keepMiddleSeatFree).flat().filter(seat => seat.kind !== 'blocked').length;
+
+export const validateSeatRows = (rows: SeatRows) => {
+  if (rows.length === 0 || rows.length > MAX_SEAT_ROWS) {
+    return `A vehicle needs between 1 and ${MAX_SEAT_ROWS} rows`;
+  }
+  if (rows.some(seats => seats < 1 || seats > MAX_SEATS_PER_ROW)) {
+    return `Each row needs between 1 and ${MAX_SEATS_PER_ROW} seats`;
+  }
+  return null;
+};
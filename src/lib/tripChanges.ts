@@ -0,0 +1,114 @@
+import { format } from 'date-fns';
+import { formatPrice } from './currencies';
+import { RidePreference, activeRidePreferences, ridePreferenceLabels } from './rideDetails';
+import { TripFormValues, toTripFields } from './tripForm';
+
+const formatDateRange = (start: Date, end: Date) =>
+  `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`;
+
+const formatAmount = (amount: number | null, currency: string | null) =>
+  amount === null ? 'not set' : formatPrice(amount, currency);
+
+/**
+ * One line per change an edit made, in the words riders see in the trip
+ * chat, e.g. "Dates moved: 3 Jun – 9 Jun 2025 → 5 Jun – 11 Jun 2025".
+ * Empty when the edit changed nothing.
+ */
+export const describeTripChanges = (before: TripFormValues, after: TripFormValues): string[] => {
+  const previous = toTripFields(before);
+  const next = toTripFields(after);
+  const changes: string[] = [];
+
+  if (previous.title !== next.title) {
+    changes.push(`Title changed to "${next.title}"`);
+  }
+  if (previous.description !== next.description) {
+    changes.push('Description updated');
+  }
+  if (previous.origin_place_id !== next.origin_place_id) {
+    changes.push(`Start moved: ${previous.origin_address} → ${next.origin_address}`);
+  }
+  if (previous.destination_place_id !== next.destination_place_id) {
+    changes.push(`Destination changed: ${previous.destination} → ${next.destination}`);
+  }
+
+  const previousDates = formatDateRange(before.startDate, before.endDate);
+  const nextDates = formatDateRange(after.startDate, after.endDate);
+  if (previousDates !== nextDates) {
+    changes.push(`Dates moved: ${previousDates} → ${nextDates}`);
+  }
+
+  if (previous.max_participants !== next.max_participants) {
+    changes.push(`Seats changed: ${previous.max_participants} → ${next.max_participants}`);
+  }
+
+  const priceCurrencyChanged = next.price_per_seat !== null && previous.currency !== next.currency;
+  if (previous.price_per_seat !== next.price_per_seat || priceCurrencyChanged) {
+    changes.push(
+      `Price changed: ${formatAmount(previous.price_per_seat, previous.currency)} → ` +
+      `${formatAmount(next.price_per_seat, next.currency)} per seat`
+    );
+  }
+
+  const budgetCurrencyChanged = next.budget !== null && previous.currency !== next.currency;
+  if (previous.budget !== next.budget || budgetCurrencyChanged) {
+    changes.push(
+      `Budget changed: ${formatAmount(previous.budget, previous.currency)} → ` +
+      `${formatAmount(next.budget, next.currency)}`
+    );
+  }
+
+  if (previous.leave_cutoff_hours !== next.leave_cutoff_hours) {
+    changes.push(
+      `Riders can now leave until ${next.leave_cutoff_hours} hours before departure ` +
+      `(was ${previous.leave_cutoff_hours})`
+    );
+  }
+
+  if (previous.min_rating_average !== next.min_rating_average) {
+    changes.push(
+      next.min_rating_average === null
+        ? 'Minimum rating removed'
+        : `Minimum rating set to ${next.min_rating_average.toFixed(1)}`
+    );
+  }
+  if (previous.require_complete_profile !== next.require_complete_profile) {
+    changes.push(
+      next.require_complete_profile ? 'A complete profile is now required to join' : 'A complete profile is no longer required'
+    );
+  }
+
+  if (String(previous.seat_rows) !== String(next.seat_rows)) {
+    changes.push(next.seat_rows ? 'Seat layout updated' : 'Seat layout removed');
+  }
+
+  const previousPreferences = activeRidePreferences(previous);
+  const nextPreferences = activeRidePreferences(next);
+  (Object.keys(ridePreferenceLabels) as RidePreference[]).forEach(preference => {
+    const wasOn = previousPreferences.includes(preference);
+    const isOn = nextPreferences.includes(preference);
+    if (wasOn !== isOn) {
+      changes.push(`${ridePreferenceLabels[preference].label} turned ${isOn ? 'on' : 'off'}`);
+    }
+  });
+
+  const previousIds = before.waypoints.map(waypoint => waypoint.id);
+  const nextIds = after.waypoints.map(waypoint => waypoint.id);
+  after.waypoints
+    .filter(waypoint => !previousIds.includes(waypoint.id))
+    .forEach(waypoint => changes.push(`Waypoint added: ${waypoint.address}`));
+  before.waypoints
+    .filter(waypoint => !nextIds.includes(waypoint.id))
+    .forEach(waypoint => changes.push(`Waypoint removed: ${waypoint.address}`));
+
+  const keptBefore = previousIds.filter(id => nextIds.includes(id));
+  const keptAfter = nextIds.filter(id => previousIds.includes(id));
+  if (keptBefore.join() !== keptAfter.join()) {
+    changes.push('Waypoints reordered');
+  }
+
+  return changes;
+};
+
+export const formatTripChangesMessage = (changes: string[]) =>
+  ['The organizer updated this trip:', ...changes.map(change => `• ${change}`)].join('\n');
@@ -0,0 +1,147 @@
+import type { Place } from './geocoding';
+import { RideDetails, defaultRideDetails, fromRideFields, toRideFields, validateRideDetails } from './rideDetails';
+import { SeatRows, getSeatCapacity, validateSeatRows } from './seatLayout';
+import { Trip, destinationPlaceFields, originPlaceFields, tripDestinationPlace, tripOriginPlace } from '../api/trips';
+import type { Waypoint } from '../api/waypoints';
+
+/**
+ * A waypoint as edited in the trip form. Saved waypoints keep their row id;
+ * waypoints added in the form get a temporary one.
+ */
+export type DraftWaypoint = {
+  id: string;
+  place_id: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  sequence_order: number;
+};
+
+/**
+ * Form state shared by the create and edit trip screens.
+ */
+export type TripFormValues = {
+  title: string;
+  description: string;
+  origin: Place | null;
+  destination: Place | null;
+  maxParticipants: string;
+  startDate: Date;
+  endDate: Date;
+  rideDetails: RideDetails;
+  // Null when the organizer hasn't described their vehicle
+  seatRows: SeatRows | null;
+  waypoints: DraftWaypoint[];
+};
+
+export const MIN_PARTICIPANTS = 2;
+
+export const defaultTripFormValues = (): TripFormValues => ({
+  title: '',
+  description: '',
+  origin: null,
+  destination: null,
+  maxParticipants: '4',
+  startDate: new Date(),
+  endDate: new Date(new Date().setDate(new Date().getDate() + 7)),
+  rideDetails: defaultRideDetails,
+  seatRows: null,
+  waypoints: [],
+});
+
+export const fromTrip = (trip: Trip, waypoints: Waypoint[]): TripFormValues => ({
+  title: trip.title || '',
+  description: trip.description || '',
+  origin: tripOriginPlace(trip),
+  destination: tripDestinationPlace(trip),
+  maxParticipants: trip.max_participants !== null ? trip.max_participants.toString() : '',
+  startDate: new Date(trip.start_date),
+  endDate: new Date(trip.end_date),
+  rideDetails: fromRideFields(trip),
+  seatRows: trip.seat_rows,
+  waypoints: waypoints
+    .filter(waypoint => waypoint.location)
+    .map(waypoint => ({
+      id: waypoint.id,
+      place_id: waypoint.place_id,
+      address: waypoint.address,
+      latitude: waypoint.location.latitude,
+      longitude: waypoint.location.longitude,
+      sequence_order: waypoint.sequence_order,
+    })),
+});
+
+/**
+ * Field errors keyed like the form inputs. `minParticipants` lets the edit
+ * screen refuse to shrink a trip below the riders already approved.
+ */
+export const validateTripForm = (values: TripFormValues, { minParticipants = MIN_PARTICIPANTS } = {}) => {
+  const errors: { [key: string]: string } = validateRideDetails(values.rideDetails);
+
+  if (!values.title.trim()) errors.title = 'Title is required';
+  if (!values.description.trim()) errors.description = 'Description is required';
+  if (!values.origin) errors.origin = 'Choose a start location from the list or the map';
+  if (!values.destination) errors.destination = 'Choose a destination from the list or the map';
+
+  const maxParticipants = parseInt(values.maxParticipants);
+  if (isNaN(maxParticipants) || maxParticipants < MIN_PARTICIPANTS) {
+    errors.maxParticipants = `Must allow at least ${MIN_PARTICIPANTS} participants`;
+  } else if (maxParticipants < minParticipants) {
+    errors.maxParticipants = `${minParticipants} people have already joined this trip`;
+  }
+
+  const seatRowsError = values.seatRows && validateSeatRows(values.seatRows);
+  if (seatRowsError) {
+    errors.seatRows = seatRowsError;
+  } else if (values.seatRows && !errors.maxParticipants) {
+    const capacity = getSeatCapacity(values.seatRows, values.rideDetails.keepMiddleSeatFree);
+    if (maxParticipants > capacity) {
+      errors.maxParticipants = `Your vehicle takes ${capacity} people including you`;
+    }
+  }
+
+  if (values.endDate < values.startDate) {
+    errors.endDate = 'End date must be after start date';
+  }
+
+  return errors;
+};
+
+/**
+ * The trip columns a valid form maps to. The organizer is left out so the
+ * same fields work for inserts and updates.
+ */
+export const toTripFields = (values: TripFormValues) => ({
+  title: values.title,
+  description: values.description,
+  ...originPlaceFields(values.origin),
+  ...destinationPlaceFields(values.destination),
+  start_date: values.startDate.toISOString(),
+  end_date: values.endDate.toISOString(),
+  max_participants: parseInt(values.maxParticipants),
+  ...toRideFields(values.rideDetails),
+  seat_rows: values.seatRows,
+});
+
+/**
+ * Splits an edited waypoint list into the saved rows to keep, whose
+ * position may have changed, and the new waypoints to insert. Saved rows
+ * missing from the list are deleted when the edit is saved.
+ */
+export const waypointChanges = (saved: DraftWaypoint[], edited: DraftWaypoint[]) => {
+  const savedIds = saved.map(waypoint => waypoint.id);
+
+  return {
+    kept: edited
+      .filter(waypoint => savedIds.includes(waypoint.id))
+      .map(({ id, sequence_order }) => ({ id, sequence_order })),
+    added: edited
+      .filter(waypoint => !savedIds.includes(waypoint.id))
+      .map(waypoint => ({
+        place_id: waypoint.place_id,
+        address: waypoint.address,
+        location: { latitude: waypoint.latitude, longitude: waypoint.longitude },
+        sequence_order: waypoint.sequence_order,
+      })),
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TripAction,
+  TripStatus,
+  canPerform,
+  canTransition,
+  getLeaveDeadline,
+  getTripStatus,
+  isBeforeLeaveDeadline,
+} from './tripLifecycle';
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+const trip = (fields: Partial<Parameters<typeof getTripStatus>[0]> = {}) => ({
+  published_at: '2025-06-01T00:00:00Z',
+  cancelled_at: null,
+  start_date: '2025-06-20T08:00:00Z',
+  end_date: '2025-06-22T18:00:00Z',
+  max_participants: 4,
+  ...fields,
+});
+
+describe('getTripStatus', () => {
+  it.each<[string, ReturnType<typeof trip>, number, TripStatus]>([
+    ['unpublished trips are drafts', trip({ published_at: null }), 0, 'draft'],
+    ['published trips with seats left are open', trip(), 2, 'published'],
+    ['published trips without seats left are full', trip(), 4, 'full'],
+    ['trips without a capacity never fill up', trip({ max_participants: null }), 50, 'published'],
+    ['trips that have started are in progress', trip({ start_date: '2025-06-15T12:00:00Z' }), 0, 'in_progress'],
+    ['full trips that have started are in progress', trip({ start_date: '2025-06-14T08:00:00Z' }), 4, 'in_progress'],
+    ['trips that have ended are completed', trip({ start_date: '2025-06-10T08:00:00Z', end_date: '2025-06-12T18:00:00Z' }), 0, 'completed'],
+    ['cancelled trips stay cancelled', trip({ cancelled_at: '2025-06-10T00:00:00Z' }), 0, 'cancelled'],
+    ['cancelled drafts are cancelled', trip({ published_at: null, cancelled_at: '2025-06-10T00:00:00Z' }), 0, 'cancelled'],
+    ['cancelled trips in the past are cancelled', trip({ cancelled_at: '2025-06-01T00:00:00Z', end_date: '2025-06-02T00:00:00Z' }), 0, 'cancelled'],
+  ])('%s', (_, fields, participantCount, expected) => {
+    expect(getTripStatus(fields, { participantCount, now })).toBe(expected);
+  });
+});
+
+describe('canTransition', () => {
+  it.each<[TripStatus, TripStatus, boolean]>([
+    ['draft', 'published', true],
+    ['draft', 'cancelled', true],
+    ['draft', 'completed', false],
+    ['published', 'full', true],
+    ['published', 'in_progress', true],
+    ['published', 'cancelled', true],
+    ['published', 'draft', false],
+    ['full', 'published', true],
+    ['in_progress', 'completed', true],
+    ['in_progress', 'cancelled', false],
+    ['completed', 'published', false],
+    ['cancelled', 'published', false],
+  ])('%s -> %s is %s', (from, to, expected) => {
+    expect(canTransition(from, to)).toBe(expected);
+  });
+});
+
+describe('canPerform', () => {
+  it.each<[TripStatus, TripAction, boolean]>([
+    ['draft', 'edit', true],
+    ['draft', 'publish', true],
+    ['draft', 'join', false],
+    ['draft', 'chat', false],
+    ['published', 'join', true],
+    ['published', 'approve', true],
+    ['published', 'waitlist', false],
+    ['published', 'publish', false],
+    ['full', 'join', false],
+    ['full', 'waitlist', true],
+    ['full', 'approve', false],
+    ['in_progress', 'leave', false],
+    ['in_progress', 'edit', false],
+    ['in_progress', 'chat', true],
+    ['completed', 'rate', true],
+    ['completed', 'cancel', false],
+    ['cancelled', 'join', false],
+    ['cancelled', 'delete', true],
+  ])('%s allows %s: %s', (status, action, expected) => {
+    expect(canPerform(status, action)).toBe(expected);
+  });
+});
+
+describe('leave deadline', () => {
+  const leaving = { start_date: '2025-06-20T08:00:00Z', leave_cutoff_hours: 24 };
+
+  it('falls the given number of hours before departure', () => {
+    expect(getLeaveDeadline(leaving)).toEqual(new Date('2025-06-19T08:00:00Z'));
+    expect(getLeaveDeadline({ ...leaving, leave_cutoff_hours: 0 })).toEqual(new Date(leaving.start_date));
+  });
+
+  it.each<[string, string, boolean]>([
+    ['a day before the deadline', '2025-06-18T08:00:00Z', true],
+    ['a millisecond before the deadline', '2025-06-19T07:59:59.999Z', true],
+    ['at the deadline', '2025-06-19T08:00:00Z', true],
+    ['a millisecond after the deadline', '2025-06-19T08:00:00.001Z', false],
+    ['after departure', '2025-06-20T09:00:00Z', false],
+  ])('lets riders leave %s: %s', (_, at, expected) => {
+    expect(isBeforeLeaveDeadline(leaving, new Date(at))).toBe(expected);
+  });
+});
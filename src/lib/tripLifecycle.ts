@@ -0,0 +1,106 @@
+import { subHours } from 'date-fns';
+import type { Tables } from '../integrations/supabase/types';
+
+/**
+ * Where a trip is in its life. Only draft, published and cancelled are
+ * stored (as published_at and cancelled_at); the rest follow from the
+ * dates and the number of approved participants.
+ */
+export type TripStatus = 'draft' | 'published' | 'full' | 'in_progress' | 'completed' | 'cancelled';
+
+export type TripAction =
+  | 'edit'
+  | 'publish'
+  | 'join'
+  | 'waitlist'
+  | 'approve'
+  | 'reject'
+  | 'remove'
+  | 'leave'
+  | 'choose_seat'
+  | 'cancel'
+  | 'delete'
+  | 'chat'
+  | 'rate';
+
+type LifecycleFields = Pick<
+  Tables<'trips'>,
+  'published_at' | 'cancelled_at' | 'start_date' | 'end_date' | 'max_participants'
+>;
+
+export type TripStatusOptions = {
+  // Approved participants; only needed to tell published from full
+  participantCount?: number;
+  now?: Date;
+};
+
+export const getTripStatus = (
+  trip: LifecycleFields,
+  { participantCount = 0, now = new Date() }: TripStatusOptions = {}
+): TripStatus => {
+  if (trip.cancelled_at) return 'cancelled';
+  if (!trip.published_at) return 'draft';
+  if (new Date(trip.end_date) < now) return 'completed';
+  if (new Date(trip.start_date) <= now) return 'in_progress';
+  if (trip.max_participants !== null && participantCount >= trip.max_participants) return 'full';
+  return 'published';
+};
+
+/**
+ * Moves a trip can make. Published and full flip back and forth as riders
+ * join and leave; everything else only moves forward.
+ */
+export const tripTransitions: Record<TripStatus, TripStatus[]> = {
+  draft: ['published', 'cancelled'],
+  published: ['full', 'in_progress', 'cancelled'],
+  full: ['published', 'in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+};
+
+const allowedActions: Record<TripStatus, TripAction[]> = {
+  draft: ['edit', 'publish', 'delete'],
+  published: ['edit', 'join', 'approve', 'reject', 'remove', 'leave', 'choose_seat', 'cancel', 'delete', 'chat'],
+  full: ['edit', 'waitlist', 'reject', 'remove', 'leave', 'choose_seat', 'cancel', 'delete', 'chat'],
+  in_progress: ['chat'],
+  completed: ['chat', 'rate'],
+  cancelled: ['chat', 'delete'],
+};
+
+export const canTransition = (from: TripStatus, to: TripStatus) => tripTransitions[from].includes(to);
+
+export const canPerform = (status: TripStatus, action: TripAction) => allowedActions[status].includes(action);
+
+/**
+ * Last moment an approved rider can leave the trip. Pending and waitlisted
+ * requests can be withdrawn at any time.
+ */
+export const getLeaveDeadline = (trip: Pick<Tables<'trips'>, 'start_date' | 'leave_cutoff_hours'>) =>
+  subHours(new Date(trip.start_date), trip.leave_cutoff_hours);
+
+/**
+ * Matches leave_trip, which still lets a rider leave at the deadline itself.
+ */
+export const isBeforeLeaveDeadline = (
+  trip: Pick<Tables<'trips'>, 'start_date' | 'leave_cutoff_hours'>,
+  now = new Date()
+) => now <= getLeaveDeadline(trip);
+
+export const tripStatusLabels: Record<TripStatus, string> = {
+  draft: 'Draft',
+  published: 'Open',
+  full: 'Full',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const tripStatusColors: Record<TripStatus, string> = {
+  draft: '#7f8c8d',
+  published: '#2ecc71',
+  full: '#f39c12',
+  in_progress: '#3498db',
+  completed: '#2c3e50',
+  cancelled: '#e74c3c',
+};
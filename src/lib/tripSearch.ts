@@ -0,0 +1,197 @@
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+import { NearbySearch, findTripDistances } from './nearbyTrips';
+import { RouteMatch, RouteSearch, findRouteMatches } from './routeMatching';
+
+export type TripSortOption = 'start_date' | 'price_low' | 'price_high' | 'seats_left' | 'distance' | 'detour';
+
+export type TripSearchFilters = {
+  destination: string;
+  origin: string;
+  startDateFrom: Date | null;
+  startDateTo: Date | null;
+  // Only applied together with currency: prices in different currencies
+  // can't be compared
+  maxPrice: number | null;
+  currency: string | null;
+  minSeatsLeft: number;
+  near: NearbySearch | null;
+  route: RouteSearch | null;
+  sort: TripSortOption;
+};
+
+export type TripSearchResult = Pick<
+  Tables<'trips'>,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'start_date'
+  | 'end_date'
+  | 'origin_address'
+  | 'origin_city'
+  | 'origin_country'
+  | 'destination'
+  | 'destination_city'
+  | 'destination_country'
+  | 'price_per_seat'
+  | 'currency'
+  | 'max_participants'
+> & {
+  participant_count: number;
+  seats_left: number;
+  distance_km: number | null;
+  route_match: RouteMatch | null;
+};
+
+export const defaultTripSearchFilters: TripSearchFilters = {
+  destination: '',
+  origin: '',
+  startDateFrom: null,
+  startDateTo: null,
+  maxPrice: null,
+  currency: null,
+  minSeatsLeft: 0,
+  near: null,
+  route: null,
+  sort: 'start_date',
+};
+
+export const tripSortLabels: Record<TripSortOption, string> = {
+  start_date: 'Soonest',
+  price_low: 'Price: low to high',
+  price_high: 'Price: high to low',
+  seats_left: 'Most seats left',
+  distance: 'Nearest',
+  detour: 'Shortest detour',
+};
+
+/**
+ * Falls back to sorting by date when the sort needs a filter that is no
+ * longer set: distance needs a nearby search and detour a route.
+ */
+export const withAvailableSort = (filters: TripSearchFilters): TripSearchFilters =>
+  (filters.sort === 'distance' && !filters.near) || (filters.sort === 'detour' && !filters.route)
+    ? { ...filters, sort: 'start_date' }
+    : filters;
+
+// PostgREST `or` filters use commas and parentheses as separators, so they
+// are stripped from free-text input before building an ilike pattern.
+const toIlikePattern = (text: string) => `%${text.trim().replace(/[,()%]/g, ' ')}%`;
+
+/**
+ * Counts how many filters differ from the defaults, ignoring the sort order.
+ * Used to badge the filter button on the Explore tab.
+ */
+export const countActiveFilters = (filters: TripSearchFilters) => {
+  let count = 0;
+  if (filters.destination.trim()) count++;
+  if (filters.origin.trim()) count++;
+  if (filters.startDateFrom || filters.startDateTo) count++;
+  if (filters.maxPrice !== null && filters.currency) count++;
+  if (filters.currency) count++;
+  if (filters.minSeatsLeft > 0) count++;
+  if (filters.near) count++;
+  if (filters.route) count++;
+  return count;
+};
+
+const compareResults = (sort: TripSortOption) => (a: TripSearchResult, b: TripSearchResult) => {
+  switch (sort) {
+    case 'price_low':
+      return (a.price_per_seat ?? Infinity) - (b.price_per_seat ?? Infinity);
+    case 'price_high':
+      return (b.price_per_seat ?? -Infinity) - (a.price_per_seat ?? -Infinity);
+    case 'seats_left':
+      return b.seats_left - a.seats_left;
+    case 'distance':
+      return (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity);
+    case 'detour':
+      return (a.route_match?.detour_km ?? Infinity) - (b.route_match?.detour_km ?? Infinity);
+    default:
+      return new Date(a.start_date).getTime() - new Date(b.start_date).getTime();
+  }
+};
+
+export const searchTrips = async (filters: TripSearchFilters): Promise<TripSearchResult[]> => {
+  const [distances, routeMatches] = await Promise.all([
+    filters.near ? findTripDistances(filters.near) : null,
+    filters.route ? findRouteMatches(filters.route) : null,
+  ]);
+  if (distances?.size === 0 || routeMatches?.size === 0) return [];
+
+  let query = supabase
+    .from('trips')
+    .select(`
+      id,
+      title,
+      description,
+      start_date,
+      end_date,
+      origin_address,
+      origin_city,
+      origin_country,
+      destination,
+      destination_city,
+      destination_country,
+      price_per_seat,
+      currency,
+      max_participants,
+      trip_participants(approved)
+    `)
+    .not('published_at', 'is', null)
+    .is('cancelled_at', null);
+
+  if (distances) {
+    query = query.in('id', Array.from(distances.keys()));
+  }
+
+  if (routeMatches) {
+    query = query.in('id', Array.from(routeMatches.keys()));
+  }
+
+  if (filters.destination.trim()) {
+    const pattern = toIlikePattern(filters.destination);
+    query = query.or(
+      `destination.ilike.${pattern},destination_city.ilike.${pattern},destination_country.ilike.${pattern}`
+    );
+  }
+
+  if (filters.origin.trim()) {
+    const pattern = toIlikePattern(filters.origin);
+    query = query.or(
+      `origin_address.ilike.${pattern},origin_city.ilike.${pattern},origin_country.ilike.${pattern}`
+    );
+  }
+
+  // Without an explicit range only upcoming trips are worth exploring
+  query = query.gte('start_date', (filters.startDateFrom ?? new Date()).toISOString());
+  if (filters.startDateTo) {
+    query = query.lte('start_date', filters.startDateTo.toISOString());
+  }
+
+  if (filters.currency) {
+    query = query.eq('currency', filters.currency);
+
+    if (filters.maxPrice !== null) {
+      query = query.lte('price_per_seat', filters.maxPrice);
+    }
+  }
+
+  const { data, error } = await query.order('start_date', { ascending: true });
+  if (error) throw error;
+
+  const results = (data || []).map(({ trip_participants, ...trip }) => {
+    const participantCount = trip_participants.filter(p => p.approved).length;
+    return {
+      ...trip,
+      participant_count: participantCount,
+      seats_left: Math.max((trip.max_participants ?? 0) - participantCount, 0),
+      distance_km: distances?.get(trip.id) ?? null,
+      route_match: routeMatches?.get(trip.id) ?? null,
+    };
+  });
+
+  return results
+    .filter(trip => trip.seats_left >= filters.minSeatsLeft)
+    .sort(compareResults(filters.sort));
+};
@@ -6,6 +6,8 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { ActivityIndicator, View, Text } from 'react-native';
 import { useAuth } from '../context/AuthContext';
+import { useOutboxSync } from '../hooks/use-outbox';
+import { useChatInboxSync, useUnreadChatCount } from '../hooks/use-chat';
 
 // Auth Screens
 import SignInScreen from '../screens/auth/SignInScreen';
@@ -14,11 +16,17 @@ import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
 
 // Main Screens
 import TripsScreen from '../screens/main/TripsScreen';
+import ExploreScreen from '../screens/main/ExploreScreen';
 import ProfileScreen from '../screens/main/ProfileScreen';
 import CreateTripScreen from '../screens/main/CreateTripScreen';
 import TripDetailsScreen from '../screens/main/TripDetailsScreen';
+import EditTripScreen from '../screens/main/EditTripScreen';
 import EditProfileScreen from '../screens/main/EditProfileScreen';
 import TripChatScreen from '../screens/main/TripChatScreen';
+import RateTripScreen from '../screens/main/RateTripScreen';
+import ChatInboxScreen from '../screens/main/ChatInboxScreen';
+import ReviewsScreen from '../screens/main/ReviewsScreen';
+import UserProfileScreen from '../screens/main/UserProfileScreen';
 
 // Navigation Types
 import { RootStackParamList, AuthStackParamList, MainTabParamList, MainStackParamList } from './types';
@@ -44,6 +52,9 @@ const AuthNavigator = () => {
 };
 
 const MainTabs = () => {
+  const { user } = useAuth();
+  const unreadChats = useUnreadChatCount(user?.id);
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -66,6 +77,8 @@ const MainTabs = () => {
             iconName = focused ? 'map' : 'map-outline';
           } else if (route.name === 'Explore') {
             iconName = focused ? 'compass' : 'compass-outline';
+          } else if (route.name === 'Chats') {
+            iconName = focused ? 'chatbubbles' : 'chatbubbles-outline';
           } else if (route.name === 'Profile') {
             iconName = focused ? 'person-circle' : 'person-circle-outline';
           }
@@ -81,6 +94,21 @@ const MainTabs = () => {
           title: 'My Trips'
         }}
       />
+      <Tab.Screen 
+        name="Explore" 
+        component={ExploreScreen}
+        options={{
+          title: 'Explore'
+        }}
+      />
+      <Tab.Screen 
+        name="Chats" 
+        component={ChatInboxScreen}
+        options={{
+          title: 'Chats',
+          tabBarBadge: unreadChats > 0 ? (unreadChats > 99 ? '99+' : unreadChats) : undefined,
+        }}
+      />
       <Tab.Screen 
         name="Profile" 
         component={ProfileScreen}
@@ -93,6 +121,12 @@ const MainTabs = () => {
 };
 
 const MainNavigator = () => {
+  const { user } = useAuth();
+
+  // Replay queued actions while a user is signed in
+  useOutboxSync();
+  useChatInboxSync(user?.id);
+
   return (
     <MainStack.Navigator
       screenOptions={{
@@ -117,6 +151,14 @@ const MainNavigator = () => {
           headerShown: false
         }}
       />
+      <MainStack.Screen 
+        name="EditTrip" 
+        component={EditTripScreen} 
+        options={{
+          headerShown: true,
+          title: 'Edit Trip',
+        }}
+      />
       <MainStack.Screen 
         name="EditProfile" 
         component={EditProfileScreen} 
@@ -131,6 +173,30 @@ const MainNavigator = () => {
           headerShown: false
         }}
       />
+      <MainStack.Screen 
+        name="RateTrip" 
+        component={RateTripScreen} 
+        options={{
+          headerShown: true,
+          title: 'Rate Your Trip',
+        }}
+      />
+      <MainStack.Screen 
+        name="Reviews" 
+        component={ReviewsScreen} 
+        options={{
+          headerShown: true,
+          title: 'Reviews',
+        }}
+      />
+      <MainStack.Screen 
+        name="UserProfile" 
+        component={UserProfileScreen} 
+        options={{
+          headerShown: true,
+          title: 'Profile',
+        }}
+      />
     </MainStack.Navigator>
   );
 };
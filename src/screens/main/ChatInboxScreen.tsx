@@ -0,0 +1,264 @@
+import React from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CompositeScreenProps } from '@react-navigation/native';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { format, isToday, isYesterday } from 'date-fns';
+import { MainTabParamList, MainStackParamList } from '../../navigation/types';
+import { useAuth } from '../../context/AuthContext';
+import { ChatInboxRoom } from '../../api/chat';
+import { useChatInbox } from '../../hooks/use-chat';
+import StaleDataBanner from '../../components/StaleDataBanner';
+
+type Props = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, 'Chats'>,
+  NativeStackScreenProps<MainStackParamList>
+>;
+
+const ChatInboxScreen: React.FC<Props> = ({ navigation }) => {
+  const { user } = useAuth();
+  const {
+    data: rooms = [],
+    isLoading,
+    isRefetching,
+    error,
+    isRefetchError,
+    dataUpdatedAt,
+    refetch,
+  } = useChatInbox(user?.id);
+
+  const formatSentAt = (dateString: string) => {
+    const date = new Date(dateString);
+    if (isToday(date)) return format(date, 'HH:mm');
+    if (isYesterday(date)) return 'Yesterday';
+    return format(date, 'd MMM');
+  };
+
+  const getPreview = (room: ChatInboxRoom) => {
+    if (!room.last_message_id) return 'No messages yet';
+    if (room.last_message_type === 'system') return room.last_message_text;
+    const author = room.last_message_sender_id === user?.id
+      ? 'You'
+      : room.last_message_sender_firstname || 'Someone';
+    return `${author}: ${room.last_message_text}`;
+  };
+
+  const renderRoom = ({ item }: { item: ChatInboxRoom }) => {
+    const unread = item.unread_count > 0;
+    return (
+      <TouchableOpacity
+        style={styles.roomItem}
+        onPress={() => navigation.navigate('TripChat', { tripId: item.trip_id })}
+      >
+        <View style={styles.roomIcon}>
+          <Ionicons name="chatbubbles" size={22} color="white" />
+        </View>
+        <View style={styles.roomInfo}>
+          <View style={styles.roomHeader}>
+            <Text style={[styles.roomTitle, unread && styles.unreadText]} numberOfLines={1}>
+              {item.trip_title}
+            </Text>
+            {item.last_message_sent_at && (
+              <Text style={[styles.roomTime, unread && styles.unreadTime]}>
+                {formatSentAt(item.last_message_sent_at)}
+              </Text>
+            )}
+          </View>
+          <View style={styles.roomFooter}>
+            <Text
+              style={[
+                styles.roomPreview,
+                item.last_message_type === 'system' && styles.systemPreview,
+                unread && styles.unreadText,
+              ]}
+              numberOfLines={1}
+            >
+              {getPreview(item)}
+            </Text>
+            {unread && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>
+                  {item.unread_count > 99 ? '99+' : item.unread_count}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3498db" />
+        <Text style={styles.loadingText}>Loading chats...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Chats</Text>
+      </View>
+
+      <StaleDataBanner updatedAt={dataUpdatedAt} refreshFailed={isRefetchError} />
+
+      {error && rooms.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptySubtitle}>Failed to load chats. Please try again.</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : rooms.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="chatbubbles-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyTitle}>No chats yet</Text>
+          <Text style={styles.emptySubtitle}>
+            Each trip you organize or join has a group chat. It will show up here.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={rooms}
+          keyExtractor={(item) => item.room_id}
+          renderItem={renderRoom}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#7f8c8d',
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  roomItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  roomIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  roomInfo: {
+    flex: 1,
+  },
+  roomHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  roomTitle: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2c3e50',
+    marginRight: 8,
+  },
+  roomTime: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  unreadTime: {
+    color: '#3498db',
+    fontWeight: '600',
+  },
+  roomFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  roomPreview: {
+    flex: 1,
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  systemPreview: {
+    fontStyle: 'italic',
+  },
+  unreadText: {
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  unreadBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#3498db',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default ChatInboxScreen;
@@ -1,40 +1,49 @@
 
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Image, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Image, ActivityIndicator, Switch } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { MainStackParamList } from '../../navigation/types';
-import { supabase } from '../../integrations/supabase/client';
 import { useAuth } from '../../context/AuthContext';
 import InputField from '../../components/InputField';
 import AppButton from '../../components/AppButton';
 import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
+import { ProfileUpdate, getInitials, uploadAvatar as uploadAvatarImage } from '../../api/profiles';
+import { useProfile, useUpdateProfile } from '../../hooks/use-profile';
+import { useOnlineStatus } from '../../hooks/use-online-status';
 
 type Props = NativeStackScreenProps<MainStackParamList, 'EditProfile'>;
 
-interface UserProfile {
-  id: string;
-  firstname: string;
-  lastname: string;
-  age: number | null;
-  bio: string | null;
-  avatar_url: string | null;
-}
-
 const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { profile } = route.params;
+  const { userId } = route.params;
   const { user } = useAuth();
   
-  const [firstName, setFirstName] = useState(profile?.firstname || '');
-  const [lastName, setLastName] = useState(profile?.lastname || '');
-  const [age, setAge] = useState(profile?.age ? profile.age.toString() : '');
-  const [bio, setBio] = useState(profile?.bio || '');
-  const [avatar, setAvatar] = useState<string | null>(profile?.avatar_url);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [age, setAge] = useState('');
+  const [showAge, setShowAge] = useState(false);
+  const [bio, setBio] = useState('');
+  const [avatar, setAvatar] = useState<string | null>(null);
   const [newAvatarUri, setNewAvatarUri] = useState<string | null>(null);
   
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
 
+  const { data: profile, isLoading: profileLoading } = useProfile(userId);
+  const updateProfile = useUpdateProfile(userId);
+  const isOnline = useOnlineStatus();
+
+  // Populate the form once the profile has loaded
+  useEffect(() => {
+    if (!profile) return;
+    setFirstName(profile.firstname || '');
+    setLastName(profile.lastname || '');
+    setAge(profile.age ? profile.age.toString() : '');
+    setShowAge(profile.show_age);
+    setBio(profile.bio || '');
+    setAvatar(profile.avatar_url);
+  }, [profile]);
+
   const pickImage = async () => {
     try {
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -85,25 +94,9 @@ const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
     if (!newAvatarUri || !user) return null;
     
     try {
-      // Convert the image URI to a Blob
-      const response = await fetch(newAvatarUri);
-      const blob = await response.blob();
-      
-      const fileExt = newAvatarUri.split('.').pop()?.toLowerCase() || 'jpg';
-      const filePath = `avatars/${user.id}-${Date.now()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(filePath, blob, {
-          contentType: `image/${fileExt === 'jpg' ? 'jpeg' : fileExt}`,
-        });
-        
-      if (uploadError) throw uploadError;
-      
-      const { data } = supabase.storage.from('avatars').getPublicUrl(filePath);
-      return data.publicUrl;
-    } catch (error: any) {
-      console.error('Error uploading avatar:', error.message);
+      return await uploadAvatarImage(user.id, newAvatarUri);
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
       return null;
     }
   };
@@ -111,6 +104,12 @@ const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
   const handleSaveProfile = async () => {
     if (!validateForm()) return;
     
+    // Profile edits are queued while offline, but a new photo has to be uploaded first
+    if (newAvatarUri && !isOnline) {
+      Alert.alert('Offline', 'Connect to the internet to upload a new profile photo.');
+      return;
+    }
+    
     setLoading(true);
     
     try {
@@ -121,35 +120,38 @@ const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
         avatarUrl = await uploadAvatar();
       }
       
-      const updateData: Partial<UserProfile> = {
+      const updateData: ProfileUpdate = {
         firstname: firstName,
         lastname: lastName,
         bio: bio || null,
+        show_age: showAge,
       };
       
       if (age) updateData.age = parseInt(age);
       if (avatarUrl) updateData.avatar_url = avatarUrl;
       
-      const { error } = await supabase
-        .from('profiles')
-        .update(updateData)
-        .eq('id', user?.id);
+      await updateProfile.mutateAsync(updateData);
       
-      if (error) throw error;
-      
-      Alert.alert('Success', 'Profile updated successfully');
+      Alert.alert(
+        'Success',
+        isOnline ? 'Profile updated successfully' : "Your changes will be saved when you're back online"
+      );
       navigation.goBack();
-    } catch (error: any) {
-      console.error('Error updating profile:', error.message);
+    } catch (error) {
+      console.error('Error updating profile:', error);
       Alert.alert('Error', 'Failed to update profile');
     } finally {
       setLoading(false);
     }
   };
 
-  const getInitials = (firstName: string, lastName: string) => {
-    return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
-  };
+  if (profileLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
@@ -163,7 +165,7 @@ const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
         ) : (
           <View style={styles.initialsContainer}>
             <Text style={styles.initialsText}>
-              {getInitials(firstName || 'U', lastName || 'U')}
+              {getInitials({ firstname: firstName, lastname: lastName })}
             </Text>
           </View>
         )}
@@ -200,6 +202,18 @@ const EditProfileScreen: React.FC<Props> = ({ navigation, route }) => {
           keyboardType="numeric"
           error={errors.age}
         />
+
+        <View style={styles.toggleRow}>
+          <View style={styles.toggleText}>
+            <Text style={styles.label}>Show my age on my profile</Text>
+            <Text style={styles.toggleDescription}>Other travellers only see your age when this is on</Text>
+          </View>
+          <Switch
+            value={showAge}
+            onValueChange={setShowAge}
+            trackColor={{ false: '#ddd', true: '#3498db' }}
+          />
+        </View>
         
         <View style={styles.textAreaContainer}>
           <Text style={styles.label}>Bio (Optional)</Text>
@@ -236,6 +250,11 @@ const styles = StyleSheet.create({
   contentContainer: {
     padding: 16,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -298,6 +317,19 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '500',
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleDescription: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
   charCount: {
     position: 'absolute',
     right: 8,
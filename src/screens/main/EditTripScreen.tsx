@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { MainStackParamList } from '../../navigation/types';
+import { useAuth } from '../../context/AuthContext';
+import { useTrip, useTripWaypoints, useUpdateTrip } from '../../hooks/use-trips';
+import { useTripParticipants } from '../../hooks/use-participants';
+import { useOnlineStatus } from '../../hooks/use-online-status';
+import TripForm from '../../components/TripForm';
+import AppButton from '../../components/AppButton';
+import { TripFormValues, fromTrip, toTripFields, waypointChanges } from '../../lib/tripForm';
+import { describeTripChanges, formatTripChangesMessage } from '../../lib/tripChanges';
+import { canPerform, getTripStatus } from '../../lib/tripLifecycle';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'EditTrip'>;
+
+const EditTripScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { tripId } = route.params;
+  const { user } = useAuth();
+
+  const tripQuery = useTrip(tripId);
+  const waypointsQuery = useTripWaypoints(tripId);
+  const participantsQuery = useTripParticipants(tripId);
+  const updateTrip = useUpdateTrip(tripId);
+  const isOnline = useOnlineStatus();
+
+  // What the trip looked like when editing started; changes are diffed against it
+  const [savedValues, setSavedValues] = useState<TripFormValues | null>(null);
+
+  const trip = tripQuery.data;
+  const loading = tripQuery.isLoading || waypointsQuery.isLoading || participantsQuery.isLoading;
+  const approvedCount = (participantsQuery.data ?? []).filter(p => p.approved).length;
+
+  useEffect(() => {
+    if (savedValues || !tripQuery.data || !waypointsQuery.data) return;
+    setSavedValues(fromTrip(tripQuery.data, waypointsQuery.data));
+  }, [savedValues, tripQuery.data, waypointsQuery.data]);
+
+  const handleSave = async (values: TripFormValues) => {
+    const changes = describeTripChanges(savedValues, values);
+    if (changes.length === 0) {
+      navigation.goBack();
+      return;
+    }
+
+    try {
+      await updateTrip.mutateAsync({
+        changes: toTripFields(values),
+        waypoints: waypointChanges(savedValues.waypoints, values.waypoints),
+        announcement: formatTripChangesMessage(changes),
+      });
+
+      Alert.alert('Success', 'Trip updated. Participants have been notified in the trip chat.');
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error updating trip:', error);
+      Alert.alert('Error', error.message || 'Failed to update trip. Please try again.');
+    }
+  };
+
+  if (loading || (trip && !savedValues)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  if (!trip || trip.organizer_id !== user?.id) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="lock-closed-outline" size={64} color="#95a5a6" />
+        <Text style={styles.messageText}>Only the organizer can edit this trip.</Text>
+        <AppButton title="Go Back" onPress={() => navigation.goBack()} type="outline" />
+      </View>
+    );
+  }
+
+  // Riders plan around a trip once it starts, so it can only change before then
+  if (!canPerform(getTripStatus(trip, { participantCount: approvedCount }), 'edit')) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="time-outline" size={64} color="#95a5a6" />
+        <Text style={styles.messageText}>
+          This trip can no longer be edited because it has started, ended or been cancelled.
+        </Text>
+        <AppButton title="Go Back" onPress={() => navigation.goBack()} type="outline" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Edit Trip</Text>
+
+      <TripForm
+        initialValues={savedValues}
+        submitTitle="Save Changes"
+        onSubmit={handleSave}
+        submitting={updateTrip.isPending}
+        submitDisabled={!isOnline}
+        minParticipants={approvedCount}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 16,
+    marginTop: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default EditTripScreen;
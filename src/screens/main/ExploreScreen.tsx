@@ -0,0 +1,894 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl, TextInput, ScrollView, Platform, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CompositeScreenProps } from '@react-navigation/native';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MapView, { Circle, Marker, Polyline } from 'react-native-maps';
+import { MainTabParamList, MainStackParamList } from '../../navigation/types';
+import FilterChip from '../../components/FilterChip';
+import { currencies, formatPrice } from '../../lib/currencies';
+import { LatLng, formatDistance } from '../../lib/geo';
+import { NearbyMatch, nearbyMatchLabels, nearbyRadiusOptionsKm } from '../../lib/nearbyTrips';
+import { corridorWidthOptionsKm } from '../../lib/routeMatching';
+import { useDeviceLocation } from '../../hooks/use-device-location';
+import {
+  TripSearchFilters,
+  TripSearchResult,
+  TripSortOption,
+  countActiveFilters,
+  defaultTripSearchFilters,
+  tripSortLabels,
+  withAvailableSort,
+} from '../../lib/tripSearch';
+import { useTripSearch } from '../../hooks/use-trips';
+import { useOnlineStatus } from '../../hooks/use-online-status';
+
+type Props = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, 'Explore'>,
+  NativeStackScreenProps<MainStackParamList>
+>;
+
+const SEARCH_DEBOUNCE_MS = 400;
+const DEFAULT_RADIUS_KM = 50;
+const DEFAULT_CORRIDOR_KM = 5;
+
+const ExploreScreen: React.FC<Props> = ({ navigation }) => {
+  const [filters, setFilters] = useState<TripSearchFilters>(defaultTripSearchFilters);
+  const [destinationText, setDestinationText] = useState('');
+  const [originText, setOriginText] = useState('');
+  const [maxPriceText, setMaxPriceText] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [showFromPicker, setShowFromPicker] = useState(false);
+  const [showToPicker, setShowToPicker] = useState(false);
+  const [routeMode, setRouteMode] = useState(false);
+  const [routeOrigin, setRouteOrigin] = useState<LatLng | null>(null);
+  const [routeDestination, setRouteDestination] = useState<LatLng | null>(null);
+  const [routeTarget, setRouteTarget] = useState<'origin' | 'destination'>('origin');
+  const [corridorKm, setCorridorKm] = useState(DEFAULT_CORRIDOR_KM);
+  const { location, loading: locating, requestLocation } = useDeviceLocation();
+
+  const updateFilters = (changes: Partial<TripSearchFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+  };
+
+  // Debounce the free-text inputs so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const parsedPrice = parseFloat(maxPriceText.replace(',', '.'));
+      const maxPrice = isNaN(parsedPrice) ? null : parsedPrice;
+      setFilters(current =>
+        current.destination === destinationText &&
+        current.origin === originText &&
+        current.maxPrice === maxPrice
+          ? current
+          : { ...current, destination: destinationText, origin: originText, maxPrice }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [destinationText, originText, maxPriceText]);
+
+  const { data: trips = [], isLoading, isRefetching, error, refetch } = useTripSearch(filters);
+  const isOnline = useOnlineStatus();
+
+  const resetFilters = () => {
+    setDestinationText('');
+    setOriginText('');
+    setMaxPriceText('');
+    resetRoute();
+    setFilters(current => withAvailableSort({ ...defaultTripSearchFilters, sort: current.sort }));
+  };
+
+  const toggleNearMe = async () => {
+    if (filters.near) {
+      clearNearMe();
+      return;
+    }
+
+    const center = await requestLocation();
+    if (!center) {
+      Alert.alert('Location unavailable', 'Enable location access or pick a point on the map in the filters.');
+      return;
+    }
+    updateFilters({
+      near: { center, radiusKm: DEFAULT_RADIUS_KM, match: 'either' },
+      sort: 'distance',
+    });
+  };
+
+  const clearNearMe = () => {
+    setFilters(current => withAvailableSort({ ...current, near: null }));
+  };
+
+  const startRouteSearch = async () => {
+    if (routeMode) {
+      resetRoute();
+      return;
+    }
+
+    setRouteMode(true);
+    setShowFilters(true);
+    const current = await requestLocation();
+    if (current) {
+      setRouteOrigin(current);
+      setRouteTarget('destination');
+    }
+  };
+
+  const resetRoute = () => {
+    setRouteMode(false);
+    setRouteOrigin(null);
+    setRouteDestination(null);
+    setRouteTarget('origin');
+    setFilters(current => withAvailableSort({ ...current, route: null }));
+  };
+
+  const handleRouteMapPress = (coordinate: LatLng) => {
+    if (routeTarget === 'origin') {
+      setRouteOrigin(coordinate);
+      setRouteTarget('destination');
+    } else {
+      setRouteDestination(coordinate);
+    }
+  };
+
+  const applyRoute = () => {
+    if (!routeOrigin || !routeDestination) return;
+    updateFilters({
+      route: { origin: routeOrigin, destination: routeDestination, maxDistanceKm: corridorKm },
+      sort: 'detour',
+    });
+  };
+
+  const setDatePreset = (days: number) => {
+    const from = new Date();
+    const to = new Date();
+    to.setDate(to.getDate() + days);
+    updateFilters({ startDateFrom: from, startDateTo: to });
+  };
+
+  const isDatePreset = (days: number) => {
+    if (!filters.startDateFrom || !filters.startDateTo) return false;
+    const span = filters.startDateTo.getTime() - filters.startDateFrom.getTime();
+    return Math.round(span / (24 * 60 * 60 * 1000)) === days;
+  };
+
+  const formatDate = (date: Date | string) => {
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+    return new Date(date).toLocaleDateString(undefined, options);
+  };
+
+  const formatPlace = (city: string | null, country: string | null, fallback: string | null) => {
+    const parts = [city, country].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : fallback || 'Unknown';
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+
+  const renderTrip = ({ item }: { item: TripSearchResult }) => (
+    <TouchableOpacity
+      style={styles.tripCard}
+      onPress={() => navigation.navigate('TripDetails', { tripId: item.id })}
+    >
+      <View style={styles.tripHeader}>
+        <Text style={styles.tripTitle} numberOfLines={1}>{item.title}</Text>
+        {item.price_per_seat !== null && (
+          <Text style={styles.priceText}>{formatPrice(item.price_per_seat, item.currency)}</Text>
+        )}
+      </View>
+
+      <View style={styles.routeRow}>
+        <Ionicons name="ellipse-outline" size={12} color="#2ecc71" />
+        <Text style={styles.routeText} numberOfLines={1}>
+          {formatPlace(item.origin_city, item.origin_country, item.origin_address)}
+        </Text>
+      </View>
+      <View style={styles.routeRow}>
+        <Ionicons name="location" size={12} color="#e74c3c" />
+        <Text style={styles.routeText} numberOfLines={1}>
+          {formatPlace(item.destination_city, item.destination_country, item.destination)}
+        </Text>
+      </View>
+
+      {item.route_match && (
+        <View style={styles.routeMatch}>
+          <Text style={styles.routeMatchText} numberOfLines={1}>
+            Pickup near {item.route_match.pickup.label} · Drop-off near {item.route_match.dropoff.label}
+          </Text>
+          <Text style={styles.routeMatchDetail}>
+            {formatDistance(item.route_match.shared_distance_km)} together · +{formatDistance(item.route_match.detour_km)} detour
+          </Text>
+        </View>
+      )}
+
+      {item.distance_km !== null && (
+        <View style={styles.routeRow}>
+          <Ionicons name="navigate" size={12} color="#3498db" />
+          <Text style={styles.distanceText}>{formatDistance(item.distance_km)} away</Text>
+        </View>
+      )}
+
+      <View style={styles.tripFooter}>
+        <View style={styles.footerItem}>
+          <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
+          <Text style={styles.footerText}>
+            {formatDate(item.start_date)} - {formatDate(item.end_date)}
+          </Text>
+        </View>
+        <View style={styles.footerItem}>
+          <Ionicons name="people" size={16} color={item.seats_left > 0 ? '#7f8c8d' : '#e74c3c'} />
+          <Text style={styles.footerText}>
+            {item.seats_left > 0
+              ? `${item.seats_left} ${item.seats_left === 1 ? 'seat' : 'seats'} left`
+              : 'Full'}
+          </Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Explore</Text>
+        <TouchableOpacity
+          style={[styles.filterButton, showFilters && styles.filterButtonActive]}
+          onPress={() => setShowFilters(!showFilters)}
+        >
+          <Ionicons name="options-outline" size={22} color={showFilters ? 'white' : '#3498db'} />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <View style={styles.searchInputContainer}>
+          <Ionicons name="search" size={18} color="#7f8c8d" />
+          <TextInput
+            style={styles.searchInput}
+            value={destinationText}
+            onChangeText={setDestinationText}
+            placeholder="Where to? City, country or place"
+          />
+        </View>
+        <View style={styles.searchInputContainer}>
+          <Ionicons name="navigate-outline" size={18} color="#7f8c8d" />
+          <TextInput
+            style={styles.searchInput}
+            value={originText}
+            onChangeText={setOriginText}
+            placeholder="Leaving from"
+          />
+        </View>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipRow}
+        contentContainerStyle={styles.chipRowContent}
+      >
+        <FilterChip
+          label={filters.near ? `Within ${filters.near.radiusKm} km` : locating ? 'Locating...' : 'Near me'}
+          icon="navigate-outline"
+          selected={!!filters.near}
+          onPress={toggleNearMe}
+          onClear={clearNearMe}
+        />
+        <FilterChip
+          label="Along my route"
+          icon="git-commit-outline"
+          selected={routeMode}
+          onPress={startRouteSearch}
+          onClear={resetRoute}
+        />
+        <FilterChip
+          label="Seats available"
+          icon="people-outline"
+          selected={filters.minSeatsLeft > 0}
+          onPress={() => updateFilters({ minSeatsLeft: filters.minSeatsLeft > 0 ? 0 : 1 })}
+        />
+        <FilterChip
+          label="Next 7 days"
+          icon="calendar-outline"
+          selected={isDatePreset(7)}
+          onPress={() => setDatePreset(7)}
+          onClear={() => updateFilters({ startDateFrom: null, startDateTo: null })}
+        />
+        <FilterChip
+          label="Next 30 days"
+          icon="calendar-outline"
+          selected={isDatePreset(30)}
+          onPress={() => setDatePreset(30)}
+          onClear={() => updateFilters({ startDateFrom: null, startDateTo: null })}
+        />
+        {filters.currency && (
+          <FilterChip
+            label={filters.currency}
+            icon="cash-outline"
+            selected
+            onPress={() => setShowFilters(true)}
+            onClear={() => updateFilters({ currency: null })}
+          />
+        )}
+        {activeFilterCount > 0 && (
+          <FilterChip label="Clear all" icon="refresh" onPress={resetFilters} />
+        )}
+      </ScrollView>
+
+      {showFilters && (
+        <View style={styles.filterPanel}>
+          {filters.near && (
+            <>
+              <Text style={styles.filterLabel}>Search radius</Text>
+              <View style={styles.wrapRow}>
+                {nearbyRadiusOptionsKm.map(radiusKm => (
+                  <FilterChip
+                    key={radiusKm}
+                    label={`${radiusKm} km`}
+                    selected={filters.near?.radiusKm === radiusKm}
+                    onPress={() => updateFilters({ near: { ...filters.near!, radiusKm } })}
+                  />
+                ))}
+              </View>
+              <View style={styles.wrapRow}>
+                {(Object.keys(nearbyMatchLabels) as NearbyMatch[]).map(match => (
+                  <FilterChip
+                    key={match}
+                    label={nearbyMatchLabels[match]}
+                    selected={filters.near?.match === match}
+                    onPress={() => updateFilters({ near: { ...filters.near!, match } })}
+                  />
+                ))}
+              </View>
+              <Text style={styles.filterHint}>Tap the map to search around another point</Text>
+              <View style={styles.mapContainer}>
+                <MapView
+                  style={styles.map}
+                  initialRegion={{
+                    ...filters.near.center,
+                    latitudeDelta: filters.near.radiusKm / 40,
+                    longitudeDelta: filters.near.radiusKm / 40,
+                  }}
+                  onPress={(e) => updateFilters({ near: { ...filters.near!, center: e.nativeEvent.coordinate } })}
+                >
+                  <Marker coordinate={filters.near.center} pinColor="blue" />
+                  <Circle
+                    center={filters.near.center}
+                    radius={filters.near.radiusKm * 1000}
+                    strokeColor="#3498db"
+                    fillColor="rgba(52, 152, 219, 0.15)"
+                  />
+                </MapView>
+              </View>
+            </>
+          )}
+
+          {routeMode && (
+            <>
+              <Text style={styles.filterLabel}>Your route</Text>
+              <View style={styles.wrapRow}>
+                <FilterChip
+                  label={routeOrigin ? 'Pickup set' : 'Set pickup'}
+                  icon="ellipse-outline"
+                  selected={routeTarget === 'origin'}
+                  onPress={() => setRouteTarget('origin')}
+                />
+                <FilterChip
+                  label={routeDestination ? 'Drop-off set' : 'Set drop-off'}
+                  icon="location-outline"
+                  selected={routeTarget === 'destination'}
+                  onPress={() => setRouteTarget('destination')}
+                />
+              </View>
+              <Text style={styles.filterHint}>
+                Tap the map to place your {routeTarget === 'origin' ? 'pickup' : 'drop-off'} point
+              </Text>
+              <View style={styles.mapContainer}>
+                <MapView
+                  style={styles.map}
+                  initialRegion={{
+                    ...(routeOrigin ?? location ?? { latitude: 37.7749, longitude: -122.4194 }),
+                    latitudeDelta: 1,
+                    longitudeDelta: 1,
+                  }}
+                  onPress={(e) => handleRouteMapPress(e.nativeEvent.coordinate)}
+                >
+                  {routeOrigin && <Marker coordinate={routeOrigin} title="Pickup" pinColor="green" />}
+                  {routeDestination && <Marker coordinate={routeDestination} title="Drop-off" pinColor="red" />}
+                  {routeOrigin && routeDestination && (
+                    <Polyline
+                      coordinates={[routeOrigin, routeDestination]}
+                      strokeColor="#3498db"
+                      strokeWidth={2}
+                    />
+                  )}
+                </MapView>
+              </View>
+              <Text style={styles.filterLabel}>Max distance from the route</Text>
+              <View style={styles.wrapRow}>
+                {corridorWidthOptionsKm.map(widthKm => (
+                  <FilterChip
+                    key={widthKm}
+                    label={`${widthKm} km`}
+                    selected={corridorKm === widthKm}
+                    onPress={() => setCorridorKm(widthKm)}
+                  />
+                ))}
+              </View>
+              <TouchableOpacity
+                style={[styles.applyButton, (!routeOrigin || !routeDestination) && styles.applyButtonDisabled]}
+                onPress={applyRoute}
+                disabled={!routeOrigin || !routeDestination}
+              >
+                <Text style={styles.applyButtonText}>Find trips along this route</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <Text style={styles.filterLabel}>Departure between</Text>
+          <View style={styles.datesRow}>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setShowFromPicker(true)}>
+              <Text>{filters.startDateFrom ? formatDate(filters.startDateFrom) : 'Today'}</Text>
+              <Ionicons name="calendar-outline" size={18} color="#3498db" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setShowToPicker(true)}>
+              <Text>{filters.startDateTo ? formatDate(filters.startDateTo) : 'Any time'}</Text>
+              <Ionicons name="calendar-outline" size={18} color="#3498db" />
+            </TouchableOpacity>
+          </View>
+
+          {showFromPicker && (
+            <DateTimePicker
+              value={filters.startDateFrom ?? new Date()}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedDate) => {
+                setShowFromPicker(false);
+                if (selectedDate) updateFilters({ startDateFrom: selectedDate });
+              }}
+              minimumDate={new Date()}
+            />
+          )}
+
+          {showToPicker && (
+            <DateTimePicker
+              value={filters.startDateTo ?? filters.startDateFrom ?? new Date()}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedDate) => {
+                setShowToPicker(false);
+                if (selectedDate) updateFilters({ startDateTo: selectedDate });
+              }}
+              minimumDate={filters.startDateFrom ?? new Date()}
+            />
+          )}
+
+          <Text style={styles.filterLabel}>Currency</Text>
+          <View style={styles.wrapRow}>
+            {currencies.map(currency => (
+              <FilterChip
+                key={currency.code}
+                label={currency.code}
+                selected={filters.currency === currency.code}
+                onPress={() => updateFilters({
+                  currency: filters.currency === currency.code ? null : currency.code,
+                })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.filterLabel}>
+            {filters.currency ? `Max price per seat (${filters.currency})` : 'Max price per seat'}
+          </Text>
+          <TextInput
+            style={[styles.filterInput, !filters.currency && styles.filterInputDisabled]}
+            value={maxPriceText}
+            onChangeText={setMaxPriceText}
+            placeholder={filters.currency ? 'Any price' : 'Choose a currency first'}
+            keyboardType="numeric"
+            editable={!!filters.currency}
+          />
+
+          <Text style={styles.filterLabel}>Minimum seats left</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => updateFilters({ minSeatsLeft: Math.max(filters.minSeatsLeft - 1, 0) })}
+            >
+              <Ionicons name="remove" size={18} color="#3498db" />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{filters.minSeatsLeft}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => updateFilters({ minSeatsLeft: filters.minSeatsLeft + 1 })}
+            >
+              <Ionicons name="add" size={18} color="#3498db" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.filterLabel}>Sort by</Text>
+          <View style={styles.wrapRow}>
+            {(Object.keys(tripSortLabels) as TripSortOption[])
+              .filter(option => option !== 'distance' || filters.near)
+              .filter(option => option !== 'detour' || filters.route)
+              .map(option => (
+                <FilterChip
+                  key={option}
+                  label={tripSortLabels[option]}
+                  selected={filters.sort === option}
+                  onPress={() => updateFilters({ sort: option })}
+                />
+              ))}
+          </View>
+        </View>
+      )}
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3498db" />
+          <Text style={styles.loadingText}>Searching trips...</Text>
+        </View>
+      ) : !isOnline && trips.length === 0 ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="cloud-offline-outline" size={48} color="#ccc" />
+          <Text style={styles.offlineText}>
+            Searching needs a connection. Trips you've already opened are still available from the Trips tab.
+          </Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>Failed to search trips. Please try again.</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={trips}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTrip}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <Text style={styles.resultCount}>
+              {trips.length} {trips.length === 1 ? 'trip' : 'trips'} · {tripSortLabels[filters.sort]}
+            </Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="compass-outline" size={64} color="#ccc" />
+              <Text style={styles.emptyTitle}>No matching trips</Text>
+              <Text style={styles.emptySubtitle}>Try widening your search or clearing some filters</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  filterButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: '#3498db',
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#e74c3c',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  filterBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  searchContainer: {
+    paddingHorizontal: 16,
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexGrow: 0,
+  },
+  chipRowContent: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  filterPanel: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  filterLabel: {
+    fontSize: 14,
+    marginBottom: 6,
+    color: '#333',
+    fontWeight: '500',
+  },
+  datesRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    width: '48%',
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+  },
+  filterInput: {
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  filterInputDisabled: {
+    opacity: 0.6,
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  filterHint: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginBottom: 6,
+  },
+  mapContainer: {
+    height: 180,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  map: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  applyButton: {
+    backgroundColor: '#3498db',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  applyButtonDisabled: {
+    opacity: 0.6,
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginHorizontal: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#7f8c8d',
+  },
+  list: {
+    padding: 16,
+    paddingTop: 4,
+  },
+  resultCount: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginBottom: 8,
+  },
+  tripCard: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  tripHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  tripTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    flex: 1,
+  },
+  priceText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2ecc71',
+    marginLeft: 8,
+  },
+  routeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  routeText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#2c3e50',
+    flex: 1,
+  },
+  routeMatch: {
+    backgroundColor: '#eaf4fb',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  routeMatchText: {
+    fontSize: 13,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  routeMatchDetail: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  distanceText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#3498db',
+    fontWeight: '500',
+  },
+  tripFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  footerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  footerText: {
+    marginLeft: 4,
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  offlineText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#e74c3c',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#3498db',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 20,
+    marginTop: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default ExploreScreen;
@@ -1,142 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { CompositeScreenProps } from '@react-navigation/native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
-import { MainTabParamList } from '../../navigation/types';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { MainTabParamList, MainStackParamList } from '../../navigation/types';
 import { useAuth } from '../../context/AuthContext';
-import { supabase } from '../../integrations/supabase/client';
 import AppButton from '../../components/AppButton';
+import { getDisplayName, getInitials } from '../../api/profiles';
+import { useProfile } from '../../hooks/use-profile';
+import { useUserTrips } from '../../hooks/use-trips';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import TripStatusBadge from '../../components/TripStatusBadge';
+import OutboxItemStatus from '../../components/OutboxItemStatus';
+import ReviewsPreview from '../../components/ReviewsPreview';
+import { usePendingProfileUpdate } from '../../hooks/use-outbox';
+import { queryKeys } from '../../lib/queryKeys';
+import { getTripStatus } from '../../lib/tripLifecycle';
 
-type Props = BottomTabScreenProps<MainTabParamList, 'Profile'>;
-
-interface UserProfile {
-  id: string;
-  firstname: string;
-  lastname: string;
-  age: number | null;
-  bio: string | null;
-  avatar_url: string | null;
-  rating_average: number | null;
-  rating_count: number | null;
-  created_at: string;
-}
-
-interface UserTrip {
-  id: string;
-  title: string;
-  start_date: string;
-  end_date: string;
-  start_location: string;
-  is_organizer: boolean;
-}
+type Props = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, 'Profile'>,
+  NativeStackScreenProps<MainStackParamList>
+>;
 
 const ProfileScreen: React.FC<Props> = ({ navigation }) => {
   const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [trips, setTrips] = useState<UserTrip[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [tripsLoading, setTripsLoading] = useState(true);
-
-  useEffect(() => {
-    if (user) {
-      fetchProfile();
-      fetchUserTrips();
-    }
-  }, [user]);
-
-  const fetchProfile = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user?.id)
-        .single();
-
-      if (error) throw error;
-      setProfile(data);
-    } catch (error: any) {
-      console.error('Error fetching profile:', error.message);
-      Alert.alert('Error', 'Failed to load profile data');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchUserTrips = async () => {
-    try {
-      setTripsLoading(true);
-      
-      // Fetch trips user is participating in
-      const { data: participatingTrips, error: participatingError } = await supabase
-        .from('trip_participants')
-        .select(`
-          trip_id,
-          trips:trip_id(
-            id,
-            title,
-            start_date,
-            end_date,
-            start_location,
-            organizer_id
-          )
-        `)
-        .eq('user_id', user?.id);
-      
-      if (participatingError) throw participatingError;
-      
-      // Fetch trips user is organizing but not participating in
-      const { data: organizingTrips, error: organizingError } = await supabase
-        .from('trips')
-        .select('id, title, start_date, end_date, start_location, organizer_id')
-        .eq('organizer_id', user?.id)
-        .not('id', 'in', (participatingTrips || []).map(pt => pt.trip_id).filter(Boolean));
-      
-      if (organizingError) throw organizingError;
-      
-      // Combine both sets of trips and mark if user is organizer
-      const combinedTrips = [
-        ...(participatingTrips || []).map(pt => ({
-          id: pt.trips.id,
-          title: pt.trips.title,
-          start_date: pt.trips.start_date,
-          end_date: pt.trips.end_date,
-          start_location: pt.trips.start_location,
-          is_organizer: pt.trips.organizer_id === user?.id
-        })),
-        ...(organizingTrips || []).map(trip => ({
-          id: trip.id,
-          title: trip.title,
-          start_date: trip.start_date,
-          end_date: trip.end_date,
-          start_location: trip.start_location,
-          is_organizer: true
-        }))
-      ];
-      
-      // Sort by start date, most recent first
-      combinedTrips.sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
-      
-      setTrips(combinedTrips);
-    } catch (error: any) {
-      console.error('Error fetching user trips:', error.message);
-    } finally {
-      setTripsLoading(false);
-    }
-  };
+  const profileQuery = useProfile(user?.id);
+  const { data: profile = null, isLoading: loading } = profileQuery;
+  const { data: trips = [], isLoading: tripsLoading } = useUserTrips(user?.id);
+  const pendingProfileUpdate = usePendingProfileUpdate(user?.id);
+  const queryClient = useQueryClient();
 
   const formatDate = (dateString: string) => {
     const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
-  const getInitials = (firstName: string, lastName: string) => {
-    return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
-  };
-
   const handleEditProfile = () => {
-    navigation.navigate('EditProfile', { profile });
+    navigation.navigate('EditProfile', { userId: user.id });
   };
 
   const handleSignOut = async () => {
@@ -161,6 +64,7 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <StaleDataBanner updatedAt={profileQuery.dataUpdatedAt} refreshFailed={profileQuery.isRefetchError} />
       <View style={styles.header}>
         <View style={styles.profileImageContainer}>
           {profile?.avatar_url ? (
@@ -168,14 +72,14 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
           ) : (
             <View style={styles.initialsContainer}>
               <Text style={styles.initialsText}>
-                {profile ? getInitials(profile.firstname, profile.lastname) : 'U'}
+                {getInitials(profile)}
               </Text>
             </View>
           )}
         </View>
         
         <View style={styles.profileInfo}>
-          <Text style={styles.name}>{profile?.firstname} {profile?.lastname}</Text>
+          <Text style={styles.name}>{getDisplayName(profile)}</Text>
           {profile?.rating_average ? (
             <View style={styles.ratingContainer}>
               <View style={styles.starsContainer}>
@@ -202,6 +106,16 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
           </TouchableOpacity>
         </View>
       </View>
+
+      {pendingProfileUpdate && (
+        <View style={styles.pendingUpdateContainer}>
+          <Text style={styles.pendingUpdateTitle}>Profile changes</Text>
+          <OutboxItemStatus
+            item={pendingProfileUpdate}
+            onDiscard={() => queryClient.invalidateQueries({ queryKey: queryKeys.profiles.detail(user.id) })}
+          />
+        </View>
+      )}
       
       <View style={styles.bioSection}>
         <Text style={styles.bioTitle}>About Me</Text>
@@ -224,6 +138,15 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       </View>
       
+      <View style={styles.tripsSection}>
+        <ReviewsPreview
+          userId={user?.id}
+          emptyText="Reviews from people you travel with will show up here."
+          onSeeAll={() => navigation.navigate('Reviews', { userId: user.id })}
+          onTripPress={(tripId) => navigation.navigate('TripDetails', { tripId })}
+        />
+      </View>
+
       <View style={styles.tripsSection}>
         <Text style={styles.sectionTitle}>My Trips</Text>
         
@@ -241,36 +164,42 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
             </TouchableOpacity>
           </View>
         ) : (
-          trips.map((trip) => (
-            <TouchableOpacity
-              key={trip.id}
-              style={styles.tripCard}
-              onPress={() => navigation.navigate('TripDetails', { tripId: trip.id })}
-            >
-              <View style={styles.tripHeader}>
-                <Text style={styles.tripTitle}>{trip.title}</Text>
-                {trip.is_organizer && (
-                  <View style={styles.organizerBadge}>
-                    <Text style={styles.organizerText}>Organizer</Text>
-                  </View>
-                )}
-              </View>
-              
-              <View style={styles.tripDetails}>
-                <View style={styles.tripDetail}>
-                  <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
-                  <Text style={styles.tripDetailText}>
-                    {formatDate(trip.start_date)} - {formatDate(trip.end_date)}
-                  </Text>
+          trips.map((trip) => {
+            // Open trips are the norm, so only other states get a badge
+            const status = getTripStatus(trip);
+            return (
+              <TouchableOpacity
+                key={trip.id}
+                style={styles.tripCard}
+                onPress={() => navigation.navigate('TripDetails', { tripId: trip.id })}
+              >
+                <View style={styles.tripHeader}>
+                  <Text style={styles.tripTitle}>{trip.title}</Text>
+                  {status !== 'published' ? (
+                    <TripStatusBadge status={status} />
+                  ) : trip.is_organizer && (
+                    <View style={styles.organizerBadge}>
+                      <Text style={styles.organizerText}>Organizer</Text>
+                    </View>
+                  )}
                 </View>
                 
-                <View style={styles.tripDetail}>
-                  <Ionicons name="location-outline" size={16} color="#7f8c8d" />
-                  <Text style={styles.tripDetailText}>{trip.start_location}</Text>
+                <View style={styles.tripDetails}>
+                  <View style={styles.tripDetail}>
+                    <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
+                    <Text style={styles.tripDetailText}>
+                      {formatDate(trip.start_date)} - {formatDate(trip.end_date)}
+                    </Text>
+                  </View>
+                  
+                  <View style={styles.tripDetail}>
+                    <Ionicons name="location-outline" size={16} color="#7f8c8d" />
+                    <Text style={styles.tripDetailText}>{trip.origin_address ? `${trip.origin_address} → ${trip.destination}` : trip.destination}</Text>
+                  </View>
                 </View>
-              </View>
-            </TouchableOpacity>
-          ))
+              </TouchableOpacity>
+            );
+          })
         )}
       </View>
       
@@ -292,6 +221,17 @@ const styles = StyleSheet.create({
   contentContainer: {
     padding: 16,
   },
+  pendingUpdateContainer: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+    marginBottom: 16,
+  },
+  pendingUpdateTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,156 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { MainStackParamList } from '../../navigation/types';
+import { useAuth } from '../../context/AuthContext';
+import { useTrip } from '../../hooks/use-trips';
+import { useTripParticipants } from '../../hooks/use-participants';
+import { useSubmitRating, useTripRatingsBy } from '../../hooks/use-ratings';
+import { useOnlineStatus } from '../../hooks/use-online-status';
+import AppButton from '../../components/AppButton';
+import TravellerRatingCard from '../../components/TravellerRatingCard';
+import { ProfileSummary } from '../../api/profiles';
+import { canPerform, getTripStatus } from '../../lib/tripLifecycle';
+import { getRatingDeadline, isRatingOpen } from '../../lib/ratings';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'RateTrip'>;
+
+type CoTraveller = {
+  profile: ProfileSummary;
+  role: string;
+};
+
+const RateTripScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { tripId } = route.params;
+  const { user } = useAuth();
+
+  const tripQuery = useTrip(tripId);
+  const participantsQuery = useTripParticipants(tripId);
+  const ratingsQuery = useTripRatingsBy(tripId, user?.id);
+  const submitRating = useSubmitRating(tripId, user?.id);
+  const isOnline = useOnlineStatus();
+
+  const trip = tripQuery.data;
+  const participants = useMemo(() => participantsQuery.data ?? [], [participantsQuery.data]);
+  const loading = tripQuery.isLoading || participantsQuery.isLoading || ratingsQuery.isLoading;
+
+  // Everyone the user travelled with: the organizer first, then riders
+  const coTravellers = useMemo(() => {
+    if (!trip) return [];
+    const travellers: CoTraveller[] = [];
+    if (trip.organizer_id !== user?.id) {
+      travellers.push({
+        profile: trip.organizer ?? { id: trip.organizer_id, firstname: null, lastname: null, avatar_url: null, rating_average: null },
+        role: 'Organizer',
+      });
+    }
+    participants
+      .filter(p => p.approved && p.user_id !== user?.id && p.user_id !== trip.organizer_id)
+      .forEach(p => travellers.push({
+        profile: p.user ?? { id: p.user_id, firstname: null, lastname: null, avatar_url: null, rating_average: null },
+        role: 'Co-traveller',
+      }));
+    return travellers;
+  }, [trip, participants, user?.id]);
+
+  const handleSubmit = async (ratedId: string, value: number, comment: string) => {
+    try {
+      await submitRating.mutateAsync({ ratedId, value, comment });
+    } catch (error) {
+      console.error('Error submitting rating:', error);
+      Alert.alert('Error', error.message || 'Failed to save your rating. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  const isMember = trip && (
+    trip.organizer_id === user?.id || participants.some(p => p.approved && p.user_id === user?.id)
+  );
+  const status = trip ? getTripStatus(trip, { participantCount: participants.filter(p => p.approved).length }) : null;
+
+  if (!trip || !isMember || !canPerform(status, 'rate')) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="star-outline" size={64} color="#95a5a6" />
+        <Text style={styles.messageText}>
+          Ratings open for people who travelled together once the trip has ended.
+        </Text>
+        <AppButton title="Go Back" onPress={() => navigation.goBack()} type="outline" />
+      </View>
+    );
+  }
+
+  const open = isRatingOpen(trip);
+  const ratings = ratingsQuery.data ?? [];
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>{trip.title}</Text>
+      <Text style={styles.subtitle}>
+        {open
+          ? `How was travelling together? You can change your ratings until ${format(getRatingDeadline(trip), 'd MMM yyyy')}.`
+          : 'Ratings for this trip are closed.'}
+      </Text>
+
+      {coTravellers.length === 0 ? (
+        <Text style={styles.messageText}>Nobody else joined this trip.</Text>
+      ) : (
+        coTravellers.map(({ profile, role }) => (
+          <TravellerRatingCard
+            key={profile.id}
+            traveller={profile}
+            role={role}
+            rating={ratings.find(rating => rating.rated_id === profile.id)}
+            onSubmit={(value, comment) => handleSubmit(profile.id, value, comment)}
+            saving={submitRating.isPending && submitRating.variables?.ratedId === profile.id}
+            locked={!open}
+            disabled={!isOnline}
+          />
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default RateTripScreen;
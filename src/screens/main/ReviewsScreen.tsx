@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, ActivityIndicator, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { MainStackParamList } from '../../navigation/types';
+import { usePublicProfile } from '../../hooks/use-profile';
+import { useRatingBreakdown, useReviews } from '../../hooks/use-ratings';
+import FilterChip from '../../components/FilterChip';
+import RatingBreakdown from '../../components/RatingBreakdown';
+import ReviewItem from '../../components/ReviewItem';
+import StarRating from '../../components/StarRating';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'Reviews'>;
+
+const STAR_FILTERS = [5, 4, 3, 2, 1];
+
+const ReviewsScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { userId } = route.params;
+  const [stars, setStars] = useState<number | null>(null);
+
+  const { data: profile } = usePublicProfile(userId);
+  const { data: breakdown = {} } = useRatingBreakdown(userId);
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+    refetch,
+  } = useReviews(userId, stars);
+
+  const reviews = useMemo(() => data?.pages.flatMap(page => page.reviews) ?? [], [data]);
+
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  };
+
+  // Tapping the active filter again shows every review
+  const toggleStars = (value: number) => {
+    setStars(current => (current === value ? null : value));
+  };
+
+  const header = (
+    <View>
+      <View style={styles.summaryCard}>
+        <View style={styles.average}>
+          <Text style={styles.averageValue}>
+            {profile?.rating_average ? profile.rating_average.toFixed(1) : '–'}
+          </Text>
+          <StarRating value={profile?.rating_average ?? 0} size={14} />
+          <Text style={styles.averageCount}>
+            {profile?.rating_count ?? 0} {profile?.rating_count === 1 ? 'review' : 'reviews'}
+          </Text>
+        </View>
+        <View style={styles.breakdown}>
+          <RatingBreakdown breakdown={breakdown} selected={stars} onSelect={toggleStars} />
+        </View>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+        <FilterChip label="All" selected={stars === null} onPress={() => setStars(null)} />
+        {STAR_FILTERS.map(value => (
+          <FilterChip
+            key={value}
+            label={`${value} ★`}
+            selected={stars === value}
+            onPress={() => toggleStars(value)}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={reviews}
+      keyExtractor={(item) => item.id}
+      renderItem={({ item }) => (
+        <ReviewItem review={item} onTripPress={(tripId) => navigation.navigate('TripDetails', { tripId })} />
+      )}
+      ListHeaderComponent={header}
+      ListEmptyComponent={
+        isLoading ? (
+          <ActivityIndicator style={styles.loader} size="large" color="#3498db" />
+        ) : error ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>Failed to load reviews.</Text>
+            <TouchableOpacity onPress={() => refetch()}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="chatbubble-ellipses-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>
+              {stars ? `No ${stars}-star reviews yet` : 'No reviews yet'}
+            </Text>
+          </View>
+        )
+      }
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        isFetchingNextPage ? (
+          <ActivityIndicator style={styles.loader} size="small" color="#3498db" />
+        ) : null
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  content: {
+    padding: 16,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+  },
+  average: {
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  averageValue: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  averageCount: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 4,
+  },
+  breakdown: {
+    flex: 1,
+  },
+  filters: {
+    marginVertical: 12,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+  },
+  retryText: {
+    marginTop: 8,
+    color: '#3498db',
+    fontWeight: '600',
+  },
+});
+
+export default ReviewsScreen;
@@ -1,199 +1,105 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, FlatList, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Image } from 'react-native';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, FlatList, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Image, ViewToken } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useIsFocused } from '@react-navigation/native';
 import { MainStackParamList } from '../../navigation/types';
-import { supabase } from '../../integrations/supabase/client';
 import { useAuth } from '../../context/AuthContext';
 import { Ionicons } from '@expo/vector-icons';
+import { ChatMessage } from '../../api/chat';
+import { getDisplayName, getInitials } from '../../api/profiles';
+import { useTrip } from '../../hooks/use-trips';
+import { useChatMessages, useChatRoom, useReadMarkers, useReportChatRead, useSendMessage } from '../../hooks/use-chat';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import OutboxItemStatus from '../../components/OutboxItemStatus';
+import { usePendingMessages } from '../../hooks/use-outbox';
+import { formatSeenBy, getSeenBy } from '../../lib/readReceipts';
 
 type Props = NativeStackScreenProps<MainStackParamList, 'TripChat'>;
 
-interface ChatRoom {
-  id: string;
-  trip_id: string;
-  created_at: string;
-}
-
-interface ChatMessage {
-  id: string;
-  room_id: string;
-  user_id: string;
-  message: string;
-  created_at: string;
-  sender: {
-    firstname: string;
-    lastname: string;
-    avatar_url: string | null;
-  };
-}
+// A message counts as seen once half of it is on screen
+const viewabilityConfig = { itemVisiblePercentThreshold: 50 };
 
 const TripChatScreen: React.FC<Props> = ({ navigation, route }) => {
   const { tripId } = route.params;
   const { user } = useAuth();
   
-  const [chatRoom, setChatRoom] = useState<ChatRoom | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [sendingMessage, setSendingMessage] = useState(false);
-  const [tripTitle, setTripTitle] = useState('');
-  const [isUserInChat, setIsUserInChat] = useState(false);
 
-  const flatListRef = useRef<FlatList>(null);
-  const subscription = useRef<any>(null);
+  const { data: trip } = useTrip(tripId);
+  const { data: room, isLoading: roomLoading } = useChatRoom(tripId, user?.id);
+  const roomId = room?.isMember ? room.roomId : undefined;
+  const messagesQuery = useChatMessages(roomId);
+  const {
+    messages: storedMessages,
+    isLoading: messagesLoading,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+    fetchNextPage: fetchOlderMessages,
+  } = messagesQuery;
+  const sendChatMessage = useSendMessage(roomId, user?.id);
+  const pendingMessages = usePendingMessages(roomId);
+  const { data: readMarkers = [] } = useReadMarkers(roomId);
+  const reportRead = useReportChatRead(roomId, user?.id);
+  const isFocused = useIsFocused();
+  const [newestSeenAt, setNewestSeenAt] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchTripTitle();
-    getChatRoom();
+  // Messages still in the outbox are shown after the delivered ones. The
+  // list is inverted, so it is newest first and starts at the bottom.
+  const messages = useMemo(() => {
+    const delivered = storedMessages;
+    const queued = pendingMessages
+      .filter(item => !delivered.some(m => m.id === item.operation.messageId))
+      .map(({ operation, createdAt }): ChatMessage => ({
+        id: operation.messageId,
+        room_id: operation.roomId,
+        sender_id: operation.senderId,
+        message_text: operation.text,
+        message_type: 'user',
+        sent_at: new Date(createdAt).toISOString(),
+        sender: null,
+      }));
+    return [...delivered, ...queued].reverse();
+  }, [storedMessages, pendingMessages]);
 
-    return () => {
-      if (subscription.current) {
-        supabase.removeChannel(subscription.current);
-      }
-    };
-  }, [tripId]);
+  const loading = roomLoading || messagesLoading;
+  const isUserInChat = !!room?.isMember;
 
-  const fetchTripTitle = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('trips')
-        .select('title')
-        .eq('id', tripId)
-        .single();
-      
-      if (error) throw error;
-      setTripTitle(data.title);
-    } catch (error) {
-      console.error('Error fetching trip title:', error);
-    }
-  };
+  // Messages still in the outbox have no server time yet, so they can't
+  // move the read marker
+  const pendingIds = useRef(new Set<string>());
+  pendingIds.current = new Set(pendingMessages.map(item => item.operation.messageId));
 
-  const getChatRoom = async () => {
-    try {
-      // First check if a chat room exists for this trip
-      const { data: roomData, error: roomError } = await supabase.rpc(
-        'get_or_create_trip_chat_room',
-        { p_trip_id: tripId }
-      );
-      
-      if (roomError) throw roomError;
-      
-      const roomId = roomData;
-      
-      // Check if user is a participant in this chat
-      const { data: participantData, error: participantError } = await supabase
-        .from('chat_room_participants')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('user_id', user?.id)
-        .single();
-      
-      setIsUserInChat(!!participantData);
-      
-      if (!participantData) {
-        setLoading(false);
-        return;
-      }
-      
-      // Fetch chat room details
-      const { data: chatRoomData, error: chatRoomError } = await supabase
-        .from('chat_rooms')
-        .select('*')
-        .eq('id', roomId)
-        .single();
-      
-      if (chatRoomError) throw chatRoomError;
-      setChatRoom(chatRoomData);
-      
-      // Fetch initial messages
-      fetchMessages(roomId);
-      
-      // Subscribe to new messages
-      subscribeToMessages(roomId);
-    } catch (error) {
-      console.error('Error getting chat room:', error);
-      setLoading(false);
-    }
-  };
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const seen = viewableItems
+      .map(token => token.item as ChatMessage)
+      .filter(message => message.sent_at && !pendingIds.current.has(message.id))
+      .map(message => message.sent_at)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+    if (!seen) return;
+    setNewestSeenAt(current => (current && new Date(current) >= new Date(seen) ? current : seen));
+  }).current;
 
-  const fetchMessages = async (roomId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .select('*, sender:profiles!chat_messages_user_id_fkey(firstname, lastname, avatar_url)')
-        .eq('room_id', roomId)
-        .order('created_at', { ascending: true });
-      
-      if (error) throw error;
-      setMessages(data || []);
-    } catch (error) {
-      console.error('Error fetching messages:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Only what was on screen while the chat had focus counts as read
+  useEffect(() => {
+    if (isFocused && newestSeenAt) reportRead(newestSeenAt);
+  }, [isFocused, newestSeenAt, reportRead]);
 
-  const subscribeToMessages = (roomId: string) => {
-    const channel = supabase
-      .channel(`room-${roomId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'chat_messages',
-          filter: `room_id=eq.${roomId}`,
-        },
-        async (payload) => {
-          // When we get a new message, fetch the sender details
-          const { data, error } = await supabase
-            .from('profiles')
-            .select('firstname, lastname, avatar_url')
-            .eq('id', payload.new.user_id)
-            .single();
-          
-          if (!error && data) {
-            const newMessage = {
-              ...payload.new,
-              sender: data,
-            } as ChatMessage;
-            
-            setMessages((current) => [...current, newMessage]);
-            
-            // Scroll to bottom on new message
-            setTimeout(() => {
-              flatListRef.current?.scrollToEnd({ animated: true });
-            }, 100);
-          }
-        }
-      )
-      .subscribe();
-    
-    subscription.current = channel;
+  const loadOlderMessages = () => {
+    if (hasOlderMessages && !isFetchingOlderMessages) fetchOlderMessages();
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !chatRoom || !user) return;
+    if (!newMessage.trim() || !roomId || !user) return;
     
-    setSendingMessage(true);
+    const text = newMessage.trim();
+    setNewMessage('');
     
     try {
-      const { error } = await supabase.from('chat_messages').insert([
-        {
-          room_id: chatRoom.id,
-          user_id: user.id,
-          message: newMessage.trim(),
-        },
-      ]);
-      
-      if (error) throw error;
-      
-      setNewMessage('');
+      await sendChatMessage.mutateAsync(text);
     } catch (error) {
       console.error('Error sending message:', error);
-    } finally {
-      setSendingMessage(false);
+      setNewMessage(text);
     }
   };
 
@@ -220,49 +126,70 @@ const TripChatScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const openProfile = (userId: string) => {
+    navigation.navigate('UserProfile', { userId });
+  };
+
   const renderMessageItem = ({ item, index }: { item: ChatMessage; index: number }) => {
-    const isCurrentUser = item.user_id === user?.id;
-    const showDate = index === 0 || formatDate(messages[index - 1].created_at) !== formatDate(item.created_at);
+    const isCurrentUser = item.sender_id === user?.id;
+    const queuedItem = pendingMessages.find(pending => pending.operation.messageId === item.id);
+    const seenBy = isCurrentUser && !queuedItem ? formatSeenBy(getSeenBy(item, readMarkers)) : null;
+    // The next item is the previous message in time
+    const showDate = index === messages.length - 1 || formatDate(messages[index + 1].sent_at) !== formatDate(item.sent_at);
     
     return (
       <>
         {showDate && (
           <View style={styles.dateContainer}>
-            <Text style={styles.dateText}>{formatDate(item.created_at)}</Text>
+            <Text style={styles.dateText}>{formatDate(item.sent_at)}</Text>
           </View>
         )}
-        <View style={[
-          styles.messageContainer,
-          isCurrentUser ? styles.userMessageContainer : styles.otherMessageContainer
-        ]}>
-          {!isCurrentUser && (
-            item.sender?.avatar_url ? (
-              <Image source={{ uri: item.sender.avatar_url }} style={styles.avatar} />
-            ) : (
-              <View style={styles.initialsContainer}>
-                <Text style={styles.initialsText}>
-                  {`${item.sender?.firstname?.charAt(0) || ''}${item.sender?.lastname?.charAt(0) || ''}`.toUpperCase()}
-                </Text>
-              </View>
-            )
-          )}
-          
+        {item.message_type === 'system' ? (
+          <View style={styles.systemMessage}>
+            <Ionicons name="information-circle-outline" size={16} color="#7f8c8d" />
+            <Text style={styles.systemMessageText}>{item.message_text}</Text>
+            {seenBy && <Text style={styles.systemSeenByText}>{seenBy}</Text>}
+          </View>
+        ) : (
           <View style={[
-            styles.messageBubble,
-            isCurrentUser ? styles.userBubble : styles.otherBubble
+            styles.messageContainer,
+            isCurrentUser ? styles.userMessageContainer : styles.otherMessageContainer
           ]}>
             {!isCurrentUser && (
-              <Text style={styles.senderName}>{item.sender?.firstname} {item.sender?.lastname}</Text>
+              <TouchableOpacity onPress={() => openProfile(item.sender_id)}>
+                {item.sender?.avatar_url ? (
+                  <Image source={{ uri: item.sender.avatar_url }} style={styles.avatar} />
+                ) : (
+                  <View style={styles.initialsContainer}>
+                    <Text style={styles.initialsText}>
+                      {getInitials(item.sender)}
+                    </Text>
+                  </View>
+                )}
+              </TouchableOpacity>
             )}
-            <Text style={[
-              styles.messageText,
-              isCurrentUser ? styles.userMessageText : styles.otherMessageText
+            
+            <View style={[
+              styles.messageBubble,
+              isCurrentUser ? styles.userBubble : styles.otherBubble
             ]}>
-              {item.message}
-            </Text>
-            <Text style={styles.timeText}>{formatTime(item.created_at)}</Text>
+              {!isCurrentUser && (
+                <Text style={styles.senderName} onPress={() => openProfile(item.sender_id)}>
+                  {getDisplayName(item.sender)}
+                </Text>
+              )}
+              <Text style={[
+                styles.messageText,
+                isCurrentUser ? styles.userMessageText : styles.otherMessageText
+              ]}>
+                {item.message_text}
+              </Text>
+              <Text style={styles.timeText}>{formatTime(item.sent_at)}</Text>
+              {seenBy && <Text style={styles.seenByText}>{seenBy}</Text>}
+              {queuedItem && <OutboxItemStatus item={queuedItem} compact />}
+            </View>
           </View>
-        </View>
+        )}
       </>
     );
   };
@@ -302,18 +229,27 @@ const TripChatScreen: React.FC<Props> = ({ navigation, route }) => {
           <Ionicons name="arrow-back" size={24} color="white" />
         </TouchableOpacity>
         <Text style={styles.headerTitle} numberOfLines={1}>
-          {tripTitle}
+          {trip?.title}
         </Text>
       </View>
+      <StaleDataBanner updatedAt={messagesQuery.dataUpdatedAt} refreshFailed={messagesQuery.isRefetchError} />
       
       <FlatList
-        ref={flatListRef}
+        inverted
         style={styles.chatList}
         data={messages}
         renderItem={renderMessageItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.chatContent}
-        onLayout={() => flatListRef.current?.scrollToEnd({ animated: false })}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        viewabilityConfig={viewabilityConfig}
+        onEndReached={loadOlderMessages}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingOlderMessages ? (
+            <ActivityIndicator style={styles.olderLoader} size="small" color="#3498db" />
+          ) : null
+        }
       />
       
       <View style={styles.inputContainer}>
@@ -328,9 +264,9 @@ const TripChatScreen: React.FC<Props> = ({ navigation, route }) => {
         <TouchableOpacity
           style={[styles.sendButton, !newMessage.trim() && styles.sendButtonDisabled]}
           onPress={sendMessage}
-          disabled={!newMessage.trim() || sendingMessage}
+          disabled={!newMessage.trim() || sendChatMessage.isPending}
         >
-          {sendingMessage ? (
+          {sendChatMessage.isPending ? (
             <ActivityIndicator size="small" color="white" />
           ) : (
             <Ionicons name="send" size={20} color="white" />
@@ -397,6 +333,9 @@ const styles = StyleSheet.create({
   chatContent: {
     padding: 16,
   },
+  olderLoader: {
+    marginVertical: 8,
+  },
   dateContainer: {
     alignItems: 'center',
     marginVertical: 8,
@@ -409,6 +348,28 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#7f8c8d',
   },
+  systemMessage: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    maxWidth: '90%',
+    backgroundColor: '#ecf0f1',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 12,
+  },
+  systemMessageText: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#2c3e50',
+    lineHeight: 18,
+  },
+  systemSeenByText: {
+    marginLeft: 6,
+    fontSize: 10,
+    color: '#7f8c8d',
+    alignSelf: 'flex-end',
+  },
   messageContainer: {
     flexDirection: 'row',
     marginBottom: 12,
@@ -483,6 +444,12 @@ const styles = StyleSheet.create({
     marginTop: 4,
     color: 'inherit',
   },
+  seenByText: {
+    fontSize: 10,
+    opacity: 0.7,
+    alignSelf: 'flex-end',
+    color: 'inherit',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,197 +1,335 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Image, Alert } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { MainStackParamList } from '../../navigation/types';
-import { supabase } from '../../integrations/supabase/client';
 import { useAuth } from '../../context/AuthContext';
 import { Ionicons } from '@expo/vector-icons';
 import AppButton from '../../components/AppButton';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import OutboxItemStatus from '../../components/OutboxItemStatus';
+import RidePreferenceTags from '../../components/RidePreferenceTags';
+import CancelTripDialog from '../../components/CancelTripDialog';
+import TripStatusBadge from '../../components/TripStatusBadge';
+import SeatMap from '../../components/SeatMap';
+import { formatPrice } from '../../lib/currencies';
+import { activeRidePreferences } from '../../lib/rideDetails';
+import { isRatingOpen } from '../../lib/ratings';
+import {
+  describeJoinRequirements,
+  getMissingProfileFields,
+  getUnmetJoinRequirements,
+} from '../../lib/joinRequirements';
+import {
+  TripAction,
+  TripStatus,
+  canPerform,
+  canTransition,
+  getTripStatus,
+  isBeforeLeaveDeadline,
+} from '../../lib/tripLifecycle';
 import MapView, { Marker, Polyline } from 'react-native-maps';
+import { getDisplayName, getInitials } from '../../api/profiles';
+import { ParticipantState, TripFullError, getParticipantState, getWaitlist } from '../../api/participants';
+import { useCancelTrip, useDeleteTrip, usePublishTrip, useTrip, useTripWaypoints } from '../../hooks/use-trips';
+import {
+  useApplyForTrip,
+  useApproveParticipant,
+  useChooseSeat,
+  useJoinWaitlist,
+  useLeaveTrip,
+  useRejectParticipant,
+  useRemoveParticipant,
+  useTripParticipants,
+} from '../../hooks/use-participants';
+import { useProfile } from '../../hooks/use-profile';
+import { useTripRatingsBy } from '../../hooks/use-ratings';
+import { useOnlineStatus } from '../../hooks/use-online-status';
+import { usePendingJoin } from '../../hooks/use-outbox';
 
 type Props = NativeStackScreenProps<MainStackParamList, 'TripDetails'>;
 
-interface TripDetails {
-  id: string;
-  title: string;
-  description: string;
-  start_date: string;
-  end_date: string;
-  start_location: string;
-  organizer_id: string;
-  max_participants: number;
-  organizer: {
-    firstname: string;
-    lastname: string;
-    avatar_url: string | null;
-  };
-}
-
-interface Waypoint {
-  id: string;
-  location_name: string;
-  latitude: number;
-  longitude: number;
-  sequence_order: number;
-}
-
-interface Participant {
-  id: string;
-  user_id: string;
-  approved: boolean;
-  user: {
-    firstname: string;
-    lastname: string;
-    avatar_url: string | null;
-    rating_average: number | null;
-  };
-}
+// Why someone who hasn't joined can't join right now
+const closedMessages: Partial<Record<TripStatus, string>> = {
+  full: 'This trip is full',
+  in_progress: 'This trip has already started',
+  completed: 'This trip has ended',
+};
+
+// Shown once a join request reaches the server, depending on where it landed
+const joinConfirmations: Partial<Record<ParticipantState, [string, string]>> = {
+  approved: ["You're In!", 'Your seat is confirmed and you have been added to the trip chat.'],
+  pending: [
+    'Application Submitted',
+    'Your request to join this trip has been submitted. You will be notified once the organizer approves your request.',
+  ],
+  waitlisted: [
+    'Added to Waitlist',
+    "The last seat was taken just before your request arrived. You'll get the next free seat.",
+  ],
+};
+
+const DEFAULT_REGION = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  latitudeDelta: 0.0922,
+  longitudeDelta: 0.0421,
+};
 
 const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const { tripId } = route.params;
   const { user } = useAuth();
   
-  const [trip, setTrip] = useState<TripDetails | null>(null);
-  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
-  const [participants, setParticipants] = useState<Participant[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isOrganizer, setIsOrganizer] = useState(false);
-  const [isParticipant, setIsParticipant] = useState(false);
-  const [isPendingApproval, setIsPendingApproval] = useState(false);
-  const [joinLoading, setJoinLoading] = useState(false);
-  const [participantCount, setParticipantCount] = useState(0);
-  const [region, setRegion] = useState({
-    latitude: 37.7749,
-    longitude: -122.4194,
-    latitudeDelta: 0.0922,
-    longitudeDelta: 0.0421,
-  });
+  const tripQuery = useTrip(tripId);
+  const waypointsQuery = useTripWaypoints(tripId);
+  const participantsQuery = useTripParticipants(tripId);
+  const applyForTrip = useApplyForTrip(tripId, user?.id);
+  const approveParticipant = useApproveParticipant(tripId);
+  const rejectParticipant = useRejectParticipant(tripId);
+  const removeParticipant = useRemoveParticipant(tripId);
+  const joinWaitlist = useJoinWaitlist(tripId, user?.id);
+  const leaveTrip = useLeaveTrip(tripId, user?.id);
+  const chooseSeat = useChooseSeat(tripId, user?.id);
+  const cancelTrip = useCancelTrip(tripId);
+  const deleteTrip = useDeleteTrip(tripId);
+  const publishTrip = usePublishTrip(tripId);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [awaitingJoin, setAwaitingJoin] = useState(false);
+  const profileQuery = useProfile(user?.id);
+  const ratingsQuery = useTripRatingsBy(tripId, user?.id);
+  const isOnline = useOnlineStatus();
+  const pendingJoin = usePendingJoin(tripId, user?.id);
+
+  const trip = tripQuery.data ?? null;
+  const waypoints = useMemo(() => waypointsQuery.data ?? [], [waypointsQuery.data]);
+  const participants = useMemo(() => participantsQuery.data ?? [], [participantsQuery.data]);
+  const seatOccupants = useMemo(
+    () => Object.fromEntries(participants.filter(p => p.approved && p.seat_id).map(p => [p.seat_id, p.user])),
+    [participants]
+  );
+  const loading = tripQuery.isLoading || waypointsQuery.isLoading || participantsQuery.isLoading;
+
+  const isOrganizer = trip?.organizer_id === user?.id;
+  const userParticipation = participants.find(p => p.user_id === user?.id);
+  const participationState = userParticipation ? getParticipantState(userParticipation) : null;
+  const isParticipant = participationState === 'approved';
+  const isPendingApproval = participationState === 'pending';
+  const pendingParticipants = participants.filter(p => getParticipantState(p) === 'pending');
+  const waitlist = getWaitlist(participants);
+  const waitlistPosition = waitlist.findIndex(p => p.user_id === user?.id) + 1;
+  const participantCount = participants.filter(p => p.approved).length;
+  const status = trip ? getTripStatus(trip, { participantCount }) : null;
+  const can = (action: TripAction) => !!status && canPerform(status, action);
+  // Trips other people have joined can only be cancelled, so riders keep the history
+  const canDelete = !participants.some(p => p.approved && p.user_id !== trip?.organizer_id);
+  const joinRequirements = trip ? describeJoinRequirements(trip) : [];
+  // Checked against the user's own profile; apply_for_trip enforces the same rules
+  const unmetRequirements = trip && profileQuery.data ? getUnmetJoinRequirements(trip, profileQuery.data) : [];
+  const canChooseSeat = isParticipant && !isOrganizer && can('choose_seat');
+  // Everyone the user travelled with, for the post-trip rating prompt
+  const coTravellerIds = new Set(
+    [trip?.organizer_id, ...participants.filter(p => p.approved).map(p => p.user_id)]
+      .filter(id => id && id !== user?.id)
+  );
+  const showRatingPrompt = !!trip && (isParticipant || isOrganizer) && can('rate') && isRatingOpen(trip)
+    && coTravellerIds.size > 0;
+  const unratedCount = coTravellerIds.size - (ratingsQuery.data ?? []).filter(r => coTravellerIds.has(r.rated_id)).length;
+  const canLeaveNow = !!trip && can('leave') && isBeforeLeaveDeadline(trip);
+
+  // Center the map on the first located waypoint or the trip origin
+  const region = useMemo(() => {
+    const firstLocation = waypoints.find(wp => wp.location)?.location ?? trip?.origin_location;
+    return firstLocation ? { ...DEFAULT_REGION, ...firstLocation } : DEFAULT_REGION;
+  }, [waypoints, trip]);
 
   useEffect(() => {
-    fetchTripDetails();
-  }, [tripId]);
+    if (!awaitingJoin || !participationState) return;
+    setAwaitingJoin(false);
+    const confirmation = joinConfirmations[participationState];
+    if (confirmation) Alert.alert(...confirmation);
+  }, [awaitingJoin, participationState]);
 
-  const fetchTripDetails = async () => {
+  const handleJoinTrip = async () => {
+    // Seats are counted again by the server, which may put the request on
+    // the waitlist if the trip filled up since this screen loaded
+    if (!can('join')) {
+      Alert.alert('Trip Closed', 'This trip is no longer accepting new participants.');
+      return;
+    }
+    
     try {
-      setLoading(true);
-      
-      // Fetch trip details
-      const { data: tripData, error: tripError } = await supabase
-        .from('trips')
-        .select('*, organizer:profiles!trips_organizer_id_fkey(firstname, lastname, avatar_url)')
-        .eq('id', tripId)
-        .single();
-      
-      if (tripError) throw tripError;
-      setTrip(tripData);
-      setIsOrganizer(tripData.organizer_id === user?.id);
-      
-      // Fetch waypoints
-      const { data: waypointData, error: waypointError } = await supabase
-        .from('trip_waypoints')
-        .select('*')
-        .eq('trip_id', tripId)
-        .order('sequence_order', { ascending: true });
-      
-      if (waypointError) throw waypointError;
-      setWaypoints(waypointData || []);
-      
-      // Fetch participants
-      const { data: participantData, error: participantError } = await supabase
-        .from('trip_participants')
-        .select('*, user:profiles!trip_participants_user_id_fkey(firstname, lastname, avatar_url, rating_average)')
-        .eq('trip_id', tripId);
-      
-      if (participantError) throw participantError;
-      setParticipants(participantData || []);
-      setParticipantCount((participantData || []).filter(p => p.approved).length);
-      
-      // Check if current user is a participant
-      const userParticipation = (participantData || []).find(p => p.user_id === user?.id);
-      setIsParticipant(userParticipation?.approved || false);
-      setIsPendingApproval(userParticipation && !userParticipation.approved);
-      
-      // Set map region based on waypoints or starting location
-      if (waypointData && waypointData.length > 0) {
-        setRegion({
-          latitude: waypointData[0].latitude,
-          longitude: waypointData[0].longitude,
-          latitudeDelta: 0.0922,
-          longitudeDelta: 0.0421,
-        });
+      await applyForTrip.mutateAsync();
+      // The confirmation waits for the server, which decides whether the
+      // request is approved automatically
+      setAwaitingJoin(true);
+
+      if (!isOnline) {
+        Alert.alert(
+          'Application Saved',
+          "You're offline. Your request to join this trip will be sent as soon as you're back online."
+        );
       }
-    } catch (error: any) {
-      console.error('Error fetching trip details:', error.message);
-      Alert.alert('Error', 'Failed to load trip details');
-    } finally {
-      setLoading(false);
+    } catch (error) {
+      console.error('Error joining trip:', error);
+      Alert.alert('Error', 'Failed to join trip. Please try again.');
     }
   };
 
-  const handleJoinTrip = async () => {
+  const handlePublishTrip = async () => {
+    try {
+      await publishTrip.mutateAsync();
+      Alert.alert('Trip Published', 'Your trip is now visible to other travellers.');
+    } catch (error) {
+      console.error('Error publishing trip:', error);
+      Alert.alert('Error', 'Failed to publish trip. Please try again.');
+    }
+  };
+
+  const openProfile = (userId: string) => {
+    navigation.navigate('UserProfile', { userId });
+  };
+
+  const handleApproveParticipant = async (userId: string) => {
     try {
-      setJoinLoading(true);
-      
-      // Check if the trip is full
-      if (participantCount >= trip!.max_participants) {
-        Alert.alert('Trip Full', 'Sorry, this trip has reached its maximum number of participants.');
+      await approveParticipant.mutateAsync(userId);
+      Alert.alert('Success', 'Participant approved successfully');
+    } catch (error) {
+      if (error instanceof TripFullError) {
+        Alert.alert(
+          'Trip Full',
+          'Every seat was taken before this approval went through. Remove a participant or add seats to approve more riders.'
+        );
         return;
       }
-      
-      const { error } = await supabase.rpc('apply_for_trip', {
-        p_trip_id: tripId
-      });
-      
-      if (error) throw error;
-      
+      console.error('Error approving participant:', error);
+      Alert.alert('Error', 'Failed to approve participant');
+    }
+  };
+
+  const handleChooseSeat = async (seatId: string) => {
+    try {
+      await chooseSeat.mutateAsync(seatId);
+    } catch (error) {
+      console.error('Error choosing seat:', error);
+      Alert.alert('Seat Unavailable', error.message || 'Failed to change seats. Please try again.');
+    }
+  };
+
+  const handleRejectParticipant = async (userId: string) => {
+    try {
+      await rejectParticipant.mutateAsync(userId);
+    } catch (error) {
+      console.error('Error rejecting participant:', error);
+      Alert.alert('Error', 'Failed to reject participant');
+    }
+  };
+
+  const confirmRemoveParticipant = (userId: string, name: string) => {
+    Alert.alert(
+      'Remove Participant',
+      `Remove ${name} from this trip? They will also leave the trip chat.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeParticipant.mutateAsync(userId);
+            } catch (error) {
+              console.error('Error removing participant:', error);
+              Alert.alert('Error', 'Failed to remove participant');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleJoinWaitlist = async () => {
+    try {
+      await joinWaitlist.mutateAsync();
       Alert.alert(
-        'Application Submitted',
-        'Your request to join this trip has been submitted. You will be notified once the organizer approves your request.'
+        'Added to Waitlist',
+        trip?.automatic_approval
+          ? "You'll get the next free seat on this trip and be added to the trip chat automatically."
+          : 'When a seat frees up your request goes to the organizer for approval.'
       );
-      
-      setIsPendingApproval(true);
-    } catch (error: any) {
-      console.error('Error joining trip:', error.message);
-      Alert.alert('Error', 'Failed to join trip. Please try again.');
-    } finally {
-      setJoinLoading(false);
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      Alert.alert('Error', error.message || 'Failed to join the waitlist. Please try again.');
     }
   };
 
-  const handleApproveParticipant = async (participantId: string, userId: string) => {
+  const confirmLeaveTrip = () => {
+    const [title, message, confirmText] = isParticipant
+      ? ['Leave Trip', 'Your seat will be offered to the next person on the waitlist.', 'Leave']
+      : participationState === 'waitlisted'
+        ? ['Leave Waitlist', 'You will lose your place in line.', 'Leave Waitlist']
+        : ['Withdraw Request', 'The organizer will no longer see your request to join.', 'Withdraw'];
+
+    Alert.alert(title, message, [
+      { text: 'Stay', style: 'cancel' },
+      {
+        text: confirmText,
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await leaveTrip.mutateAsync();
+            if (result === 'left') {
+              Alert.alert('You Left the Trip', 'The other participants have been notified in the trip chat.');
+            }
+          } catch (error) {
+            console.error('Error leaving trip:', error);
+            const message = error?.message === 'leave_cutoff_passed'
+              ? 'It is too close to departure to leave this trip. Please contact the organizer.'
+              : 'Failed to leave the trip. Please try again.';
+            Alert.alert('Error', message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCancelTrip = async (reason: string) => {
     try {
-      const { error } = await supabase.rpc('approve_participant', {
-        p_trip_id: tripId,
-        p_user_id: userId
-      });
-      
-      if (error) throw error;
-      
-      // Update UI
-      fetchTripDetails();
-      
-      // Add participant to chat room
-      await supabase.rpc('add_participant_to_chat', {
-        p_trip_id: tripId,
-        p_user_id: userId
-      });
-      
-      Alert.alert('Success', 'Participant approved successfully');
-    } catch (error: any) {
-      console.error('Error approving participant:', error.message);
-      Alert.alert('Error', 'Failed to approve participant');
+      await cancelTrip.mutateAsync(reason);
+      setShowCancelDialog(false);
+      Alert.alert('Trip Cancelled', 'Participants have been notified in the trip chat.');
+    } catch (error) {
+      console.error('Error cancelling trip:', error);
+      Alert.alert('Error', 'Failed to cancel trip. Please try again.');
     }
   };
 
+  const confirmDeleteTrip = () => {
+    Alert.alert(
+      'Delete Trip',
+      'This permanently deletes the trip, its waypoints and all join requests. Everyone on it or waiting to join will be told. This cannot be undone.',
+      [
+        { text: 'Keep Trip', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTrip.mutateAsync();
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error deleting trip:', error);
+              Alert.alert('Error', 'Failed to delete trip. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
   
-  const getInitials = (firstName: string, lastName: string) => {
-    return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
-  };
-  
   const openChatRoom = () => {
     navigation.navigate('TripChat', { tripId });
   };
@@ -219,14 +357,23 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
+  const locatedWaypoints = waypoints.filter(waypoint => waypoint.location);
+
   return (
     <ScrollView style={styles.container}>
+      <StaleDataBanner updatedAt={tripQuery.dataUpdatedAt} refreshFailed={tripQuery.isRefetchError} />
       <View style={styles.header}>
         <Text style={styles.title}>{trip.title}</Text>
+        <View style={styles.statusRow}>
+          <TripStatusBadge status={status} />
+        </View>
         <View style={styles.organizerInfo}>
           <Text style={styles.organizerLabel}>Organized by</Text>
-          <View style={styles.organizerProfile}>
-            {trip.organizer.avatar_url ? (
+          <TouchableOpacity
+            style={styles.organizerProfile}
+            onPress={() => openProfile(trip.organizer_id)}
+          >
+            {trip.organizer?.avatar_url ? (
               <Image
                 source={{ uri: trip.organizer.avatar_url }}
                 style={styles.organizerAvatar}
@@ -234,17 +381,47 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
             ) : (
               <View style={styles.organizerInitials}>
                 <Text style={styles.initialsText}>
-                  {getInitials(trip.organizer.firstname, trip.organizer.lastname)}
+                  {getInitials(trip.organizer)}
                 </Text>
               </View>
             )}
             <Text style={styles.organizerName}>
-              {trip.organizer.firstname} {trip.organizer.lastname}
+              {getDisplayName(trip.organizer)}
             </Text>
-          </View>
+            <Ionicons name="chevron-forward" size={16} color="white" />
+          </TouchableOpacity>
         </View>
       </View>
 
+      {status === 'cancelled' && (
+        <View style={styles.cancelledBanner}>
+          <Ionicons name="close-circle-outline" size={24} color="#e74c3c" />
+          <View style={styles.cancelledTextContainer}>
+            <Text style={styles.cancelledTitle}>
+              Cancelled on {formatDate(trip.cancelled_at)}
+            </Text>
+            {trip.cancellation_reason && (
+              <Text style={styles.cancelledReason}>{trip.cancellation_reason}</Text>
+            )}
+          </View>
+        </View>
+      )}
+
+      {showRatingPrompt && (
+        <TouchableOpacity style={styles.ratingBanner} onPress={() => navigation.navigate('RateTrip', { tripId })}>
+          <Ionicons name="star" size={24} color="#f39c12" />
+          <View style={styles.cancelledTextContainer}>
+            <Text style={styles.ratingBannerTitle}>How was the trip?</Text>
+            <Text style={styles.cancelledReason}>
+              {unratedCount > 0
+                ? `Rate the ${unratedCount === 1 ? 'person' : `${unratedCount} people`} you travelled with`
+                : 'Thanks for rating your co-travellers. Tap to change your ratings.'}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#7f8c8d" />
+        </TouchableOpacity>
+      )}
+
       <View style={styles.infoCard}>
         <View style={styles.infoRow}>
           <View style={styles.infoItem}>
@@ -268,7 +445,7 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
             <Ionicons name="location-outline" size={20} color="#3498db" />
             <View>
               <Text style={styles.infoLabel}>Starting Point</Text>
-              <Text style={styles.infoText}>{trip.start_location}</Text>
+              <Text style={styles.infoText}>{trip.origin_address || 'Not specified'}</Text>
             </View>
           </View>
           <View style={styles.infoItem}>
@@ -279,6 +456,27 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
             </View>
           </View>
         </View>
+
+        <View style={styles.infoRow}>
+          <View style={styles.infoItem}>
+            <Ionicons name="pricetag-outline" size={20} color="#3498db" />
+            <View>
+              <Text style={styles.infoLabel}>Price per Seat</Text>
+              <Text style={styles.infoText}>
+                {trip.price_per_seat !== null ? formatPrice(trip.price_per_seat, trip.currency) : 'Not specified'}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.infoItem}>
+            <Ionicons name="wallet-outline" size={20} color="#3498db" />
+            <View>
+              <Text style={styles.infoLabel}>Budget per Person</Text>
+              <Text style={styles.infoText}>
+                {trip.budget !== null ? formatPrice(trip.budget, trip.currency) : 'Not specified'}
+              </Text>
+            </View>
+          </View>
+        </View>
       </View>
 
       <View style={styles.section}>
@@ -286,6 +484,41 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
         <Text style={styles.description}>{trip.description}</Text>
       </View>
 
+      {activeRidePreferences(trip).length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Ride Preferences</Text>
+          <RidePreferenceTags trip={trip} />
+        </View>
+      )}
+
+      {trip.seat_rows && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Seats</Text>
+          {canChooseSeat && <Text style={styles.seatHint}>Tap a free seat to move there</Text>}
+          <SeatMap
+            rows={trip.seat_rows}
+            keepMiddleSeatFree={!!trip.keep_middle_seat_free}
+            occupants={seatOccupants}
+            driver={trip.organizer}
+            highlightedSeatId={userParticipation?.seat_id}
+            onSelectSeat={canChooseSeat ? handleChooseSeat : undefined}
+            disabled={!isOnline || chooseSeat.isPending}
+          />
+        </View>
+      )}
+
+      {joinRequirements.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Join Requirements</Text>
+          {joinRequirements.map(requirement => (
+            <View key={requirement} style={styles.requirementRow}>
+              <Ionicons name="checkmark-circle-outline" size={16} color="#3498db" />
+              <Text style={styles.requirementText}>{requirement}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {waypoints.length > 0 && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Trip Route</Text>
@@ -297,24 +530,18 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
               scrollEnabled={true}
               zoomEnabled={true}
             >
-              {waypoints.map((waypoint, index) => (
+              {locatedWaypoints.map((waypoint, index) => (
                 <Marker
                   key={waypoint.id}
-                  coordinate={{
-                    latitude: waypoint.latitude,
-                    longitude: waypoint.longitude,
-                  }}
-                  title={waypoint.location_name}
-                  pinColor={index === 0 ? 'green' : index === waypoints.length - 1 ? 'red' : 'blue'}
+                  coordinate={waypoint.location}
+                  title={waypoint.address}
+                  pinColor={index === 0 ? 'green' : index === locatedWaypoints.length - 1 ? 'red' : 'blue'}
                 />
               ))}
               
-              {waypoints.length > 1 && (
+              {locatedWaypoints.length > 1 && (
                 <Polyline
-                  coordinates={waypoints.map(waypoint => ({
-                    latitude: waypoint.latitude,
-                    longitude: waypoint.longitude,
-                  }))}
+                  coordinates={locatedWaypoints.map(waypoint => waypoint.location)}
                   strokeColor="#3498db"
                   strokeWidth={3}
                 />
@@ -333,7 +560,7 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
                   <Text style={styles.waypointNumber}>{index + 1}</Text>
                 </View>
                 <View style={styles.waypointDetails}>
-                  <Text style={styles.waypointName}>{waypoint.location_name}</Text>
+                  <Text style={styles.waypointName}>{waypoint.address}</Text>
                   {index === 0 && <Text style={styles.waypointTag}>Starting Point</Text>}
                   {index === waypoints.length - 1 && <Text style={styles.waypointTag}>Destination</Text>}
                 </View>
@@ -351,49 +578,66 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
         ) : (
           <View style={styles.participantsList}>
             {participants.filter(p => p.approved).map((participant) => (
-              <View key={participant.id} style={styles.participantItem}>
-                {participant.user.avatar_url ? (
-                  <Image
-                    source={{ uri: participant.user.avatar_url }}
-                    style={styles.participantAvatar}
-                  />
-                ) : (
-                  <View style={styles.participantInitials}>
-                    <Text style={styles.initialsText}>
-                      {getInitials(participant.user.firstname, participant.user.lastname)}
-                    </Text>
-                  </View>
-                )}
-                <View style={styles.participantInfo}>
-                  <Text style={styles.participantName}>
-                    {participant.user.firstname} {participant.user.lastname}
-                    {participant.user_id === trip.organizer_id && (
-                      <Text style={styles.organizerTag}> (Organizer)</Text>
-                    )}
-                  </Text>
-                  
-                  {participant.user.rating_average && (
-                    <View style={styles.ratingContainer}>
-                      <Text style={styles.ratingText}>
-                        {participant.user.rating_average.toFixed(1)}
+              <View key={participant.user_id} style={styles.participantItem}>
+                <TouchableOpacity
+                  style={styles.participantProfile}
+                  onPress={() => openProfile(participant.user_id)}
+                >
+                  {participant.user?.avatar_url ? (
+                    <Image
+                      source={{ uri: participant.user.avatar_url }}
+                      style={styles.participantAvatar}
+                    />
+                  ) : (
+                    <View style={styles.participantInitials}>
+                      <Text style={styles.initialsText}>
+                        {getInitials(participant.user)}
                       </Text>
-                      <Ionicons name="star" size={12} color="#f39c12" />
                     </View>
                   )}
-                </View>
+                  <View style={styles.participantInfo}>
+                    <Text style={styles.participantName}>
+                      {getDisplayName(participant.user)}
+                      {participant.user_id === trip.organizer_id && (
+                        <Text style={styles.organizerTag}> (Organizer)</Text>
+                      )}
+                    </Text>
+                  
+                    {participant.user?.rating_average && (
+                      <View style={styles.ratingContainer}>
+                        <Text style={styles.ratingText}>
+                          {participant.user.rating_average.toFixed(1)}
+                        </Text>
+                        <Ionicons name="star" size={12} color="#f39c12" />
+                      </View>
+                    )}
+                  </View>
+                </TouchableOpacity>
+                {isOrganizer && can('remove') && participant.user_id !== trip.organizer_id && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => confirmRemoveParticipant(participant.user_id, getDisplayName(participant.user))}
+                    disabled={!isOnline || removeParticipant.isPending}
+                  >
+                    <Ionicons name="close-circle-outline" size={22} color={isOnline ? '#e74c3c' : '#bdc3c7'} />
+                  </TouchableOpacity>
+                )}
               </View>
             ))}
           </View>
         )}
         
-        {isOrganizer && participants.filter(p => !p.approved).length > 0 && (
+        {isOrganizer && pendingParticipants.length > 0 && (
           <View style={styles.pendingSection}>
             <Text style={styles.pendingSectionTitle}>Pending Approvals</Text>
             
-            {participants.filter(p => !p.approved).map((participant) => (
-              <View key={participant.id} style={styles.pendingItem}>
-                <View style={styles.pendingParticipantInfo}>
-                  {participant.user.avatar_url ? (
+            {pendingParticipants.map((participant) => (
+              <View key={participant.user_id} style={styles.pendingItem}>
+                <TouchableOpacity
+                  style={styles.pendingParticipantInfo}
+                  onPress={() => openProfile(participant.user_id)}
+                >
+                  {participant.user?.avatar_url ? (
                     <Image
                       source={{ uri: participant.user.avatar_url }}
                       style={styles.pendingAvatar}
@@ -401,20 +645,76 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
                   ) : (
                     <View style={styles.pendingInitials}>
                       <Text style={styles.pendingInitialsText}>
-                        {getInitials(participant.user.firstname, participant.user.lastname)}
+                        {getInitials(participant.user)}
                       </Text>
                     </View>
                   )}
-                  <Text style={styles.pendingName}>
-                    {participant.user.firstname} {participant.user.lastname}
-                  </Text>
-                </View>
+                  <View>
+                    <Text style={styles.pendingName}>
+                      {getDisplayName(participant.user)}
+                    </Text>
+                    {participant.user?.rating_average ? (
+                      <View style={styles.ratingContainer}>
+                        <Text style={styles.ratingText}>
+                          {participant.user.rating_average.toFixed(1)}
+                        </Text>
+                        <Ionicons name="star" size={12} color="#f39c12" />
+                      </View>
+                    ) : (
+                      <Text style={styles.viewProfileText}>View profile</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
                 <TouchableOpacity
-                  style={styles.approveButton}
-                  onPress={() => handleApproveParticipant(participant.id, participant.user_id)}
+                  style={[styles.approveButton, (!isOnline || !can('approve')) && styles.approveButtonDisabled]}
+                  onPress={() => handleApproveParticipant(participant.user_id)}
+                  disabled={!isOnline || !can('approve')}
                 >
                   <Text style={styles.approveButtonText}>Approve</Text>
                 </TouchableOpacity>
+                {can('reject') && (
+                  <TouchableOpacity
+                    style={[styles.rejectButton, !isOnline && styles.approveButtonDisabled]}
+                    onPress={() => handleRejectParticipant(participant.user_id)}
+                    disabled={!isOnline}
+                  >
+                    <Text style={styles.rejectButtonText}>Reject</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {isOrganizer && waitlist.length > 0 && (
+          <View style={styles.pendingSection}>
+            <Text style={styles.pendingSectionTitle}>Waitlist</Text>
+            <Text style={styles.waitlistHint}>
+              {trip.automatic_approval
+                ? 'The next free seat goes to the first person in line.'
+                : 'When a seat frees up, the first person in line becomes a request for you to approve.'}
+            </Text>
+
+            {waitlist.map((participant, index) => (
+              <View key={participant.user_id} style={styles.pendingItem}>
+                <TouchableOpacity
+                  style={styles.pendingParticipantInfo}
+                  onPress={() => openProfile(participant.user_id)}
+                >
+                  <Text style={styles.waitlistPosition}>{index + 1}</Text>
+                  <Text style={styles.pendingName}>
+                    {getDisplayName(participant.user)}
+                  </Text>
+                </TouchableOpacity>
+                {can('remove') && (
+                  <TouchableOpacity
+                    style={[styles.rejectButton, !isOnline && styles.approveButtonDisabled]}
+                    onPress={() => confirmRemoveParticipant(participant.user_id, getDisplayName(participant.user))}
+                    disabled={!isOnline}
+                  >
+                    <Text style={styles.rejectButtonText}>Remove</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             ))}
           </View>
@@ -423,30 +723,149 @@ const TripDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
 
       <View style={styles.actionButtons}>
         {isParticipant || isOrganizer ? (
-          <AppButton
-            title="Open Chat"
-            onPress={openChatRoom}
-            type="primary"
-            style={styles.chatButton}
-          />
+          can('chat') && (
+            <AppButton
+              title="Open Chat"
+              onPress={openChatRoom}
+              type="primary"
+              style={styles.chatButton}
+            />
+          )
         ) : isPendingApproval ? (
-          <View style={styles.pendingContainer}>
-            <Ionicons name="time-outline" size={24} color="#f39c12" />
-            <Text style={styles.pendingText}>Waiting for approval</Text>
+          <View>
+            <View style={styles.pendingContainer}>
+              <Ionicons name="time-outline" size={24} color="#f39c12" />
+              <Text style={styles.pendingText}>Waiting for approval</Text>
+            </View>
+            <AppButton
+              title="Withdraw Request"
+              onPress={confirmLeaveTrip}
+              type="outline"
+              loading={leaveTrip.isPending}
+              disabled={!isOnline}
+              style={styles.leaveButton}
+            />
           </View>
-        ) : (
+        ) : participationState === 'waitlisted' ? (
+          <View>
+            <View style={styles.pendingContainer}>
+              <Ionicons name="hourglass-outline" size={24} color="#f39c12" />
+              <Text style={styles.pendingText}>
+                You're on the waitlist{waitlistPosition > 0 ? ` (#${waitlistPosition})` : ''}
+              </Text>
+            </View>
+            <AppButton
+              title="Leave Waitlist"
+              onPress={confirmLeaveTrip}
+              type="outline"
+              loading={leaveTrip.isPending}
+              disabled={!isOnline}
+              style={styles.leaveButton}
+            />
+          </View>
+        ) : participationState === 'rejected' ? (
+          <Text style={styles.tripFullText}>The organizer declined your request to join</Text>
+        ) : pendingJoin ? (
+          <View style={styles.queuedJoinContainer}>
+            <Text style={styles.queuedJoinTitle}>Join request</Text>
+            <OutboxItemStatus item={pendingJoin} />
+          </View>
+        ) : (can('join') || can('waitlist')) && unmetRequirements.length > 0 ? (
+          <View style={styles.requirementsNotice}>
+            {unmetRequirements.map(requirement => (
+              <Text key={requirement} style={styles.requirementsNoticeText}>{requirement}</Text>
+            ))}
+            {trip.require_complete_profile && getMissingProfileFields(profileQuery.data).length > 0 && (
+              <AppButton
+                title="Complete Profile"
+                onPress={() => navigation.navigate('EditProfile', { userId: user.id })}
+                type="outline"
+                style={styles.leaveButton}
+              />
+            )}
+          </View>
+        ) : can('join') ? (
           <AppButton
             title="Join Trip"
             onPress={handleJoinTrip}
-            loading={joinLoading}
-            disabled={participantCount >= trip.max_participants}
+            loading={applyForTrip.isPending}
+          />
+        ) : can('waitlist') ? (
+          <View>
+            <Text style={styles.tripFullText}>{closedMessages.full}</Text>
+            <AppButton
+              title="Join Waitlist"
+              onPress={handleJoinWaitlist}
+              loading={joinWaitlist.isPending}
+              disabled={!isOnline}
+              type="outline"
+            />
+          </View>
+        ) : closedMessages[status] ? (
+          <Text style={styles.tripFullText}>{closedMessages[status]}</Text>
+        ) : null}
+
+        {isParticipant && !isOrganizer && can('leave') && (
+          canLeaveNow ? (
+            <AppButton
+              title="Leave Trip"
+              onPress={confirmLeaveTrip}
+              type="outline"
+              loading={leaveTrip.isPending}
+              disabled={!isOnline}
+            />
+          ) : (
+            <Text style={styles.cutoffText}>
+              Leaving closed {trip.leave_cutoff_hours} hours before departure. Contact the organizer if your plans change.
+            </Text>
+          )
+        )}
+
+        {isOrganizer && can('publish') && (
+          <AppButton
+            title="Publish Trip"
+            onPress={handlePublishTrip}
+            loading={publishTrip.isPending}
+            disabled={!isOnline}
           />
         )}
-        
-        {participantCount >= trip.max_participants && !isParticipant && !isPendingApproval && (
-          <Text style={styles.tripFullText}>This trip is full</Text>
+
+        {isOrganizer && can('edit') && (
+          <AppButton
+            title="Edit Trip"
+            onPress={() => navigation.navigate('EditTrip', { tripId })}
+            type="outline"
+            disabled={!isOnline}
+            style={styles.editButton}
+          />
+        )}
+
+        {isOrganizer && can('cancel') && canTransition(status, 'cancelled') && (
+          <AppButton
+            title="Cancel Trip"
+            onPress={() => setShowCancelDialog(true)}
+            type="outline"
+            disabled={!isOnline}
+          />
+        )}
+
+        {isOrganizer && can('delete') && canDelete && (
+          <AppButton
+            title="Delete Trip"
+            onPress={confirmDeleteTrip}
+            type="danger"
+            loading={deleteTrip.isPending}
+            disabled={!isOnline}
+          />
         )}
       </View>
+
+      <CancelTripDialog
+        visible={showCancelDialog}
+        onDismiss={() => setShowCancelDialog(false)}
+        onConfirm={handleCancelTrip}
+        loading={cancelTrip.isPending}
+      />
     </ScrollView>
   );
 };
@@ -487,6 +906,9 @@ const styles = StyleSheet.create({
     fontSize: 26,
     fontWeight: 'bold',
     color: 'white',
+    marginBottom: 8,
+  },
+  statusRow: {
     marginBottom: 16,
   },
   organizerInfo: {
@@ -653,6 +1075,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  participantProfile: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   participantAvatar: {
     width: 40,
     height: 40,
@@ -718,6 +1145,7 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   pendingParticipantInfo: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
   },
@@ -745,12 +1173,48 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#2c3e50',
   },
+  viewProfileText: {
+    fontSize: 12,
+    color: '#3498db',
+  },
   approveButton: {
     backgroundColor: '#2ecc71',
     paddingVertical: 6,
     paddingHorizontal: 12,
     borderRadius: 6,
   },
+  rejectButton: {
+    borderWidth: 1,
+    borderColor: '#e74c3c',
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  rejectButtonText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  removeButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  waitlistHint: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  waitlistPosition: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#3498db',
+  },
+  approveButtonDisabled: {
+    opacity: 0.5,
+  },
   approveButtonText: {
     color: 'white',
     fontSize: 12,
@@ -760,9 +1224,59 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 32,
   },
+  editButton: {
+    marginTop: 12,
+  },
+  cancelledBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#fdecea',
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+  },
+  cancelledTextContainer: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  cancelledTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  cancelledReason: {
+    fontSize: 14,
+    color: '#2c3e50',
+    marginTop: 4,
+  },
+  ratingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff8e1',
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+  },
+  ratingBannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
   chatButton: {
     backgroundColor: '#2ecc71',
   },
+  queuedJoinContainer: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+  },
+  queuedJoinTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
   pendingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -777,6 +1291,41 @@ const styles = StyleSheet.create({
     color: '#f39c12',
     fontWeight: '500',
   },
+  seatHint: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginBottom: 8,
+  },
+  requirementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  requirementText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  requirementsNotice: {
+    backgroundColor: '#fff8e1',
+    padding: 12,
+    borderRadius: 8,
+  },
+  requirementsNoticeText: {
+    fontSize: 14,
+    color: '#2c3e50',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  leaveButton: {
+    marginTop: 12,
+  },
+  cutoffText: {
+    textAlign: 'center',
+    color: '#7f8c8d',
+    fontSize: 12,
+    marginTop: 8,
+  },
   tripFullText: {
     textAlign: 'center',
     color: '#e74c3c',
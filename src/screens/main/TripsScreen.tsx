@@ -1,84 +1,46 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { supabase } from '../../integrations/supabase/client';
-import { MainTabParamList } from '../../navigation/types';
+import { MainTabParamList, MainStackParamList } from '../../navigation/types';
+import { CompositeScreenProps } from '@react-navigation/native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useTrips } from '../../hooks/use-trips';
+import { useAuth } from '../../context/AuthContext';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import TripNotices from '../../components/TripNotices';
+import RidePreferenceTags from '../../components/RidePreferenceTags';
+import TripStatusBadge from '../../components/TripStatusBadge';
+import { formatPrice } from '../../lib/currencies';
+import { activeRidePreferences } from '../../lib/rideDetails';
+import { getTripStatus } from '../../lib/tripLifecycle';
 
-type Props = BottomTabScreenProps<MainTabParamList, 'Trips'>;
-
-interface Trip {
-  id: string;
-  title: string;
-  description: string;
-  start_date: string;
-  end_date: string;
-  start_location: string;
-  organizer_id: string;
-  created_at: string;
-  participant_count: number;
-  max_participants: number;
-}
+type Props = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, 'Trips'>,
+  NativeStackScreenProps<MainStackParamList>
+>;
 
 const TripsScreen: React.FC<Props> = ({ navigation }) => {
-  const [trips, setTrips] = useState<Trip[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchTrips = async () => {
-    try {
-      setError(null);
-      const { data, error } = await supabase
-        .from('trips')
-        .select(`
-          id, 
-          title, 
-          description, 
-          start_date, 
-          end_date, 
-          start_location,
-          organizer_id,
-          created_at,
-          max_participants
-        `)
-        .order('start_date', { ascending: true });
-
-      if (error) throw error;
-      
-      // Get participant counts for each trip
-      if (data) {
-        const tripsWithCounts = await Promise.all(data.map(async (trip) => {
-          const { count, error: countError } = await supabase
-            .from('trip_participants')
-            .select('*', { count: 'exact', head: true })
-            .eq('trip_id', trip.id);
-          
-          return {
-            ...trip,
-            participant_count: countError ? 0 : (count || 0)
-          };
-        }));
-        
-        setTrips(tripsWithCounts);
-      }
-    } catch (error: any) {
-      console.error('Error fetching trips:', error.message);
-      setError('Failed to load trips. Please try again.');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
+  const { user } = useAuth();
+  const [showPastTrips, setShowPastTrips] = useState(false);
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+    isRefetchError,
+    dataUpdatedAt,
+    refetch,
+  } = useTrips({ includePast: showPastTrips });
 
-  useEffect(() => {
-    fetchTrips();
-  }, []);
+  const trips = useMemo(() => data?.pages.flatMap(page => page.trips) ?? [], [data]);
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await fetchTrips();
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
   };
 
   const formatDate = (dateString: string) => {
@@ -86,7 +48,7 @@ const TripsScreen: React.FC<Props> = ({ navigation }) => {
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#3498db" />
@@ -99,18 +61,32 @@ const TripsScreen: React.FC<Props> = ({ navigation }) => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Trip Explorer</Text>
-        <TouchableOpacity 
-          style={styles.createButton}
-          onPress={() => navigation.navigate('CreateTrip')}
-        >
-          <Ionicons name="add" size={24} color="white" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={[styles.pastToggle, showPastTrips && styles.pastToggleActive]}
+            onPress={() => setShowPastTrips(current => !current)}
+          >
+            <Ionicons name="time-outline" size={16} color={showPastTrips ? 'white' : '#3498db'} />
+            <Text style={[styles.pastToggleText, showPastTrips && styles.pastToggleTextActive]}>
+              Past trips
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.createButton}
+            onPress={() => navigation.navigate('CreateTrip')}
+          >
+            <Ionicons name="add" size={24} color="white" />
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {error ? (
+      <StaleDataBanner updatedAt={dataUpdatedAt} refreshFailed={isRefetchError} />
+      <TripNotices userId={user?.id} />
+
+      {error && trips.length === 0 ? (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={fetchTrips}>
+          <Text style={styles.errorText}>Failed to load trips. Please try again.</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -118,7 +94,9 @@ const TripsScreen: React.FC<Props> = ({ navigation }) => {
         <View style={styles.emptyContainer}>
           <Ionicons name="airplane-outline" size={64} color="#ccc" />
           <Text style={styles.emptyTitle}>No trips found</Text>
-          <Text style={styles.emptySubtitle}>Be the first to create a trip!</Text>
+          <Text style={styles.emptySubtitle}>
+            {showPastTrips ? 'Be the first to create a trip!' : 'No upcoming trips yet. Be the first to create one!'}
+          </Text>
           <TouchableOpacity
             style={styles.createTripButton}
             onPress={() => navigation.navigate('CreateTrip')}
@@ -130,42 +108,69 @@ const TripsScreen: React.FC<Props> = ({ navigation }) => {
         <FlatList
           data={trips}
           keyExtractor={(item) => item.id}
-          renderItem={({ item }) => (
-            <TouchableOpacity 
-              style={styles.tripCard}
-              onPress={() => navigation.navigate('TripDetails', { tripId: item.id })}
-            >
-              <View style={styles.tripHeader}>
-                <Text style={styles.tripTitle}>{item.title}</Text>
-                <View style={styles.participantsContainer}>
-                  <Ionicons name="people" size={16} color="#7f8c8d" />
-                  <Text style={styles.participantsText}>{item.participant_count}/{item.max_participants}</Text>
+          renderItem={({ item }) => {
+            const status = getTripStatus(item, { participantCount: item.participant_count });
+            return (
+              <TouchableOpacity 
+                style={styles.tripCard}
+                onPress={() => navigation.navigate('TripDetails', { tripId: item.id })}
+              >
+                <View style={styles.tripHeader}>
+                  <Text style={styles.tripTitle}>{item.title}</Text>
+                  <View style={styles.participantsContainer}>
+                    <Ionicons name="people" size={16} color="#7f8c8d" />
+                    <Text style={styles.participantsText}>{item.participant_count}/{item.max_participants}</Text>
+                  </View>
                 </View>
-              </View>
+                {status !== 'published' && (
+                  <View style={styles.statusRow}>
+                    <TripStatusBadge status={status} />
+                  </View>
+                )}
               
-              <Text style={styles.tripDescription} numberOfLines={2}>
-                {item.description}
-              </Text>
+                <Text style={styles.tripDescription} numberOfLines={2}>
+                  {item.description}
+                </Text>
+
+                {(item.price_per_seat !== null || activeRidePreferences(item).length > 0) && (
+                  <View style={styles.rideRow}>
+                    {item.price_per_seat !== null ? (
+                      <Text style={styles.priceText}>
+                        {formatPrice(item.price_per_seat, item.currency)}
+                        {item.price_per_seat > 0 && <Text style={styles.priceUnit}> / seat</Text>}
+                      </Text>
+                    ) : <View />}
+                    <RidePreferenceTags trip={item} compact />
+                  </View>
+                )}
               
-              <View style={styles.tripFooter}>
-                <View style={styles.dateContainer}>
-                  <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
-                  <Text style={styles.dateText}>
-                    {formatDate(item.start_date)} - {formatDate(item.end_date)}
-                  </Text>
-                </View>
+                <View style={styles.tripFooter}>
+                  <View style={styles.dateContainer}>
+                    <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
+                    <Text style={styles.dateText}>
+                      {formatDate(item.start_date)} - {formatDate(item.end_date)}
+                    </Text>
+                  </View>
                 
-                <View style={styles.locationContainer}>
-                  <Ionicons name="location-outline" size={16} color="#7f8c8d" />
-                  <Text style={styles.locationText} numberOfLines={1}>
-                    {item.start_location}
-                  </Text>
+                  <View style={styles.locationContainer}>
+                    <Ionicons name="location-outline" size={16} color="#7f8c8d" />
+                    <Text style={styles.locationText} numberOfLines={1}>
+                      {item.origin_address ? `${item.origin_address} → ${item.destination}` : item.destination}
+                    </Text>
+                  </View>
                 </View>
-              </View>
-            </TouchableOpacity>
-          )}
+              </TouchableOpacity>
+            );
+          }}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <ActivityIndicator style={styles.footerLoader} size="small" color="#3498db" />
+            ) : null
+          }
           refreshControl={
-            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+            <RefreshControl refreshing={isRefetching && !isFetchingNextPage} onRefresh={refetch} />
           }
           contentContainerStyle={styles.list}
         />
@@ -192,6 +197,31 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2c3e50',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pastToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 10,
+  },
+  pastToggleActive: {
+    backgroundColor: '#3498db',
+  },
+  pastToggleText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#3498db',
+  },
+  pastToggleTextActive: {
+    color: 'white',
+  },
   createButton: {
     backgroundColor: '#3498db',
     width: 40,
@@ -213,6 +243,9 @@ const styles = StyleSheet.create({
   list: {
     padding: 16,
   },
+  footerLoader: {
+    marginVertical: 16,
+  },
   tripCard: {
     backgroundColor: 'white',
     borderRadius: 10,
@@ -230,6 +263,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  statusRow: {
+    marginBottom: 8,
+  },
   tripTitle: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -252,7 +288,23 @@ const styles = StyleSheet.create({
   tripDescription: {
     fontSize: 14,
     color: '#7f8c8d',
-    marginBottom: 16,
+    marginBottom: 12,
+  },
+  rideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  priceText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2ecc71',
+  },
+  priceUnit: {
+    fontSize: 12,
+    fontWeight: 'normal',
+    color: '#7f8c8d',
   },
   tripFooter: {
     flexDirection: 'row',
@@ -0,0 +1,308 @@
+import React from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { MainStackParamList } from '../../navigation/types';
+import { useAuth } from '../../context/AuthContext';
+import AppButton from '../../components/AppButton';
+import { getDisplayName, getInitials } from '../../api/profiles';
+import type { Trip } from '../../api/trips';
+import { usePublicProfile } from '../../hooks/use-profile';
+import { useOrganizedTrips, useSharedTrips } from '../../hooks/use-trips';
+import ReviewsPreview from '../../components/ReviewsPreview';
+import StarRating from '../../components/StarRating';
+import TripStatusBadge from '../../components/TripStatusBadge';
+import { getTripStatus } from '../../lib/tripLifecycle';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'UserProfile'>;
+
+/**
+ * Read-only profile of another traveller, so riders and organizers can
+ * check each other out before travelling together.
+ */
+const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { userId } = route.params;
+  const { user } = useAuth();
+  const isOwnProfile = user?.id === userId;
+
+  const { data: profile, isLoading, error, refetch } = usePublicProfile(userId);
+  const { data: organizedTrips = [], isLoading: organizedLoading } = useOrganizedTrips(userId);
+  const { data: sharedTrips = [] } = useSharedTrips(userId, user?.id);
+
+  const formatDate = (dateString: string) => {
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+    return new Date(dateString).toLocaleDateString(undefined, options);
+  };
+
+  const renderTrip = (trip: Trip) => {
+    // Open trips are the norm, so only other states get a badge
+    const status = getTripStatus(trip);
+    return (
+      <TouchableOpacity
+        key={trip.id}
+        style={styles.tripCard}
+        onPress={() => navigation.push('TripDetails', { tripId: trip.id })}
+      >
+        <View style={styles.tripHeader}>
+          <Text style={styles.tripTitle}>{trip.title}</Text>
+          {status !== 'published' && <TripStatusBadge status={status} />}
+        </View>
+        <View style={styles.tripDetail}>
+          <Ionicons name="calendar-outline" size={16} color="#7f8c8d" />
+          <Text style={styles.tripDetailText}>
+            {formatDate(trip.start_date)} - {formatDate(trip.end_date)}
+          </Text>
+        </View>
+        <View style={styles.tripDetail}>
+          <Ionicons name="location-outline" size={16} color="#7f8c8d" />
+          <Text style={styles.tripDetailText} numberOfLines={1}>
+            {trip.origin_address ? `${trip.origin_address} → ${trip.destination}` : trip.destination}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="person-outline" size={64} color="#95a5a6" />
+        <Text style={styles.messageText}>This profile could not be loaded.</Text>
+        <AppButton title="Retry" onPress={() => refetch()} type="outline" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        {profile.avatar_url ? (
+          <Image source={{ uri: profile.avatar_url }} style={styles.profileImage} />
+        ) : (
+          <View style={styles.initialsContainer}>
+            <Text style={styles.initialsText}>{getInitials(profile)}</Text>
+          </View>
+        )}
+        <View style={styles.profileInfo}>
+          <Text style={styles.name}>{getDisplayName(profile)}</Text>
+          {profile.rating_average ? (
+            <TouchableOpacity
+              style={styles.ratingContainer}
+              onPress={() => navigation.navigate('Reviews', { userId })}
+            >
+              <StarRating value={profile.rating_average} />
+              <Text style={styles.ratingText}>
+                {profile.rating_average.toFixed(1)} ({profile.rating_count} {profile.rating_count === 1 ? 'review' : 'reviews'})
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.ratingText}>No ratings yet</Text>
+          )}
+        </View>
+      </View>
+
+      {isOwnProfile && (
+        <Text style={styles.ownProfileHint}>This is how other travellers see your profile.</Text>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>About</Text>
+        <Text style={styles.bioText}>{profile.bio || 'No bio added yet.'}</Text>
+        <View style={styles.detailsContainer}>
+          <View style={styles.detailItem}>
+            <Ionicons name="calendar-outline" size={20} color="#7f8c8d" />
+            <Text style={styles.detailText}>
+              Joined {profile.created_at ? new Date(profile.created_at).toLocaleDateString() : 'Recently'}
+            </Text>
+          </View>
+          {profile.age && (
+            <View style={styles.detailItem}>
+              <Ionicons name="person-outline" size={20} color="#7f8c8d" />
+              <Text style={styles.detailText}>Age: {profile.age}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+
+      {sharedTrips.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Trips Together</Text>
+          {sharedTrips.map(renderTrip)}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <ReviewsPreview
+          userId={userId}
+          emptyText="No reviews yet."
+          onSeeAll={() => navigation.navigate('Reviews', { userId })}
+          onTripPress={(tripId) => navigation.push('TripDetails', { tripId })}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Trips Organized</Text>
+        {organizedLoading ? (
+          <ActivityIndicator size="small" color="#3498db" style={styles.loader} />
+        ) : organizedTrips.length === 0 ? (
+          <Text style={styles.emptyText}>Hasn't organized any trips yet.</Text>
+        ) : (
+          organizedTrips.map(renderTrip)
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+  },
+  profileImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    marginRight: 16,
+  },
+  initialsContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#3498db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  initialsText: {
+    color: 'white',
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  ratingContainer: {
+    alignItems: 'flex-start',
+  },
+  ratingText: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  ownProfileHint: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  bioText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  detailsContainer: {
+    borderTopWidth: 1,
+    borderTopColor: '#f2f2f2',
+    paddingTop: 12,
+  },
+  detailItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  detailText: {
+    marginLeft: 8,
+    color: '#7f8c8d',
+    fontSize: 14,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  tripCard: {
+    backgroundColor: '#f9f9f9',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#3498db',
+  },
+  tripHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  tripTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    flex: 1,
+  },
+  tripDetail: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  tripDetailText: {
+    marginLeft: 5,
+    fontSize: 13,
+    color: '#7f8c8d',
+    flexShrink: 1,
+  },
+});
+
+export default UserProfileScreen;
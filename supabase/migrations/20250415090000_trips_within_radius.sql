@@ -0,0 +1,33 @@
+-- Radius search over the PostGIS origin/destination columns on trips.
+-- p_match is one of 'origin', 'destination' or 'either'.
+create index if not exists trips_origin_latlon_idx on public.trips using gist (origin_latlon);
+create index if not exists trips_destination_latlon_idx on public.trips using gist (destination_latlon);
+
+create or replace function public.trips_within_radius(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_radius_km double precision,
+  p_match text default 'either'
+)
+returns table (
+  trip_id uuid,
+  origin_distance_km double precision,
+  destination_distance_km double precision
+)
+language sql
+stable
+as $$
+  with center as (
+    select st_setsrid(st_makepoint(p_longitude, p_latitude), 4326)::geography as point
+  )
+  select
+    t.id as trip_id,
+    st_distance(t.origin_latlon, center.point) / 1000 as origin_distance_km,
+    st_distance(t.destination_latlon, center.point) / 1000 as destination_distance_km
+  from public.trips t, center
+  where
+    (p_match in ('origin', 'either') and st_dwithin(t.origin_latlon, center.point, p_radius_km * 1000))
+    or (p_match in ('destination', 'either') and st_dwithin(t.destination_latlon, center.point, p_radius_km * 1000));
+$$;
+
+grant execute on function public.trips_within_radius(double precision, double precision, double precision, text) to authenticated;
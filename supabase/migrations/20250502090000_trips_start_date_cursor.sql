@@ -0,0 +1,4 @@
+-- Keyset pagination on the trips list orders by (start_date, id), and the
+-- participant counts embedded in each page are filtered by trip and approval.
+create index if not exists trips_start_date_id_idx on public.trips (start_date, id);
+create index if not exists trip_participants_trip_id_approved_idx on public.trip_participants (trip_id, approved);
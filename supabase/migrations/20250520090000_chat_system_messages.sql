@@ -0,0 +1,10 @@
+-- System messages are posted on the organizer's behalf, e.g. when a trip is
+-- edited, and are shown as notices instead of chat bubbles.
+alter table public.chat_messages
+  add column if not exists message_type text not null default 'user';
+
+alter table public.chat_messages
+  drop constraint if exists chat_messages_message_type_check;
+
+alter table public.chat_messages
+  add constraint chat_messages_message_type_check check (message_type in ('user', 'system'));
@@ -0,0 +1,9 @@
+-- Organizers can cancel a trip instead of deleting it. Cancelled trips stay
+-- visible to their participants but drop out of browsing and search.
+alter table public.trips
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancellation_reason text;
+
+create index if not exists trips_active_start_date_idx
+  on public.trips (start_date, id)
+  where cancelled_at is null;
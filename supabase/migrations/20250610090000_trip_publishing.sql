@@ -0,0 +1,11 @@
+-- Trips start as drafts only visible to their organizer until published.
+-- Existing trips count as published from the moment they were created.
+alter table public.trips
+  add column if not exists published_at timestamptz;
+
+update public.trips
+  set published_at = coalesce(created_at, now())
+  where published_at is null;
+
+alter table public.trips
+  alter column published_at set default now();
@@ -0,0 +1,159 @@
+-- Organizers can reject pending requests and remove approved members, and
+-- travellers can queue for a full trip. A row in trip_participants is now in
+-- exactly one state:
+--   approved                      approved = true
+--   pending                       approved = false, no timestamps below
+--   waitlisted                    approved = false, waitlisted_at set
+--   rejected                      approved = false, rejected_at set
+-- Whenever a seat frees up the oldest waitlisted traveller takes it.
+alter table public.trip_participants
+  add column if not exists waitlisted_at timestamptz,
+  add column if not exists rejected_at timestamptz;
+
+create index if not exists trip_participants_waitlist_idx
+  on public.trip_participants (trip_id, waitlisted_at)
+  where waitlisted_at is not null;
+
+-- Fills free seats from the waitlist in the order people joined it and adds
+-- them to the trip chat. Returns the promoted user ids.
+create or replace function public.promote_from_waitlist(p_trip_id uuid)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_free integer;
+  v_user_id uuid;
+begin
+  -- Serialises promotion against approvals for the same trip
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.cancelled_at is not null then
+    return;
+  end if;
+
+  select v_trip.max_participants - count(*) into v_free
+    from public.trip_participants
+    where trip_id = p_trip_id and approved;
+
+  for v_user_id in
+    select user_id from public.trip_participants
+      where trip_id = p_trip_id and waitlisted_at is not null and not approved
+      order by waitlisted_at, user_id
+      limit greatest(v_free, 0)
+  loop
+    update public.trip_participants
+      set approved = true, waitlisted_at = null
+      where trip_id = p_trip_id and user_id = v_user_id;
+
+    insert into public.chat_room_participants (room_id, user_id, is_organizer)
+      select r.id, v_user_id, false from public.chat_rooms r where r.trip_id = p_trip_id
+      on conflict do nothing;
+
+    return next v_user_id;
+  end loop;
+end;
+$$;
+
+create or replace function public.join_trip_waitlist(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  insert into public.trip_participants (trip_id, user_id, approved, waitlisted_at)
+    values (p_trip_id, auth.uid(), false, now())
+    on conflict (trip_id, user_id) do update
+      set waitlisted_at = coalesce(public.trip_participants.waitlisted_at, now())
+      where not public.trip_participants.approved
+        and public.trip_participants.rejected_at is null;
+
+  -- A seat may have freed up between loading the trip and joining
+  perform public.promote_from_waitlist(p_trip_id);
+end;
+$$;
+
+create or replace function public.reject_participant(p_trip_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.trips where id = p_trip_id and organizer_id = auth.uid()) then
+    raise exception 'not_organizer' using errcode = '42501';
+  end if;
+
+  update public.trip_participants
+    set rejected_at = now(), waitlisted_at = null
+    where trip_id = p_trip_id and user_id = p_user_id and not approved;
+end;
+$$;
+
+-- Removes an approved member, or drops someone from the waitlist. The
+-- trigger below takes them out of the chat and promotes the next in line.
+create or replace function public.remove_participant(p_trip_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.trips where id = p_trip_id and organizer_id = auth.uid()) then
+    raise exception 'not_organizer' using errcode = '42501';
+  end if;
+
+  if p_user_id = auth.uid() then
+    raise exception 'cannot_remove_organizer' using errcode = '22023';
+  end if;
+
+  delete from public.trip_participants
+    where trip_id = p_trip_id and user_id = p_user_id;
+end;
+$$;
+
+create or replace function public.handle_trip_seat_freed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'trip_participants' then
+    delete from public.chat_room_participants
+      where user_id = old.user_id
+        and room_id in (select id from public.chat_rooms where trip_id = old.trip_id);
+
+    if old.approved then
+      perform public.promote_from_waitlist(old.trip_id);
+    end if;
+    return old;
+  end if;
+
+  perform public.promote_from_waitlist(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists trip_participants_seat_freed on public.trip_participants;
+create trigger trip_participants_seat_freed
+  after delete on public.trip_participants
+  for each row execute function public.handle_trip_seat_freed();
+
+drop trigger if exists trips_capacity_raised on public.trips;
+create trigger trips_capacity_raised
+  after update of max_participants on public.trips
+  for each row
+  when (new.max_participants > old.max_participants)
+  execute function public.handle_trip_seat_freed();
+
+grant execute on function public.join_trip_waitlist(uuid) to authenticated;
+grant execute on function public.reject_participant(uuid, uuid) to authenticated;
+grant execute on function public.remove_participant(uuid, uuid) to authenticated;
@@ -0,0 +1,76 @@
+-- Participants can leave a trip, and applicants can withdraw a pending or
+-- waitlisted request. Approved riders can only leave up to
+-- leave_cutoff_hours before departure so organizers aren't left with empty
+-- seats at the last minute; withdrawing a request is always allowed.
+alter table public.trips
+  add column if not exists leave_cutoff_hours integer not null default 24;
+
+alter table public.trips
+  drop constraint if exists trips_leave_cutoff_hours_check;
+alter table public.trips
+  add constraint trips_leave_cutoff_hours_check check (leave_cutoff_hours between 0 and 168);
+
+-- Returns 'left' for approved riders and 'withdrawn' for requests. Deleting
+-- the row fires trip_participants_seat_freed, which drops the chat
+-- membership and promotes the next traveller on the waitlist.
+create or replace function public.leave_trip(p_trip_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_participant public.trip_participants%rowtype;
+  v_name text;
+  v_room_id uuid;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not found then
+    raise exception 'trip_not_found' using errcode = 'P0002';
+  end if;
+
+  if v_trip.organizer_id = auth.uid() then
+    raise exception 'organizer_cannot_leave' using errcode = '22023';
+  end if;
+
+  select * into v_participant from public.trip_participants
+    where trip_id = p_trip_id and user_id = auth.uid();
+
+  if not found or v_participant.rejected_at is not null then
+    raise exception 'not_a_participant' using errcode = 'P0002';
+  end if;
+
+  if v_participant.approved
+    and v_trip.cancelled_at is null
+    and now() > v_trip.start_date - make_interval(hours => v_trip.leave_cutoff_hours) then
+    raise exception 'leave_cutoff_passed' using errcode = '22023';
+  end if;
+
+  delete from public.trip_participants
+    where trip_id = p_trip_id and user_id = auth.uid();
+
+  select coalesce(nullif(trim(concat_ws(' ', firstname, lastname)), ''), 'A traveller') into v_name
+    from public.profiles where id = auth.uid();
+
+  select id into v_room_id from public.chat_rooms where trip_id = p_trip_id;
+
+  if v_room_id is not null then
+    insert into public.chat_messages (room_id, sender_id, message_text, message_type)
+      values (
+        v_room_id,
+        auth.uid(),
+        case when v_participant.approved
+          then coalesce(v_name, 'A traveller') || ' left the trip.'
+          else coalesce(v_name, 'A traveller') || ' withdrew their request to join.'
+        end,
+        'system'
+      );
+  end if;
+
+  return case when v_participant.approved then 'left' else 'withdrawn' end;
+end;
+$$;
+
+grant execute on function public.leave_trip(uuid) to authenticated;
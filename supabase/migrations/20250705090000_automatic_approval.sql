@@ -0,0 +1,133 @@
+-- Applying now honours trips.automatic_approval and optional join
+-- requirements set by the organizer:
+--   min_rating_average        applicants need at least this rating
+--   require_complete_profile  applicants need a name, photo and bio
+-- apply_for_trip returns where the applicant ended up: 'approved' for
+-- automatic approval with a free seat, 'waitlisted' when an automatic trip
+-- is already full, and 'pending' otherwise. Re-applying returns the current
+-- state, so a replayed request is harmless.
+alter table public.trips
+  add column if not exists min_rating_average numeric(2, 1),
+  add column if not exists require_complete_profile boolean not null default false;
+
+alter table public.trips
+  drop constraint if exists trips_min_rating_average_check;
+alter table public.trips
+  add constraint trips_min_rating_average_check check (min_rating_average between 1 and 5);
+
+-- Raises rating_too_low or profile_incomplete when the current user can't
+-- join the trip. Shared by applying and joining the waitlist.
+create or replace function public.assert_join_requirements(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_profile public.profiles%rowtype;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+  select * into v_profile from public.profiles where id = auth.uid();
+
+  if v_trip.min_rating_average is not null
+    and coalesce(v_profile.rating_average, 0) < v_trip.min_rating_average then
+    raise exception 'rating_too_low' using errcode = '22023';
+  end if;
+
+  if v_trip.require_complete_profile and (
+    coalesce(trim(v_profile.firstname), '') = ''
+    or coalesce(trim(v_profile.lastname), '') = ''
+    or coalesce(v_profile.avatar_url, '') = ''
+    or coalesce(trim(v_profile.bio), '') = ''
+  ) then
+    raise exception 'profile_incomplete' using errcode = '22023';
+  end if;
+end;
+$$;
+
+drop function if exists public.apply_for_trip(uuid);
+
+create function public.apply_for_trip(p_trip_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_existing public.trip_participants%rowtype;
+  v_approved_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  -- Locked so two automatic approvals can't both take the last seat
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.cancelled_at is not null or v_trip.published_at is null then
+    raise exception 'trip_not_open' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing from public.trip_participants
+    where trip_id = p_trip_id and user_id = auth.uid();
+
+  if found then
+    return case
+      when v_existing.approved then 'approved'
+      when v_existing.rejected_at is not null then 'rejected'
+      when v_existing.waitlisted_at is not null then 'waitlisted'
+      else 'pending'
+    end;
+  end if;
+
+  perform public.assert_join_requirements(p_trip_id);
+
+  if not coalesce(v_trip.automatic_approval, false) then
+    insert into public.trip_participants (trip_id, user_id, approved)
+      values (p_trip_id, auth.uid(), false);
+    return 'pending';
+  end if;
+
+  select count(*) into v_approved_count from public.trip_participants
+    where trip_id = p_trip_id and approved;
+
+  if v_trip.max_participants is not null and v_approved_count >= v_trip.max_participants then
+    insert into public.trip_participants (trip_id, user_id, approved, waitlisted_at)
+      values (p_trip_id, auth.uid(), false, now());
+    return 'waitlisted';
+  end if;
+
+  insert into public.trip_participants (trip_id, user_id, approved)
+    values (p_trip_id, auth.uid(), true);
+  return 'approved';
+end;
+$$;
+
+grant execute on function public.apply_for_trip(uuid) to authenticated;
+
+create or replace function public.join_trip_waitlist(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  perform public.assert_join_requirements(p_trip_id);
+
+  insert into public.trip_participants (trip_id, user_id, approved, waitlisted_at)
+    values (p_trip_id, auth.uid(), false, now())
+    on conflict (trip_id, user_id) do update
+      set waitlisted_at = coalesce(public.trip_participants.waitlisted_at, now())
+      where not public.trip_participants.approved
+        and public.trip_participants.rejected_at is null;
+
+  -- A seat may have freed up between loading the trip and joining
+  perform public.promote_from_waitlist(p_trip_id);
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Enforces max_participants in the database. Every path that seats a
+-- rider (approve_participant, automatic approval, waitlist promotion) ends
+-- in an insert or update of an approved row, so the check lives in a
+-- trigger. Locking the trip row serialises concurrent approvals: the second
+-- one waits, then counts the first one's seat and fails with trip_full.
+create or replace function public.enforce_trip_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_max_participants integer;
+  v_approved_count integer;
+begin
+  if not new.approved or (tg_op = 'UPDATE' and old.approved) then
+    return new;
+  end if;
+
+  select max_participants into v_max_participants
+    from public.trips where id = new.trip_id
+    for update;
+
+  if v_max_participants is null then
+    return new;
+  end if;
+
+  select count(*) into v_approved_count
+    from public.trip_participants
+    where trip_id = new.trip_id and approved and user_id <> new.user_id;
+
+  if v_approved_count >= v_max_participants then
+    raise exception 'trip_full' using errcode = 'P0001', hint = 'All seats on this trip are taken';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trip_participants_capacity on public.trip_participants;
+create trigger trip_participants_capacity
+  before insert or update of approved on public.trip_participants
+  for each row execute function public.enforce_trip_capacity();
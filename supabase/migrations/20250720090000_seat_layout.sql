@@ -0,0 +1,177 @@
+-- Organizers can describe their vehicle as seats per row, front to back
+-- (e.g. {2,3} for a regular car), and riders get a seat in it. Seats are
+-- named by row number and a letter from the left; the organizer drives, so
+-- 1A is never assigned. With keep_middle_seat_free the centre seat of every
+-- three-seat row is blocked. When a layout is set, max_participants is
+-- capped at what the vehicle can take, so every existing capacity check
+-- keeps working unchanged.
+alter table public.trips
+  add column if not exists seat_rows integer[];
+
+alter table public.trips
+  drop constraint if exists trips_seat_rows_check;
+alter table public.trips
+  add constraint trips_seat_rows_check check (
+    seat_rows is null
+    or (cardinality(seat_rows) between 1 and 6 and 1 <= all (seat_rows) and 4 >= all (seat_rows))
+  );
+
+alter table public.trip_participants
+  add column if not exists seat_id text;
+
+create unique index if not exists trip_participants_seat_idx
+  on public.trip_participants (trip_id, seat_id)
+  where seat_id is not null;
+
+create or replace function public.trip_seats(p_seat_rows integer[], p_keep_middle_seat_free boolean)
+returns table (seat_id text, is_driver boolean, is_blocked boolean)
+language sql
+immutable
+as $$
+  select
+    r.row_number || chr(64 + s.seat_number) as seat_id,
+    r.row_number = 1 and s.seat_number = 1 as is_driver,
+    coalesce(p_keep_middle_seat_free, false) and r.seats = 3 and s.seat_number = 2 as is_blocked
+  from unnest(p_seat_rows) with ordinality as r(seats, row_number)
+  cross join lateral generate_series(1, r.seats) as s(seat_number)
+  order by r.row_number, s.seat_number;
+$$;
+
+create or replace function public.cap_trip_capacity_to_seats()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_capacity integer;
+begin
+  if new.seat_rows is not null then
+    select count(*) into v_capacity
+      from public.trip_seats(new.seat_rows, new.keep_middle_seat_free)
+      where not is_blocked;
+    new.max_participants := least(coalesce(new.max_participants, v_capacity), v_capacity);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trips_cap_capacity_to_seats on public.trips;
+create trigger trips_cap_capacity_to_seats
+  before insert or update of seat_rows, keep_middle_seat_free, max_participants on public.trips
+  for each row execute function public.cap_trip_capacity_to_seats();
+
+-- Frees seats that no longer exist or are now blocked, then gives every
+-- approved rider without a seat the first free one, in the order they joined.
+create or replace function public.assign_open_seats(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_user_id uuid;
+  v_seat_id text;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not found or v_trip.seat_rows is null then
+    update public.trip_participants set seat_id = null
+      where trip_id = p_trip_id and seat_id is not null;
+    return;
+  end if;
+
+  update public.trip_participants p set seat_id = null
+    where p.trip_id = p_trip_id
+      and p.seat_id is not null
+      and (
+        not p.approved
+        or p.seat_id not in (
+          select s.seat_id from public.trip_seats(v_trip.seat_rows, v_trip.keep_middle_seat_free) s
+            where not s.is_driver and not s.is_blocked
+        )
+      );
+
+  for v_user_id in
+    select user_id from public.trip_participants
+      where trip_id = p_trip_id and approved and seat_id is null and user_id <> v_trip.organizer_id
+      order by joined_at, user_id
+  loop
+    select s.seat_id into v_seat_id
+      from public.trip_seats(v_trip.seat_rows, v_trip.keep_middle_seat_free) s
+      where not s.is_driver
+        and not s.is_blocked
+        and not exists (
+          select 1 from public.trip_participants p
+            where p.trip_id = p_trip_id and p.seat_id = s.seat_id
+        )
+      limit 1;
+
+    exit when v_seat_id is null;
+
+    update public.trip_participants set seat_id = v_seat_id
+      where trip_id = p_trip_id and user_id = v_user_id;
+  end loop;
+end;
+$$;
+
+create or replace function public.handle_seating_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'trips' then
+    perform public.assign_open_seats(new.id);
+  elsif new.approved then
+    perform public.assign_open_seats(new.trip_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trip_participants_assign_seat on public.trip_participants;
+create trigger trip_participants_assign_seat
+  after insert or update of approved on public.trip_participants
+  for each row execute function public.handle_seating_change();
+
+drop trigger if exists trips_reassign_seats on public.trips;
+create trigger trips_reassign_seats
+  after update of seat_rows, keep_middle_seat_free on public.trips
+  for each row execute function public.handle_seating_change();
+
+-- Lets an approved rider move to another free seat
+create or replace function public.choose_seat(p_trip_id uuid, p_seat_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not exists (
+    select 1 from public.trip_participants
+      where trip_id = p_trip_id and user_id = auth.uid() and approved
+  ) or v_trip.organizer_id = auth.uid() then
+    raise exception 'not_a_passenger' using errcode = '42501';
+  end if;
+
+  if not exists (
+    select 1 from public.trip_seats(v_trip.seat_rows, v_trip.keep_middle_seat_free) s
+      where s.seat_id = p_seat_id and not s.is_driver and not s.is_blocked
+  ) then
+    raise exception 'seat_unavailable' using errcode = '22023';
+  end if;
+
+  update public.trip_participants set seat_id = p_seat_id
+    where trip_id = p_trip_id and user_id = auth.uid();
+exception
+  when unique_violation then
+    raise exception 'seat_taken' using errcode = '22023';
+end;
+$$;
+
+grant execute on function public.choose_seat(uuid, text) to authenticated;
@@ -0,0 +1,100 @@
+-- Travellers rate each other after a trip. Each rater gets one rating per
+-- person per trip, which they can change until 14 days after the trip
+-- ends. Only the organizer and approved participants of a finished,
+-- non-cancelled trip can rate or be rated. The rated traveller's
+-- rating_average and rating_count are recomputed on every submission.
+
+-- Keep the most recent rating where someone rated the same person twice
+delete from public.ratings r
+  using public.ratings newer
+  where r.trip_id = newer.trip_id
+    and r.rater_id = newer.rater_id
+    and r.rated_id = newer.rated_id
+    and (r.created_at, r.id) < (newer.created_at, newer.id);
+
+alter table public.ratings
+  add column if not exists updated_at timestamptz;
+
+create unique index if not exists ratings_trip_rater_rated_idx
+  on public.ratings (trip_id, rater_id, rated_id);
+
+alter table public.ratings
+  drop constraint if exists ratings_rating_value_check;
+alter table public.ratings
+  add constraint ratings_rating_value_check check (rating_value between 1 and 5);
+
+create or replace function public.is_trip_member(p_trip_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.trips where id = p_trip_id and organizer_id = p_user_id)
+    or exists (
+      select 1 from public.trip_participants
+        where trip_id = p_trip_id and user_id = p_user_id and approved
+    );
+$$;
+
+-- p_rater_id is kept for compatibility; it has to be the caller
+create or replace function public.submit_rating(
+  p_rater_id uuid,
+  p_rated_id uuid,
+  p_trip_id uuid,
+  p_rating_value integer,
+  p_comment text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+begin
+  if auth.uid() is null or p_rater_id <> auth.uid() then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  if p_rated_id = auth.uid() then
+    raise exception 'cannot_rate_self' using errcode = '22023';
+  end if;
+
+  if p_rating_value not between 1 and 5 then
+    raise exception 'invalid_rating' using errcode = '22023';
+  end if;
+
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not found or v_trip.cancelled_at is not null or v_trip.end_date >= now() then
+    raise exception 'trip_not_finished' using errcode = '22023';
+  end if;
+
+  if now() > v_trip.end_date + interval '14 days' then
+    raise exception 'rating_window_closed' using errcode = '22023';
+  end if;
+
+  if not public.is_trip_member(p_trip_id, auth.uid()) or not public.is_trip_member(p_trip_id, p_rated_id) then
+    raise exception 'not_trip_members' using errcode = '42501';
+  end if;
+
+  insert into public.ratings (trip_id, rater_id, rated_id, rating_value, comment)
+    values (p_trip_id, auth.uid(), p_rated_id, p_rating_value, nullif(trim(p_comment), ''))
+    on conflict (trip_id, rater_id, rated_id) do update
+      set rating_value = excluded.rating_value,
+          comment = excluded.comment,
+          updated_at = now();
+
+  update public.profiles p
+    set rating_average = stats.average,
+        rating_count = stats.total
+    from (
+      select round(avg(rating_value)::numeric, 2) as average, count(*) as total
+        from public.ratings where rated_id = p_rated_id
+    ) stats
+    where p.id = p_rated_id;
+end;
+$$;
+
+grant execute on function public.submit_rating(uuid, uuid, uuid, integer, text) to authenticated;
@@ -0,0 +1,44 @@
+-- Profiles list a traveller's reviews newest first, optionally filtered by
+-- star value, and link each one to the trip it came from. user_ratings
+-- gains the trip, and rating_breakdown gives the per-star counts for the
+-- histogram without loading every review.
+drop view if exists public.user_ratings;
+
+create view public.user_ratings
+with (security_invoker = true)
+as
+  select
+    r.id,
+    r.rated_id,
+    r.rating_value,
+    r.comment,
+    r.created_at,
+    p.firstname as rater_firstname,
+    p.lastname as rater_lastname,
+    p.avatar_url as rater_avatar,
+    r.trip_id,
+    t.title as trip_title
+  from public.ratings r
+  left join public.profiles p on p.id = r.rater_id
+  left join public.trips t on t.id = r.trip_id;
+
+grant select on public.user_ratings to authenticated;
+
+create index if not exists ratings_rated_created_idx
+  on public.ratings (rated_id, created_at desc, id desc);
+
+create or replace function public.rating_breakdown(p_user_id uuid)
+returns table (rating_value integer, total integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.value, count(r.id)::integer
+    from generate_series(1, 5) as s(value)
+    left join public.ratings r on r.rating_value = s.value and r.rated_id = p_user_id
+    group by s.value
+    order by s.value desc;
+$$;
+
+grant execute on function public.rating_breakdown(uuid) to authenticated;
@@ -0,0 +1,38 @@
+-- Travellers can look at each other's profiles before riding together.
+-- public_profiles is what everyone else sees: age is left out unless the
+-- owner chose to show it. shared_trips lists the trips the caller and
+-- another traveller both belong to, as organizer or approved participant.
+alter table public.profiles
+  add column if not exists show_age boolean not null default true;
+
+create or replace view public.public_profiles as
+  select
+    id,
+    firstname,
+    lastname,
+    avatar_url,
+    bio,
+    case when show_age then age end as age,
+    created_at,
+    rating_average,
+    rating_count
+  from public.profiles;
+
+grant select on public.public_profiles to authenticated;
+
+create or replace function public.shared_trips(p_user_id uuid)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.id
+    from public.trips t
+    where auth.uid() is not null
+      and auth.uid() <> p_user_id
+      and public.is_trip_member(t.id, auth.uid())
+      and public.is_trip_member(t.id, p_user_id);
+$$;
+
+grant execute on function public.shared_trips(uuid) to authenticated;
@@ -0,0 +1,4 @@
+-- Chat history loads newest first and pages backwards by (sent_at, id)
+-- within a room.
+create index if not exists chat_messages_room_sent_at_id_idx
+  on public.chat_messages (room_id, sent_at desc, id desc);
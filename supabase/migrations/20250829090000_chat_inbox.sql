@@ -0,0 +1,75 @@
+-- The chat inbox lists every room the user belongs to with its latest
+-- message and how many messages arrived since the user last read it.
+-- Existing memberships start out read so nobody opens the app to a wall of
+-- old unread messages.
+alter table public.chat_room_participants
+  add column if not exists last_read_at timestamptz;
+
+update public.chat_room_participants set last_read_at = now() where last_read_at is null;
+
+alter table public.chat_room_participants
+  alter column last_read_at set default now();
+
+create or replace function public.chat_inbox()
+returns table (
+  room_id uuid,
+  trip_id uuid,
+  trip_title text,
+  last_message_id uuid,
+  last_message_text text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_sender_firstname text,
+  last_message_sent_at timestamptz,
+  unread_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    r.id,
+    r.trip_id,
+    t.title,
+    m.id,
+    m.message_text,
+    m.message_type,
+    m.sender_id,
+    p.firstname,
+    m.sent_at,
+    (
+      select count(*)::integer
+        from public.chat_messages unread
+        where unread.room_id = r.id
+          and unread.sender_id <> auth.uid()
+          and unread.sent_at > coalesce(crp.last_read_at, '-infinity')
+    )
+  from public.chat_room_participants crp
+  join public.chat_rooms r on r.id = crp.room_id
+  join public.trips t on t.id = r.trip_id
+  left join lateral (
+    select * from public.chat_messages
+      where chat_messages.room_id = r.id
+      order by sent_at desc, id desc
+      limit 1
+  ) m on true
+  left join public.profiles p on p.id = m.sender_id
+  where crp.user_id = auth.uid()
+  order by coalesce(m.sent_at, r.created_at) desc;
+$$;
+
+grant execute on function public.chat_inbox() to authenticated;
+
+create or replace function public.mark_chat_room_read(p_room_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.chat_room_participants
+    set last_read_at = now()
+    where room_id = p_room_id and user_id = auth.uid();
+$$;
+
+grant execute on function public.mark_chat_room_read(uuid) to authenticated;
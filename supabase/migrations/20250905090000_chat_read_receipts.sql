@@ -0,0 +1,62 @@
+-- Read receipts: each member's last_read_at marks how far they have read a
+-- room. The client reports the newest message actually on screen, so the
+-- marker only moves forward and never past what the member has seen.
+-- Members can see each other's markers to show "seen by" under messages.
+drop function if exists public.mark_chat_room_read(uuid);
+
+create or replace function public.mark_chat_room_read(p_room_id uuid, p_read_at timestamptz default now())
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.chat_room_participants
+    set last_read_at = least(p_read_at, now())
+    where room_id = p_room_id
+      and user_id = auth.uid()
+      and (last_read_at is null or last_read_at < least(p_read_at, now()));
+$$;
+
+grant execute on function public.mark_chat_room_read(uuid, timestamptz) to authenticated;
+
+create or replace function public.is_chat_room_member(p_room_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.chat_room_participants
+      where room_id = p_room_id and user_id = p_user_id
+  );
+$$;
+
+-- Lets realtime deliver marker updates to the other members of a room
+drop policy if exists "Members can see who else is in their rooms" on public.chat_room_participants;
+create policy "Members can see who else is in their rooms"
+  on public.chat_room_participants
+  for select
+  to authenticated
+  using (public.is_chat_room_member(room_id, auth.uid()));
+
+create or replace function public.chat_read_markers(p_room_id uuid)
+returns table (user_id uuid, last_read_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_chat_room_member(p_room_id, auth.uid()) then
+    raise exception 'not_a_member' using errcode = '42501';
+  end if;
+
+  return query
+    select crp.user_id, crp.last_read_at
+      from public.chat_room_participants crp
+      where crp.room_id = p_room_id;
+end;
+$$;
+
+grant execute on function public.chat_read_markers(uuid) to authenticated;
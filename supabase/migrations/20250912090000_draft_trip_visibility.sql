@@ -0,0 +1,53 @@
+-- Drafts are only visible to their organizer. The policies are restrictive,
+-- so they narrow whatever select policies already exist on trips and
+-- trip_waypoints rather than widening them.
+drop policy if exists "Drafts are only visible to their organizer" on public.trips;
+create policy "Drafts are only visible to their organizer"
+  on public.trips
+  as restrictive
+  for select
+  using (published_at is not null or organizer_id = auth.uid());
+
+-- Goes through the trips policy above, so a draft's route stays hidden too
+drop policy if exists "Draft waypoints are only visible to their organizer" on public.trip_waypoints;
+create policy "Draft waypoints are only visible to their organizer"
+  on public.trip_waypoints
+  as restrictive
+  for select
+  using (exists (select 1 from public.trips t where t.id = trip_id));
+
+-- Joining a draft is rejected as trip_not_open. apply_for_trip already
+-- checked this; putting it here covers join_trip_waitlist as well.
+create or replace function public.assert_join_requirements(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_profile public.profiles%rowtype;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not found or v_trip.published_at is null then
+    raise exception 'trip_not_open' using errcode = 'P0002';
+  end if;
+
+  select * into v_profile from public.profiles where id = auth.uid();
+
+  if v_trip.min_rating_average is not null
+    and coalesce(v_profile.rating_average, 0) < v_trip.min_rating_average then
+    raise exception 'rating_too_low' using errcode = '22023';
+  end if;
+
+  if v_trip.require_complete_profile and (
+    coalesce(trim(v_profile.firstname), '') = ''
+    or coalesce(trim(v_profile.lastname), '') = ''
+    or coalesce(v_profile.avatar_url, '') = ''
+    or coalesce(trim(v_profile.bio), '') = ''
+  ) then
+    raise exception 'profile_incomplete' using errcode = '22023';
+  end if;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Other travellers read profiles through public_profiles only, so a hidden
+-- age never leaves the database. The restrictive policy narrows whatever
+-- select policies already exist on profiles to the owner's own row;
+-- public_profiles runs as its owner and still sees every row.
+drop policy if exists "Profiles are only readable by their owner" on public.profiles;
+create policy "Profiles are only readable by their owner"
+  on public.profiles
+  as restrictive
+  for select
+  using (id = auth.uid());
+
+-- Showing age is opt-in for new profiles; existing choices are kept
+alter table public.profiles alter column show_age set default false;
+
+-- user_ratings runs as the caller, so rater names now come from
+-- public_profiles instead of profiles
+drop view if exists public.user_ratings;
+
+create view public.user_ratings
+with (security_invoker = true)
+as
+  select
+    r.id,
+    r.rated_id,
+    r.rating_value,
+    r.comment,
+    r.created_at,
+    p.firstname as rater_firstname,
+    p.lastname as rater_lastname,
+    p.avatar_url as rater_avatar,
+    r.trip_id,
+    t.title as trip_title
+  from public.ratings r
+  left join public.public_profiles p on p.id = r.rater_id
+  left join public.trips t on t.id = r.trip_id;
+
+grant select on public.user_ratings to authenticated;
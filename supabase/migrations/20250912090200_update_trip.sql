@@ -0,0 +1,94 @@
+-- Saves an organizer's edit in one transaction: the trip fields, the
+-- waypoint list and the system message announcing the change either all
+-- apply or none do.
+--   p_changes          trip columns to overwrite; keys that are left out keep
+--                      their current value
+--   p_kept_waypoints   saved waypoints to keep, with their new sequence_order
+--   p_added_waypoints  new waypoints to insert
+-- Every other waypoint of the trip is deleted, so retrying an edit whose
+-- response was lost leaves the same waypoints rather than adding them twice.
+create or replace function public.update_trip(
+  p_trip_id uuid,
+  p_changes jsonb,
+  p_kept_waypoints jsonb default '[]',
+  p_added_waypoints jsonb default '[]',
+  p_announcement text default null
+)
+returns public.trips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_room_id uuid;
+begin
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.organizer_id is distinct from auth.uid() then
+    raise exception 'not_organizer' using errcode = '42501';
+  end if;
+
+  if v_trip.cancelled_at is not null then
+    raise exception 'trip_not_open' using errcode = 'P0002';
+  end if;
+
+  v_trip := jsonb_populate_record(v_trip, p_changes);
+
+  update public.trips set
+    title = v_trip.title,
+    description = v_trip.description,
+    origin_address = v_trip.origin_address,
+    origin_city = v_trip.origin_city,
+    origin_country = v_trip.origin_country,
+    origin_place_id = v_trip.origin_place_id,
+    origin_latlon = v_trip.origin_latlon,
+    destination = v_trip.destination,
+    destination_city = v_trip.destination_city,
+    destination_country = v_trip.destination_country,
+    destination_place_id = v_trip.destination_place_id,
+    destination_latlon = v_trip.destination_latlon,
+    start_date = v_trip.start_date,
+    end_date = v_trip.end_date,
+    max_participants = v_trip.max_participants,
+    price_per_seat = v_trip.price_per_seat,
+    currency = v_trip.currency,
+    budget = v_trip.budget,
+    automatic_approval = v_trip.automatic_approval,
+    keep_middle_seat_free = v_trip.keep_middle_seat_free,
+    avoid_highways = v_trip.avoid_highways,
+    avoid_tolls = v_trip.avoid_tolls,
+    leave_cutoff_hours = v_trip.leave_cutoff_hours,
+    min_rating_average = v_trip.min_rating_average,
+    require_complete_profile = v_trip.require_complete_profile,
+    seat_rows = v_trip.seat_rows
+  where id = p_trip_id
+  returning * into v_trip;
+
+  delete from public.trip_waypoints tw
+    where tw.trip_id = p_trip_id
+      and not exists (
+        select 1 from jsonb_populate_recordset(null::public.trip_waypoints, p_kept_waypoints) kept
+          where kept.id = tw.id
+      );
+
+  update public.trip_waypoints tw
+    set sequence_order = kept.sequence_order
+    from jsonb_populate_recordset(null::public.trip_waypoints, p_kept_waypoints) kept
+    where tw.id = kept.id and tw.trip_id = p_trip_id;
+
+  insert into public.trip_waypoints (trip_id, address, place_id, origin_latlon, sequence_order)
+    select p_trip_id, added.address, added.place_id, added.origin_latlon, added.sequence_order
+      from jsonb_populate_recordset(null::public.trip_waypoints, p_added_waypoints) added;
+
+  if p_announcement is not null then
+    v_room_id := public.get_or_create_trip_chat_room(p_trip_id);
+    insert into public.chat_messages (room_id, sender_id, message_text, message_type)
+      values (v_room_id, auth.uid(), p_announcement, 'system');
+  end if;
+
+  return v_trip;
+end;
+$$;
+
+grant execute on function public.update_trip(uuid, jsonb, jsonb, jsonb, text) to authenticated;
@@ -0,0 +1,100 @@
+-- Applying and joining the waitlist share the same checks, so neither path
+-- lets anyone into a draft, a cancelled trip or one that has already
+-- started. assert_join_requirements now raises:
+--   trip_not_open       the trip is missing, a draft or cancelled
+--   trip_started        the trip's start date has passed
+--   rating_too_low      below the organizer's minimum rating
+--   profile_incomplete  the organizer requires a complete profile
+create or replace function public.assert_join_requirements(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_profile public.profiles%rowtype;
+begin
+  select * into v_trip from public.trips where id = p_trip_id;
+
+  if not found or v_trip.published_at is null or v_trip.cancelled_at is not null then
+    raise exception 'trip_not_open' using errcode = 'P0002';
+  end if;
+
+  if v_trip.start_date <= now() then
+    raise exception 'trip_started' using errcode = 'P0002';
+  end if;
+
+  select * into v_profile from public.profiles where id = auth.uid();
+
+  if v_trip.min_rating_average is not null
+    and coalesce(v_profile.rating_average, 0) < v_trip.min_rating_average then
+    raise exception 'rating_too_low' using errcode = '22023';
+  end if;
+
+  if v_trip.require_complete_profile and (
+    coalesce(trim(v_profile.firstname), '') = ''
+    or coalesce(trim(v_profile.lastname), '') = ''
+    or coalesce(v_profile.avatar_url, '') = ''
+    or coalesce(trim(v_profile.bio), '') = ''
+  ) then
+    raise exception 'profile_incomplete' using errcode = '22023';
+  end if;
+end;
+$$;
+
+-- The open checks moved into assert_join_requirements. Re-applying still
+-- returns the current state first, so a replayed request is harmless even
+-- after the trip has started.
+create or replace function public.apply_for_trip(p_trip_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_existing public.trip_participants%rowtype;
+  v_approved_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  -- Locked so two automatic approvals can't both take the last seat
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  select * into v_existing from public.trip_participants
+    where trip_id = p_trip_id and user_id = auth.uid();
+
+  if found then
+    return case
+      when v_existing.approved then 'approved'
+      when v_existing.rejected_at is not null then 'rejected'
+      when v_existing.waitlisted_at is not null then 'waitlisted'
+      else 'pending'
+    end;
+  end if;
+
+  perform public.assert_join_requirements(p_trip_id);
+
+  if not coalesce(v_trip.automatic_approval, false) then
+    insert into public.trip_participants (trip_id, user_id, approved)
+      values (p_trip_id, auth.uid(), false);
+    return 'pending';
+  end if;
+
+  select count(*) into v_approved_count from public.trip_participants
+    where trip_id = p_trip_id and approved;
+
+  if v_trip.max_participants is not null and v_approved_count >= v_trip.max_participants then
+    insert into public.trip_participants (trip_id, user_id, approved, waitlisted_at)
+      values (p_trip_id, auth.uid(), false, now());
+    return 'waitlisted';
+  end if;
+
+  insert into public.trip_participants (trip_id, user_id, approved)
+    values (p_trip_id, auth.uid(), true);
+  return 'approved';
+end;
+$$;
@@ -0,0 +1,52 @@
+-- Route search candidates. A trip's route runs from its origin through its
+-- waypoints to its destination; this returns the upcoming trips whose route
+-- passes within p_max_distance_km of both of the rider's points, so the
+-- client only loads those trips to pick the pickup and drop-off stops.
+create or replace function public.trips_along_route(
+  p_origin_latitude double precision,
+  p_origin_longitude double precision,
+  p_destination_latitude double precision,
+  p_destination_longitude double precision,
+  p_max_distance_km double precision
+)
+returns setof uuid
+language sql
+stable
+as $$
+  with routes as (
+    select
+      t.id,
+      st_makeline(array(
+        select stop.point
+          from (
+            select 0 as part, 0 as sequence_order, t.origin_latlon::geometry as point
+            union all
+            select 1, w.sequence_order, coalesce(w.origin_latlon, w.destination_latlon)::geometry
+              from public.trip_waypoints w
+              where w.trip_id = t.id
+            union all
+            select 2, 0, t.destination_latlon::geometry
+          ) stop
+          where stop.point is not null
+          order by stop.part, stop.sequence_order
+      ))::geography as route
+    from public.trips t
+    where t.published_at is not null
+      and t.cancelled_at is null
+      and t.start_date >= now()
+  )
+  select routes.id
+    from routes
+    where st_dwithin(
+        routes.route,
+        st_setsrid(st_makepoint(p_origin_longitude, p_origin_latitude), 4326)::geography,
+        p_max_distance_km * 1000
+      )
+      and st_dwithin(
+        routes.route,
+        st_setsrid(st_makepoint(p_destination_longitude, p_destination_latitude), 4326)::geography,
+        p_max_distance_km * 1000
+      );
+$$;
+
+grant execute on function public.trips_along_route(double precision, double precision, double precision, double precision, double precision) to authenticated;
@@ -0,0 +1,104 @@
+-- The waitlist is only for trips that are actually full, and it never
+-- skips the organizer: on trips without automatic approval a freed seat
+-- turns the oldest waitlisted travellers into pending requests for the
+-- organizer to decide on, instead of seating them.
+create or replace function public.promote_from_waitlist(p_trip_id uuid)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_free integer;
+  v_pending integer;
+  v_user_id uuid;
+begin
+  -- Serialises promotion against approvals for the same trip
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.cancelled_at is not null then
+    return;
+  end if;
+
+  select v_trip.max_participants - count(*) into v_free
+    from public.trip_participants
+    where trip_id = p_trip_id and approved;
+
+  if not coalesce(v_trip.automatic_approval, false) then
+    -- Offer the organizer as many requests as there are free seats
+    select count(*) into v_pending
+      from public.trip_participants
+      where trip_id = p_trip_id and not approved
+        and waitlisted_at is null and rejected_at is null;
+
+    update public.trip_participants
+      set waitlisted_at = null
+      where trip_id = p_trip_id
+        and user_id in (
+          select user_id from public.trip_participants
+            where trip_id = p_trip_id and waitlisted_at is not null and not approved
+            order by waitlisted_at, user_id
+            limit greatest(v_free - v_pending, 0)
+        );
+    return;
+  end if;
+
+  for v_user_id in
+    select user_id from public.trip_participants
+      where trip_id = p_trip_id and waitlisted_at is not null and not approved
+      order by waitlisted_at, user_id
+      limit greatest(v_free, 0)
+  loop
+    update public.trip_participants
+      set approved = true, waitlisted_at = null
+      where trip_id = p_trip_id and user_id = v_user_id;
+
+    insert into public.chat_room_participants (room_id, user_id, is_organizer)
+      select r.id, v_user_id, false from public.chat_rooms r where r.trip_id = p_trip_id
+      on conflict do nothing;
+
+    return next v_user_id;
+  end loop;
+end;
+$$;
+
+-- Only triggers and other security definer functions call it
+revoke execute on function public.promote_from_waitlist(uuid) from public, anon, authenticated;
+
+-- Raises trip_not_full when the trip still has a free seat; applying is the
+-- way in then.
+create or replace function public.join_trip_waitlist(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_approved_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  perform public.assert_join_requirements(p_trip_id);
+
+  -- Locked so a seat can't free up between counting and joining
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  select count(*) into v_approved_count from public.trip_participants
+    where trip_id = p_trip_id and approved;
+
+  if v_trip.max_participants is null or v_approved_count < v_trip.max_participants then
+    raise exception 'trip_not_full' using errcode = '22023';
+  end if;
+
+  insert into public.trip_participants (trip_id, user_id, approved, waitlisted_at)
+    values (p_trip_id, auth.uid(), false, now())
+    on conflict (trip_id, user_id) do update
+      set waitlisted_at = coalesce(public.trip_participants.waitlisted_at, now())
+      where not public.trip_participants.approved
+        and public.trip_participants.rejected_at is null;
+end;
+$$;
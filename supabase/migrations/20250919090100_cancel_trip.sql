@@ -0,0 +1,53 @@
+-- Cancelling a trip and telling its riders happen in one transaction, so a
+-- trip is never cancelled without the notice reaching the trip chat.
+-- Cancelling again returns the trip unchanged.
+create or replace function public.cancel_trip(p_trip_id uuid, p_reason text default null)
+returns public.trips
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_reason text := nullif(trim(p_reason), '');
+  v_room_id uuid;
+begin
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.organizer_id is distinct from auth.uid() then
+    raise exception 'not_organizer' using errcode = '42501';
+  end if;
+
+  if v_trip.cancelled_at is not null then
+    return v_trip;
+  end if;
+
+  if v_trip.published_at is not null and v_trip.start_date <= now() then
+    raise exception 'trip_started' using errcode = 'P0002';
+  end if;
+
+  update public.trips
+    set cancelled_at = now(), cancellation_reason = v_reason
+    where id = p_trip_id
+    returning * into v_trip;
+
+  select id into v_room_id from public.chat_rooms where trip_id = p_trip_id;
+
+  if v_room_id is not null then
+    insert into public.chat_messages (room_id, sender_id, message_text, message_type)
+      values (
+        v_room_id,
+        auth.uid(),
+        case when v_reason is null
+          then 'The organizer cancelled this trip.'
+          else 'The organizer cancelled this trip.' || chr(10) || 'Reason: ' || v_reason
+        end,
+        'system'
+      );
+  end if;
+
+  return v_trip;
+end;
+$$;
+
+grant execute on function public.cancel_trip(uuid, text) to authenticated;
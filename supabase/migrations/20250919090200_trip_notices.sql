@@ -0,0 +1,72 @@
+-- Deleting a trip removes its chat room with it, so riders and applicants
+-- are told through trip_notices instead: one row per person, shown until
+-- they dismiss it. delete_trip writes the notices and deletes the trip in
+-- one transaction.
+create table if not exists public.trip_notices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  message text not null,
+  created_at timestamptz not null default now(),
+  dismissed_at timestamptz
+);
+
+create index if not exists trip_notices_user_open_idx
+  on public.trip_notices (user_id, created_at desc)
+  where dismissed_at is null;
+
+alter table public.trip_notices enable row level security;
+
+drop policy if exists "Users read their own notices" on public.trip_notices;
+create policy "Users read their own notices"
+  on public.trip_notices
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users dismiss their own notices" on public.trip_notices;
+create policy "Users dismiss their own notices"
+  on public.trip_notices
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+grant select on public.trip_notices to authenticated;
+grant update (dismissed_at) on public.trip_notices to authenticated;
+
+create or replace function public.delete_trip(p_trip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trip public.trips%rowtype;
+  v_title text;
+begin
+  select * into v_trip from public.trips where id = p_trip_id for update;
+
+  if not found or v_trip.organizer_id is distinct from auth.uid() then
+    raise exception 'not_organizer' using errcode = '42501';
+  end if;
+
+  v_title := coalesce(nullif(trim(v_trip.title), ''), v_trip.destination);
+
+  insert into public.trip_notices (user_id, message)
+    select
+      p.user_id,
+      case
+        when p.approved then format('The organizer deleted "%s". Your seat on it is gone.', v_title)
+        when p.waitlisted_at is not null then format('The organizer deleted "%s", so its waitlist is gone.', v_title)
+        else format('The organizer deleted "%s", so your request to join was closed.', v_title)
+      end
+    from public.trip_participants p
+    where p.trip_id = p_trip_id
+      and p.user_id <> v_trip.organizer_id
+      and p.rejected_at is null;
+
+  perform public.delete_trip_and_participants(p_trip_id);
+end;
+$$;
+
+grant execute on function public.delete_trip(uuid) to authenticated;
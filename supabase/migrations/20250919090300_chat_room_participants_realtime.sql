@@ -0,0 +1,16 @@
+-- The inbox listens for changes to the user's own room memberships and
+-- the chat listens for read markers. Realtime only streams tables in the
+-- publication; the check keeps this safe to run where the table was
+-- already added by hand.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'chat_room_participants'
+  ) then
+    alter publication supabase_realtime add table public.chat_room_participants;
+  end if;
+end;
+$$;
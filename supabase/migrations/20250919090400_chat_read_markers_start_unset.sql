@@ -0,0 +1,60 @@
+-- New members start without a read marker, so "seen by" doesn't count
+-- them for messages sent before they joined. Markers still equal to the
+-- join time were set by the old default rather than by reading, so they
+-- are cleared too. Unread counts treat a missing marker as the join time,
+-- which keeps older history from showing up as unread.
+alter table public.chat_room_participants
+  alter column last_read_at drop default;
+
+update public.chat_room_participants
+  set last_read_at = null
+  where last_read_at = joined_at;
+
+create or replace function public.chat_inbox()
+returns table (
+  room_id uuid,
+  trip_id uuid,
+  trip_title text,
+  last_message_id uuid,
+  last_message_text text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_sender_firstname text,
+  last_message_sent_at timestamptz,
+  unread_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    r.id,
+    r.trip_id,
+    t.title,
+    m.id,
+    m.message_text,
+    m.message_type,
+    m.sender_id,
+    p.firstname,
+    m.sent_at,
+    (
+      select count(*)::integer
+        from public.chat_messages unread
+        where unread.room_id = r.id
+          and unread.sender_id <> auth.uid()
+          and unread.sent_at > coalesce(crp.last_read_at, crp.joined_at, '-infinity')
+    )
+  from public.chat_room_participants crp
+  join public.chat_rooms r on r.id = crp.room_id
+  join public.trips t on t.id = r.trip_id
+  left join lateral (
+    select * from public.chat_messages
+      where chat_messages.room_id = r.id
+      order by sent_at desc, id desc
+      limit 1
+  ) m on true
+  left join public.profiles p on p.id = m.sender_id
+  where crp.user_id = auth.uid()
+  order by coalesce(m.sent_at, r.created_at) desc;
+$$;